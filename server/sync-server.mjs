@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+/**
+ * Reference sync server for Daily Focus – no dependencies, plain Node.
+ *
+ *   npm run sync-server
+ *
+ * Environment:
+ *   PORT        port to listen on                (default 8787)
+ *   HOST        interface to bind                (default 0.0.0.0, so phones on the LAN can reach it)
+ *   SYNC_TOKEN  if set, clients must send `Authorization: Bearer <token>`
+ *   DATA_FILE   where state is persisted as JSON (default ./sync-data.json)
+ *
+ * Protocol (see src/lib/sync/transport.ts):
+ *
+ *   POST /spaces/:space/sync   { since: number, changes: Change[] }
+ *     → { cursor: number, records: RemoteRecord[] }
+ *
+ * Each change sets one field of one record.  A field only takes a change
+ * whose stamp is greater than the one it holds (last writer wins, per
+ * field).  The response lists every record touched after `since`, with
+ * all of its fields, plus the cursor to send next time.
+ *
+ *   GET /health → { ok: true }
+ */
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = process.env.HOST || '0.0.0.0';
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = process.env.DATA_FILE || './sync-data.json';
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * spaces[space] = {
+ *   seq: number,
+ *   records: { [key]: { seq: number, fields: { [field]: { value, stamp } } } }
+ * }
+ */
+let spaces = {};
+if (existsSync(DATA_FILE)) {
+  try {
+    spaces = JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+  } catch (err) {
+    console.error(`Could not read ${DATA_FILE}:`, err.message);
+    process.exit(1);
+  }
+}
+
+function persist() {
+  const tmp = `${DATA_FILE}.tmp`;
+  writeFileSync(tmp, JSON.stringify(spaces));
+  renameSync(tmp, DATA_FILE);
+}
+
+const isChange = c =>
+  !!c &&
+  typeof c.key === 'string' &&
+  typeof c.field === 'string' &&
+  typeof c.stamp === 'string' &&
+  (c.value === null || ['string', 'number', 'boolean'].includes(typeof c.value));
+
+function exchange(spaceName, { since, changes }) {
+  const space = (spaces[spaceName] ??= { seq: 0, records: {} });
+  let touched = false;
+
+  for (const change of changes) {
+    const record = (space.records[change.key] ??= { seq: 0, fields: {} });
+    const current = record.fields[change.field];
+    if (current && current.stamp >= change.stamp) continue;
+    record.fields[change.field] = { value: change.value, stamp: change.stamp };
+    record.seq = ++space.seq;
+    touched = true;
+  }
+  if (touched) persist();
+
+  const records = Object.entries(space.records)
+    .filter(([, r]) => r.seq > since)
+    .map(([key, r]) => ({ key, fields: r.fields }));
+  return { cursor: space.seq, records };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, `http://${req.headers.host}`);
+  if (req.method === 'GET' && url.pathname === '/health') return send(res, 200, { ok: true });
+
+  const match = /^\/spaces\/([^/]+)\/sync$/.exec(url.pathname);
+  if (req.method !== 'POST' || !match) return send(res, 404, { error: 'Not found' });
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    return send(res, 401, { error: 'Missing or wrong token' });
+  }
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (err) {
+    return send(res, 400, { error: `Bad request body: ${err.message}` });
+  }
+  const since = Number(body?.since) || 0;
+  const changes = Array.isArray(body?.changes) ? body.changes : null;
+  if (!changes || !changes.every(isChange)) {
+    return send(res, 400, { error: 'Expected { since: number, changes: Change[] }' });
+  }
+
+  try {
+    send(res, 200, exchange(decodeURIComponent(match[1]), { since, changes }));
+  } catch (err) {
+    console.error('Sync failed:', err);
+    send(res, 500, { error: 'Sync failed' });
+  }
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Daily Focus sync server listening on http://${HOST}:${PORT}`);
+  console.log(`Data file: ${DATA_FILE}${TOKEN ? ' · token required' : ' · no token (set SYNC_TOKEN to require one)'}`);
+});
@@ -0,0 +1,90 @@
+import {
+  Book,
+  Briefcase,
+  Dumbbell,
+  Folder,
+  Heart,
+  Home,
+  Star,
+  User,
+  Users,
+  Wallet,
+  type LucideIcon,
+} from 'lucide-react';
+import { useCategories } from '@/hooks/useTaskData';
+import type { Category, CategoryColor, CategoryIcon } from '@/lib/categories';
+
+/** Tailwind classes per palette colour, written out so the JIT sees them. */
+const CATEGORY_STYLES: Record<CategoryColor, { badge: string; dot: string }> = {
+  gray: { badge: 'bg-gray-100 text-gray-700 border-gray-200', dot: 'bg-gray-500' },
+  red: { badge: 'bg-red-50 text-red-700 border-red-200', dot: 'bg-red-500' },
+  orange: { badge: 'bg-orange-50 text-orange-700 border-orange-200', dot: 'bg-orange-500' },
+  amber: { badge: 'bg-amber-50 text-amber-700 border-amber-200', dot: 'bg-amber-500' },
+  green: { badge: 'bg-green-50 text-green-700 border-green-200', dot: 'bg-green-500' },
+  teal: { badge: 'bg-teal-50 text-teal-700 border-teal-200', dot: 'bg-teal-500' },
+  blue: { badge: 'bg-blue-50 text-blue-700 border-blue-200', dot: 'bg-blue-500' },
+  indigo: { badge: 'bg-indigo-50 text-indigo-700 border-indigo-200', dot: 'bg-indigo-500' },
+  purple: { badge: 'bg-purple-50 text-purple-700 border-purple-200', dot: 'bg-purple-500' },
+  pink: { badge: 'bg-pink-50 text-pink-700 border-pink-200', dot: 'bg-pink-500' },
+};
+
+const CATEGORY_ICON_COMPONENTS: Record<CategoryIcon, LucideIcon> = {
+  user: User,
+  briefcase: Briefcase,
+  heart: Heart,
+  home: Home,
+  dumbbell: Dumbbell,
+  book: Book,
+  wallet: Wallet,
+  users: Users,
+  star: Star,
+  folder: Folder,
+};
+
+/** How a category id renders when the category is gone (e.g. synced from elsewhere). */
+const unknownCategory = (id: string): Category => ({ id, name: id, color: 'gray', icon: 'folder' });
+
+/** One of the category icons by name. */
+export const CategoryGlyph = ({ icon, className = 'w-4 h-4' }: { icon: CategoryIcon; className?: string }) => {
+  const Icon = CATEGORY_ICON_COMPONENTS[icon];
+  return <Icon className={className} />;
+};
+
+/** A round swatch in a palette colour. */
+export const ColorDot = ({ color, className = 'w-3 h-3' }: { color: CategoryColor; className?: string }) => (
+  <span className={`inline-block rounded-full ${CATEGORY_STYLES[color].dot} ${className}`} />
+);
+
+interface CategoryBadgeProps {
+  categoryId: string;
+  /** Icon and first letter only, for tight rows. */
+  compact?: boolean;
+  className?: string;
+}
+
+/** A task’s category, in the category’s own colour and icon. */
+export const CategoryBadge = ({ categoryId, compact = false, className = '' }: CategoryBadgeProps) => {
+  const { data: categories = [] } = useCategories();
+  const category = categories.find(c => c.id === categoryId) ?? unknownCategory(categoryId);
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium ${CATEGORY_STYLES[category.color].badge} ${className}`}
+      title={category.name}
+    >
+      <CategoryGlyph icon={category.icon} className="w-3 h-3" />
+      {compact ? category.name.charAt(0).toUpperCase() : category.name}
+    </span>
+  );
+};
+
+/** Free‑form tags as small “#tag” chips. */
+export const TagList = ({ tags, className = '' }: { tags?: string[]; className?: string }) => {
+  if (!tags?.length) return null;
+  return (
+    <span className={`inline-flex flex-wrap gap-1 ${className}`}>
+      {tags.map(tag => (
+        <span key={tag} className="text-xs text-indigo-600">#{tag}</span>
+      ))}
+    </span>
+  );
+};
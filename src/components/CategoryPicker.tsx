@@ -0,0 +1,33 @@
+import { Button } from '@/components/ui/button';
+import { useCategories } from '@/hooks/useTaskData';
+import { activeCategories } from '@/lib/categories';
+import { CategoryGlyph } from '@/components/CategoryBadge';
+
+interface CategoryPickerProps {
+  value: string | undefined;
+  onChange: (id: string) => void;
+}
+
+/** One button per active category. */
+export const CategoryPicker = ({ value, onChange }: CategoryPickerProps) => {
+  const { data: categories = [] } = useCategories();
+  return (
+    <div className="flex flex-wrap gap-2">
+      {activeCategories(categories).map(category => {
+        return (
+          <Button
+            key={category.id}
+            variant={value === category.id ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onChange(category.id)}
+            aria-pressed={value === category.id}
+            className="flex items-center gap-2"
+          >
+            <CategoryGlyph icon={category.icon} />
+            {category.name}
+          </Button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Archive, ArchiveRestore, Check, Pencil, Plus, Tags } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useCategories } from '@/hooks/useTaskData';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  MAX_CATEGORIES,
+  activeCategories,
+  archiveCategory,
+  restoreCategory,
+  saveCategory,
+  type CategoryInput,
+} from '@/lib/categories';
+import { CategoryBadge, CategoryGlyph, ColorDot } from '@/components/CategoryBadge';
+
+const emptyDraft = (): CategoryInput => ({ name: '', color: 'teal', icon: 'folder' });
+
+/** Name, colour and icon fields for one category. */
+const CategoryFields = ({ draft, onChange }: { draft: CategoryInput; onChange: (next: CategoryInput) => void }) => (
+  <div className="space-y-2">
+    <Input
+      value={draft.name}
+      onChange={e => onChange({ ...draft, name: e.target.value })}
+      placeholder="Category name"
+      className="h-8"
+    />
+    <div className="flex flex-wrap gap-1.5">
+      {CATEGORY_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          aria-label={color}
+          aria-pressed={draft.color === color}
+          onClick={() => onChange({ ...draft, color })}
+          className={`flex rounded-full ${draft.color === color ? 'ring-2 ring-offset-2 ring-gray-400' : ''}`}
+        >
+          <ColorDot color={color} className="w-6 h-6" />
+        </button>
+      ))}
+    </div>
+    <div className="flex flex-wrap gap-1">
+      {CATEGORY_ICONS.map(icon => (
+        <Button
+          key={icon}
+          type="button"
+          variant={draft.icon === icon ? 'default' : 'outline'}
+          size="sm"
+          className="h-8 w-8 p-0"
+          aria-label={icon}
+          aria-pressed={draft.icon === icon}
+          onClick={() => onChange({ ...draft, icon })}
+        >
+          <CategoryGlyph icon={icon} />
+        </Button>
+      ))}
+    </div>
+  </div>
+);
+
+/** Create, rename, recolour and archive task categories. */
+export const CategorySettings = () => {
+  const { data: categories = [] } = useCategories();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ id?: string; draft: CategoryInput } | null>(null);
+
+  const active = activeCategories(categories);
+  const archived = categories.filter(c => c.archived);
+
+  const run = async (action: () => Promise<unknown>, title: string, failure: string) => {
+    try {
+      await action();
+      toast({ title });
+      return true;
+    } catch (err) {
+      console.error('[CategorySettings] ' + failure, err);
+      toast({
+        title: failure,
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const saved = await run(
+      () => saveCategory(editing.draft, editing.id),
+      editing.id ? 'Category updated' : 'Category added',
+      'Could not save category',
+    );
+    if (saved) setEditing(null);
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Tags className="w-5 h-5 text-indigo-600" />
+          Categories
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {active.map(category =>
+          editing?.id === category.id ? (
+            <div key={category.id} className="rounded-lg border bg-white p-3 space-y-2">
+              <CategoryFields draft={editing.draft} onChange={draft => setEditing({ ...editing, draft })} />
+              <div className="flex gap-2 justify-end">
+                <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button size="sm" onClick={handleSave} disabled={!editing.draft.name.trim()}>
+                  <Check className="w-4 h-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div key={category.id} className="flex items-center gap-2">
+              <div className="flex-1">
+                <CategoryBadge categoryId={category.id} />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                aria-label={`Edit ${category.name}`}
+                onClick={() => setEditing({ id: category.id, draft: { name: category.name, color: category.color, icon: category.icon } })}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                aria-label={`Archive ${category.name}`}
+                disabled={active.length === 1}
+                onClick={() => run(() => archiveCategory(category.id), `${category.name} archived`, 'Could not archive category')}
+              >
+                <Archive className="w-4 h-4" />
+              </Button>
+            </div>
+          ),
+        )}
+
+        {editing && !editing.id ? (
+          <div className="rounded-lg border bg-white p-3 space-y-2">
+            <CategoryFields draft={editing.draft} onChange={draft => setEditing({ draft })} />
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button size="sm" onClick={handleSave} disabled={!editing.draft.name.trim()}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={active.length >= MAX_CATEGORIES}
+            onClick={() => setEditing({ draft: emptyDraft() })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New category
+          </Button>
+        )}
+
+        {archived.length > 0 && (
+          <div className="space-y-1 pt-2 border-t">
+            <p className="text-xs text-gray-500">Archived – still shown on the tasks that use them</p>
+            {archived.map(category => (
+              <div key={category.id} className="flex items-center gap-2 opacity-70">
+                <div className="flex-1">
+                  <CategoryBadge categoryId={category.id} />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  aria-label={`Restore ${category.name}`}
+                  onClick={() => run(() => restoreCategory(category.id), `${category.name} restored`, 'Could not restore category')}
+                >
+                  <ArchiveRestore className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
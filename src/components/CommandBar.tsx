@@ -0,0 +1,149 @@
+import { useRef, useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { CornerDownLeft, Terminal } from 'lucide-react';
+import { CategoryBadge } from './CategoryBadge';
+import { DeadlineBadge } from './DeadlineBadge';
+import { useToast } from '@/hooks/use-toast';
+import { useAgentTools } from '@/hooks/useAgentTools';
+import { useCategories, useEntryForDate } from '@/hooks/useTaskData';
+import { COMMAND_EXAMPLES, parseCommand } from '@/lib/commandParser';
+import type { Task } from '@/lib/tasks';
+
+interface CommandBarProps {
+  onTasksCollected: (tasks: Task[], reflection: string) => void;
+}
+
+interface LogLine {
+  id: number;
+  command: string;
+  reply: string;
+  examples?: boolean;
+}
+
+/**
+ * Type what you would say to Jarvis.  Commands are parsed locally
+ * (`parseCommand`) and run through the voice agent’s own tools, so the
+ * replies, notices and undo are the same – no network or microphone needed.
+ */
+export const CommandBar = ({ onTasksCollected }: CommandBarProps) => {
+  const { data: categories = [] } = useCategories();
+  const { data: todayEntry } = useEntryForDate();
+  const { runTool } = useAgentTools();
+  const { toast } = useToast();
+  const [command, setCommand] = useState('');
+  const [log, setLog] = useState<LogLine[]>([]);
+  const [running, setRunning] = useState(false);
+  const nextId = useRef(0);
+
+  const tasks = todayEntry?.tasks ?? [];
+
+  const answer = (line: Omit<LogLine, 'id'>) =>
+    setLog(previous => [...previous, { ...line, id: nextId.current++ }]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const input = command.trim();
+    if (!input || running) return;
+
+    const parsed = parseCommand(input, { categories });
+    if (parsed.kind === 'help') {
+      answer({ command: input, reply: 'Try one of these:', examples: true });
+      setCommand('');
+      return;
+    }
+    if (parsed.kind === 'unknown') {
+      answer({ command: input, reply: parsed.reply });
+      return;
+    }
+
+    setRunning(true);
+    try {
+      const { reply, finalized } = await runTool(parsed.tool, parsed.parameters);
+      answer({ command: input, reply });
+      setCommand('');
+      if (finalized) onTasksCollected(finalized.tasks, finalized.reflection ?? '');
+    } catch (err) {
+      console.error('[CommandBar] Command failed', err);
+      toast({
+        title: 'Command failed',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Terminal className="w-5 h-5 text-blue-600" />
+            Command Bar
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {log.length > 0 && (
+            <div className="space-y-3 max-h-72 overflow-y-auto text-sm">
+              {log.map(line => (
+                <div key={line.id} className="space-y-1">
+                  <p className="font-mono text-gray-500">› {line.command}</p>
+                  <p className="text-gray-800">{line.reply}</p>
+                  {line.examples && (
+                    <ul className="text-gray-600 list-disc pl-5">
+                      {COMMAND_EXAMPLES.map(example => (
+                        <li key={example} className="font-mono text-xs">{example}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              value={command}
+              onChange={e => setCommand(e.target.value)}
+              placeholder={`e.g. ${COMMAND_EXAMPLES[0]}`}
+              aria-label="Command"
+              autoFocus
+              disabled={running}
+            />
+            <Button type="submit" disabled={running || !command.trim()}>
+              <CornerDownLeft className="w-4 h-4" />
+            </Button>
+          </form>
+          <p className="text-xs text-gray-500">
+            Type “help” for examples – “done with gym”, “my reflection is …”, “finalize”.
+          </p>
+        </CardContent>
+      </Card>
+
+      {tasks.length > 0 && (
+        <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Today ({tasks.length}/5)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {tasks.map((task, index) => (
+                <div key={task.id} className="flex items-center gap-3 p-2 bg-gray-50 rounded">
+                  <span className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs">
+                    {index + 1}
+                  </span>
+                  <span className={`flex-1 ${task.completed ? 'line-through text-gray-400' : ''}`}>{task.text}</span>
+                  <DeadlineBadge task={task} />
+                  <CategoryBadge categoryId={task.category} />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -4,35 +4,65 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Plus, X, Briefcase, User, Sparkles } from 'lucide-react';
+import { Plus, X, Sparkles, Zap, Star, Flame, Repeat } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { Task } from '@/models/task';
-import { safeLoadDailyEntries, saveDailyEntry, updateLastCompleted } from '@/utils/storage';
+import {
+  QUADRANTS,
+  addTask as persistTask,
+  editTask,
+  isChronic,
+  quadrantOf,
+  removeTask as deleteTask,
+  type DeadlineType,
+  type Task,
+} from '@/lib/tasks';
+import { saveDailyEntry, updateLastCompleted } from '@/utils/storage';
+import { todayKey } from '@/lib/dates';
+import { useDefaultCategory, useEntryForDate, useRanking } from '@/hooks/useTaskData';
+import { TaskScoreDetails } from '@/components/TaskScoreDetails';
+import { DeadlineBadge } from '@/components/DeadlineBadge';
+import { SubtaskList } from '@/components/SubtaskList';
+import { CategoryBadge, TagList } from '@/components/CategoryBadge';
+import { CategoryPicker } from '@/components/CategoryPicker';
+import { parseTags } from '@/lib/categories';
+import { GoalPicker } from '@/components/GoalPicker';
+import { DueDatePicker } from '@/components/DueDatePicker';
+import { useJournal } from '@/hooks/useJournal';
 
 interface DailyTaskEntryProps {
-  onComplete: () => void;
+  onComplete?: () => void;
 }
 
 export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
-  const [tasks, setTasks] = useState<Task[]>([]);
   const [newTask, setNewTask] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<'personal' | 'professional'>('personal');
+  const [pickedCategory, setPickedCategory] = useState<string>();
+  const selectedCategory = useDefaultCategory(pickedCategory);
+  const [tags, setTags] = useState('');
+  const [goalId, setGoalId] = useState<string | null>(null);
+  const [urgent, setUrgent] = useState(false);
+  const [important, setImportant] = useState(true);
+  const [dueAt, setDueAt] = useState<string | null>(null);
+  const [deadlineType, setDeadlineType] = useState<DeadlineType>('soft');
   const [reflection, setReflection] = useState('');
+  const [reflectionTouched, setReflectionTouched] = useState(false);
   const { toast } = useToast();
+  const { undoAction } = useJournal();
 
   // Identify the current day (used as a unique key in storage)
-  const todayKey = new Date().toDateString();
+  const today = todayKey();
 
-  /** Hydrate tasks/reflection if the voice flow already saved today’s entry */
+  // Tasks are persisted as they are added, so the voice flow, other tabs
+  // and this form always show the same list.
+  const { data: todayEntry } = useEntryForDate(today);
+  const tasks = todayEntry?.tasks ?? [];
+  const ranking = useRanking(tasks);
+
+  /** Pick up a stored reflection until the user starts typing their own */
   useEffect(() => {
-    const existing = safeLoadDailyEntries().find(e => e.date === todayKey);
-    if (existing) {
-      setTasks(existing.tasks);
-      setReflection(existing.reflection ?? '');
-    }
-  }, [todayKey]);
+    if (!reflectionTouched) setReflection(todayEntry?.reflection ?? '');
+  }, [todayEntry?.reflection, reflectionTouched]);
 
-  const addTask = () => {
+  const addTask = async () => {
     if (!newTask.trim()) return;
     
     if (tasks.length >= 5) {
@@ -44,29 +74,74 @@ export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
       return;
     }
 
-    const task: Task = {
-      id: Date.now().toString(),
-      text: newTask.trim(),
-      category: selectedCategory,
-      priority: tasks.length + 1,
-      createdAt: new Date().toISOString(),
-      completed: false,
-    };
-
-    setTasks([...tasks, task]);
+    try {
+      await persistTask({
+        text: newTask,
+        category: selectedCategory,
+        urgent,
+        important,
+        ...(dueAt ? { dueAt, deadlineType } : {}),
+        ...(tags.trim() ? { tags: parseTags(tags) } : {}),
+        ...(goalId ? { goal: goalId } : {}),
+      });
+    } catch (err) {
+      console.error('[DailyTaskEntry] Could not add task', err);
+      toast({
+        title: 'Could not add task',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return;
+    }
     setNewTask('');
+    setDueAt(null);
+    setTags('');
     
     toast({
       title: "Task added!",
-      description: `Added to ${selectedCategory} priorities`,
+      description: QUADRANTS[quadrantOf({ urgent, important })].label,
+      action: undoAction(),
     });
   };
 
-  const removeTask = (id: string) => {
-    setTasks(tasks.filter(task => task.id !== id));
+  const removeTask = async (id: string) => {
+    const removed = await deleteTask(id);
+    if (!removed) return;
+
+    toast({
+      title: "Task removed",
+      description: removed.text,
+      action: undoAction(),
+    });
+  };
+
+  const updateDeadline = async (task: Task, next: string | null, type: DeadlineType) => {
+    try {
+      await editTask(task.id, { dueAt: next, deadlineType: type }, today);
+    } catch (err) {
+      console.error('[DailyTaskEntry] Could not set deadline', err);
+      toast({
+        title: 'Could not set deadline',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const linkGoal = async (task: Task, next: string | null) => {
+    try {
+      await editTask(task.id, { goalId: next }, today);
+    } catch (err) {
+      console.error('[DailyTaskEntry] Could not link goal', err);
+      toast({
+        title: 'Could not link goal',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
   };
 
-  const handleSubmit = () => {
+  const handleSubmit = async () => {
     if (tasks.length < 3) {
       toast({
         title: "Add more tasks",
@@ -76,22 +151,32 @@ export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
       return;
     }
 
-    const today = new Date().toDateString();
     const dailyEntry = {
       date: today,
       tasks,
       reflection,
       timestamp: new Date().toISOString(),
     };
-    saveDailyEntry(dailyEntry);
-    updateLastCompleted(today);
+    try {
+      await saveDailyEntry(dailyEntry);
+      await updateLastCompleted(today);
+    } catch (err) {
+      console.error('[DailyTaskEntry] Persist failed', err);
+      toast({
+        title: 'Could not save your tasks',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return;
+    }
 
     toast({
       title: "Priorities set! 🎯",
       description: "Your daily focus is locked in. Let's make it happen!",
+      action: undoAction(),
     });
 
-    onComplete();
+    onComplete?.();
   };
 
   return (
@@ -102,26 +187,43 @@ export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
           <CardTitle className="text-lg">Add Your Priorities</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex gap-2 mb-3">
+          <div className="mb-3">
+            <CategoryPicker value={selectedCategory} onChange={setPickedCategory} />
+          </div>
+
+          <div className="flex items-center gap-2">
             <Button
-              variant={selectedCategory === 'personal' ? 'default' : 'outline'}
+              variant={urgent ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setSelectedCategory('personal')}
+              onClick={() => setUrgent(u => !u)}
+              aria-pressed={urgent}
               className="flex items-center gap-2"
             >
-              <User className="w-4 h-4" />
-              Personal
+              <Zap className="w-4 h-4" />
+              Urgent
             </Button>
             <Button
-              variant={selectedCategory === 'professional' ? 'default' : 'outline'}
+              variant={important ? 'default' : 'outline'}
               size="sm"
-              onClick={() => setSelectedCategory('professional')}
+              onClick={() => setImportant(i => !i)}
+              aria-pressed={important}
               className="flex items-center gap-2"
             >
-              <Briefcase className="w-4 h-4" />
-              Professional
+              <Star className="w-4 h-4" />
+              Important
             </Button>
+            <DueDatePicker
+              dueAt={dueAt ?? undefined}
+              deadlineType={deadlineType}
+              onChange={(next, type) => {
+                setDueAt(next);
+                setDeadlineType(type);
+              }}
+            />
           </div>
+          <p className="text-xs text-gray-500">
+            {QUADRANTS[quadrantOf({ urgent, important })].hint}
+          </p>
           
           <div className="flex gap-2">
             <Input
@@ -135,6 +237,14 @@ export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
               <Plus className="w-4 h-4" />
             </Button>
           </div>
+          <Input
+            placeholder="Tags (optional), e.g. #deck, q3"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && addTask()}
+            className="h-8 text-sm"
+          />
+          <GoalPicker value={goalId ?? undefined} onChange={setGoalId} />
         </CardContent>
       </Card>
 
@@ -157,18 +267,48 @@ export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
                   {index + 1}
                 </div>
                 <div className="flex-1">
-                  <p className="text-gray-900 font-medium">{task.text}</p>
-                  <Badge 
-                    variant={task.category === 'personal' ? 'secondary' : 'outline'}
-                    className="mt-1"
-                  >
-                    {task.category === 'personal' ? (
-                      <><User className="w-3 h-3 mr-1" /> Personal</>
-                    ) : (
-                      <><Briefcase className="w-3 h-3 mr-1" /> Professional</>
+                  <p className={`font-medium ${task.completed ? 'line-through text-gray-400' : 'text-gray-900'}`}>{task.text}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    <CategoryBadge categoryId={task.category} />
+                    <Badge variant="outline" title={QUADRANTS[quadrantOf(task)].hint}>
+                      {QUADRANTS[quadrantOf(task)].label}
+                    </Badge>
+                    <DeadlineBadge task={task} />
+                    {task.recurrenceId && (
+                      <Badge variant="outline" title="From a recurring task">
+                        <Repeat className="w-3 h-3" />
+                      </Badge>
+                    )}
+                    {(task.carryCount ?? 0) > 0 && (
+                      <Badge
+                        variant="outline"
+                        className={isChronic(task) ? 'border-orange-400 bg-orange-50 text-orange-700' : ''}
+                        title={`Carried over from ${task.carriedFrom}`}
+                      >
+                        {isChronic(task) && <Flame className="w-3 h-3 mr-1" />}
+                        Carried {task.carryCount}×
+                      </Badge>
                     )}
-                  </Badge>
+                  </div>
+                  <TagList tags={task.tags} className="mt-1" />
+                  <GoalPicker
+                    value={task.goalId}
+                    onChange={next => linkGoal(task, next)}
+                    className="mt-1 w-auto max-w-full"
+                  />
+                  {ranking.get(task.id) && (
+                    <div className="mt-1">
+                      <TaskScoreDetails ranked={ranking.get(task.id)} date={today} />
+                    </div>
+                  )}
+                  <SubtaskList task={task} date={today} />
                 </div>
+                <DueDatePicker
+                  compact
+                  dueAt={task.dueAt}
+                  deadlineType={task.deadlineType}
+                  onChange={(next, type) => updateDeadline(task, next, type)}
+                />
                 <Button
                   variant="ghost"
                   size="icon"
@@ -196,7 +336,10 @@ export const DailyTaskEntry = ({ onComplete }: DailyTaskEntryProps) => {
             <Textarea
               placeholder="Optional: Reflect on how these tasks connect to your personal and professional growth..."
               value={reflection}
-              onChange={(e) => setReflection(e.target.value)}
+              onChange={(e) => {
+                setReflectionTouched(true);
+                setReflection(e.target.value);
+              }}
               className="min-h-[100px]"
             />
           </CardContent>
@@ -0,0 +1,212 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Download, Upload, Database } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ImportMode,
+  ImportPreview,
+  applyImport,
+  backupFileName,
+  createBackup,
+  previewImport,
+} from '@/lib/backup';
+import { parseDateKey } from '@/lib/dates';
+
+interface DataBackupProps {
+  /** Called after an import has been written so views can reload. */
+  onImported?: () => void;
+}
+
+const formatDay = (key: string) =>
+  parseDateKey(key).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const DataBackup = ({ onImported }: DataBackupProps) => {
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const handleExport = async () => {
+    try {
+      const backup = await createBackup();
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupFileName(backup);
+      link.click();
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: 'Backup downloaded 💾',
+        description: `${backup.entries.length} day${backup.entries.length !== 1 ? 's' : ''} exported`,
+      });
+    } catch (err) {
+      console.error('[DataBackup] Export failed', err);
+      toast({
+        title: 'Could not export your data',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow picking the same file again
+    if (!file) return;
+
+    try {
+      setPreview(await previewImport(await file.text()));
+    } catch (err) {
+      console.error('[DataBackup] Import preview failed', err);
+      toast({
+        title: 'Could not read backup',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!preview) return;
+    setBusy(true);
+    try {
+      await applyImport(preview, mode);
+      toast({
+        title: mode === 'merge' ? 'Backup merged ✅' : 'Backup restored ✅',
+        description: `${preview.backup.entries.length} day${preview.backup.entries.length !== 1 ? 's' : ''} imported`,
+      });
+      setPreview(null);
+      onImported?.();
+    } catch (err) {
+      console.error('[DataBackup] Import failed', err);
+      toast({
+        title: 'Import failed',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Database className="w-5 h-5" />
+            Your Data
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Download a backup before switching devices, or restore one here.
+          </p>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 gap-3">
+          <Button variant="outline" onClick={handleExport} className="flex items-center gap-2">
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => fileInput.current?.click()}
+            className="flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import
+          </Button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleFileChosen}
+          />
+        </CardContent>
+      </Card>
+
+      <Dialog open={preview !== null} onOpenChange={open => !open && setPreview(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import backup</DialogTitle>
+            <DialogDescription>
+              Exported {preview && new Date(preview.backup.exportedAt).toLocaleString()}
+            </DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="space-y-3 text-sm max-h-72 overflow-y-auto">
+              <PreviewRow label="New days" days={preview.newDays} variant="secondary" />
+              <PreviewRow label="Conflicting days" days={preview.conflictingDays} variant="destructive" />
+              <PreviewRow label="Unchanged days" days={preview.unchangedDays} variant="outline" />
+              {preview.duplicateTaskIds.length > 0 && (
+                <p className="text-amber-700">
+                  {preview.duplicateTaskIds.length} duplicate task ID
+                  {preview.duplicateTaskIds.length !== 1 ? 's' : ''} will get new IDs when merging.
+                </p>
+              )}
+              {preview.rejected.length > 0 && (
+                <p className="text-red-600">
+                  {preview.rejected.length} invalid record{preview.rejected.length !== 1 ? 's' : ''} in
+                  the file will be skipped.
+                </p>
+              )}
+              <p className="text-gray-600">
+                <strong>Merge</strong> keeps everything you have and adds what’s missing.{' '}
+                <strong>Replace</strong> deletes your current history first.
+              </p>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => setPreview(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={() => handleImport('replace')} disabled={busy}>
+              Replace
+            </Button>
+            <Button onClick={() => handleImport('merge')} disabled={busy}>
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+const PreviewRow = ({
+  label,
+  days,
+  variant,
+}: {
+  label: string;
+  days: string[];
+  variant: 'secondary' | 'destructive' | 'outline';
+}) => (
+  <div>
+    <div className="font-medium text-gray-900 mb-1">
+      {label} ({days.length})
+    </div>
+    {days.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {days.map(day => (
+          <Badge key={day} variant={variant} className="text-xs">
+            {formatDay(day)}
+          </Badge>
+        ))}
+      </div>
+    )}
+  </div>
+);
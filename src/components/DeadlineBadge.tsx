@@ -0,0 +1,33 @@
+import { AlertTriangle, CalendarClock } from 'lucide-react';
+import { formatDue, formatTimeLeft, isDueSoon, isOverdue } from '@/lib/deadlines';
+import type { Task } from '@/lib/tasks';
+
+interface DeadlineBadgeProps {
+  task: Pick<Task, 'dueAt' | 'deadlineType' | 'completed'>;
+  className?: string;
+}
+
+/** Due date of a task; red once overdue, amber when due within a day. */
+export const DeadlineBadge = ({ task, className = '' }: DeadlineBadgeProps) => {
+  if (!task.dueAt) return null;
+  const overdue = isOverdue(task);
+  const soon = !overdue && isDueSoon(task);
+  const color = overdue
+    ? 'bg-red-100 text-red-700 border-red-200'
+    : soon
+      ? 'bg-amber-50 text-amber-700 border-amber-200'
+      : 'bg-gray-50 text-gray-600 border-gray-200';
+  const Icon = overdue ? AlertTriangle : CalendarClock;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs ${color} ${className}`}
+      title={`${task.deadlineType === 'hard' ? 'Hard' : 'Soft'} deadline · ${formatTimeLeft(task)}`}
+    >
+      <Icon className="w-3 h-3" />
+      {overdue ? 'Overdue · ' : ''}
+      {formatDue(task.dueAt)}
+      {task.deadlineType === 'hard' && <strong className="ml-0.5">!</strong>}
+    </span>
+  );
+};
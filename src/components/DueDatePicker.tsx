@@ -0,0 +1,106 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarClock } from 'lucide-react';
+import { formatDue } from '@/lib/deadlines';
+import type { DeadlineType } from '@/lib/tasks';
+
+interface DueDatePickerProps {
+  dueAt?: string;
+  deadlineType?: DeadlineType;
+  /** `dueAt: null` clears the deadline */
+  onChange: (dueAt: string | null, deadlineType: DeadlineType) => void;
+  /** icon‑only trigger, for use inside task rows */
+  compact?: boolean;
+}
+
+const DEFAULT_TIME = '17:00';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** `HH:MM` of a timestamp, in local time. */
+const timeOf = (iso: string) => {
+  const d = new Date(iso);
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+/** Local `day` at `time` (`HH:MM`) as an ISO timestamp. */
+const combine = (day: Date, time: string) => {
+  const [h, m] = (time || DEFAULT_TIME).split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), h, m).toISOString();
+};
+
+/** Date + time + hard/soft picker for a task deadline. */
+export const DueDatePicker = ({ dueAt, deadlineType = 'soft', onChange, compact = false }: DueDatePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const selected = dueAt ? new Date(dueAt) : undefined;
+  const time = dueAt ? timeOf(dueAt) : DEFAULT_TIME;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {compact ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8 text-gray-400" aria-label="Set deadline">
+            <CalendarClock className="w-4 h-4" />
+          </Button>
+        ) : (
+          <Button variant={dueAt ? 'default' : 'outline'} size="sm" className="flex items-center gap-2">
+            <CalendarClock className="w-4 h-4" />
+            {dueAt ? formatDue(dueAt) : 'Due…'}
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={day => day && onChange(combine(day, time), deadlineType)}
+          initialFocus
+        />
+        <div className="space-y-3 border-t p-3">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="due-time" className="text-xs w-10">Time</Label>
+            <Input
+              id="due-time"
+              type="time"
+              value={time}
+              disabled={!selected}
+              onChange={e => selected && onChange(combine(selected, e.target.value), deadlineType)}
+              className="h-8"
+            />
+          </div>
+          <div className="flex gap-2">
+            {(['soft', 'hard'] as const).map(type => (
+              <Button
+                key={type}
+                size="sm"
+                variant={deadlineType === type ? 'default' : 'outline'}
+                className="flex-1"
+                disabled={!dueAt}
+                onClick={() => dueAt && onChange(dueAt, type)}
+              >
+                {type === 'hard' ? 'Hard deadline' : 'Soft target'}
+              </Button>
+            ))}
+          </div>
+          {dueAt && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                onChange(null, deadlineType);
+                setOpen(false);
+              }}
+            >
+              No deadline
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
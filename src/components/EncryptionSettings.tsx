@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { KeyRound, Lock, LockOpen, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useEncryption } from '@/hooks/useEncryption';
+import { SecretInput } from '@/components/SecretInput';
+import {
+  DEFAULT_AUTO_LOCK_MINUTES,
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  isCryptoAvailable,
+  lockStorage,
+  setAutoLockMinutes,
+  validateSecret,
+  type SecretKind,
+} from '@/lib/encryption';
+
+type DialogMode = 'enable' | 'change' | 'disable';
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+  { minutes: 0, label: 'Never' },
+];
+
+const secretName = (kind: SecretKind) => (kind === 'pin' ? 'PIN' : 'passphrase');
+
+/** Opt‑in encryption: enable, lock, auto‑lock delay, change secret, disable. */
+export const EncryptionSettings = () => {
+  const { data } = useEncryption();
+  const { toast } = useToast();
+  const [mode, setMode] = useState<DialogMode | null>(null);
+  const [current, setCurrent] = useState('');
+  const [next, setNext] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [nextKind, setNextKind] = useState<SecretKind>('pin');
+  const [busy, setBusy] = useState(false);
+
+  const status = data?.status ?? 'off';
+  const settings = data?.settings;
+  const currentKind = settings?.kind ?? 'passphrase';
+
+  const open = (m: DialogMode) => {
+    setCurrent('');
+    setNext('');
+    setConfirm('');
+    setNextKind(m === 'change' ? currentKind : 'pin');
+    setMode(m);
+  };
+
+  const needsNew = mode === 'enable' || mode === 'change';
+  const problem = needsNew
+    ? validateSecret(next, nextKind) ?? (next !== confirm ? `The ${secretName(nextKind)}s don’t match` : null)
+    : null;
+
+  const handleConfirm = async () => {
+    setBusy(true);
+    try {
+      if (mode === 'enable') {
+        await enableEncryption(next, { kind: nextKind, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES });
+        toast({ title: 'Encryption on 🔒', description: 'Your tasks and reflections are now encrypted.' });
+      } else if (mode === 'change') {
+        await changePassphrase(current, next, nextKind);
+        toast({ title: `${secretName(nextKind)} changed`, description: 'Everything was re‑encrypted.' });
+      } else if (mode === 'disable') {
+        await disableEncryption(current);
+        toast({ title: 'Encryption off', description: 'Your data is stored unencrypted again.' });
+      }
+      setMode(null);
+    } catch (err) {
+      console.error('[EncryptionSettings] Update failed', err);
+      toast({
+        title: 'Could not update encryption',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAutoLock = async (value: string) => {
+    try {
+      await setAutoLockMinutes(Number(value));
+    } catch (err) {
+      console.error('[EncryptionSettings] Auto-lock update failed', err);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5 text-indigo-600" />
+          Privacy
+          {status !== 'off' && (
+            <Badge variant="secondary" className="ml-auto text-xs">Encrypted</Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {status === 'off' ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Encrypt your tasks and reflections on this device with a PIN or passphrase.
+              If you forget it, your data cannot be recovered.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => open('enable')}
+              disabled={!isCryptoAvailable()}
+            >
+              <Lock className="w-4 h-4 mr-2" />
+              Turn on encryption
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <Label className="text-sm text-gray-700">Auto‑lock</Label>
+              <Select value={String(settings?.autoLockMinutes ?? 0)} onValueChange={handleAutoLock}>
+                <SelectTrigger className="w-40 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTO_LOCK_OPTIONS.map(o => (
+                    <SelectItem key={o.minutes} value={String(o.minutes)}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <Button variant="outline" size="sm" onClick={lockStorage}>
+                <Lock className="w-4 h-4 mr-1" />
+                Lock
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => open('change')}>
+                <KeyRound className="w-4 h-4 mr-1" />
+                Change
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => open('disable')}>
+                <LockOpen className="w-4 h-4 mr-1" />
+                Turn off
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={o => !o && !busy && setMode(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {mode === 'enable' && 'Turn on encryption'}
+              {mode === 'change' && `Change your ${secretName(currentKind)}`}
+              {mode === 'disable' && 'Turn off encryption'}
+            </DialogTitle>
+            <DialogDescription>
+              {mode === 'disable'
+                ? 'Your data will be decrypted and stored as plain text on this device.'
+                : 'Every task and reflection is re‑encrypted with the new secret.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {mode !== 'enable' && (
+              <div className="space-y-2">
+                <Label>Current {secretName(currentKind)}</Label>
+                <SecretInput kind={currentKind} value={current} onChange={setCurrent} autoFocus />
+              </div>
+            )}
+
+            {needsNew && (
+              <>
+                <div className="flex gap-2">
+                  <Button
+                    variant={nextKind === 'pin' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => { setNextKind('pin'); setNext(''); setConfirm(''); }}
+                  >
+                    6‑digit PIN
+                  </Button>
+                  <Button
+                    variant={nextKind === 'passphrase' ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => { setNextKind('passphrase'); setNext(''); setConfirm(''); }}
+                  >
+                    Passphrase
+                  </Button>
+                </div>
+                <div className="space-y-2">
+                  <Label>New {secretName(nextKind)}</Label>
+                  <SecretInput kind={nextKind} value={next} onChange={setNext} placeholder="New passphrase" />
+                </div>
+                <div className="space-y-2">
+                  <Label>Repeat {secretName(nextKind)}</Label>
+                  <SecretInput kind={nextKind} value={confirm} onChange={setConfirm} placeholder="Repeat passphrase" />
+                </div>
+                {nextKind === 'pin' && (
+                  <p className="text-xs text-gray-500">
+                    A PIN is quicker to type but much easier to guess than a long passphrase.
+                  </p>
+                )}
+                {next && problem && <p className="text-sm text-red-600">{problem}</p>}
+              </>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setMode(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleConfirm}
+              disabled={busy || !!problem || (mode !== 'enable' && !current)}
+              variant={mode === 'disable' ? 'destructive' : 'default'}
+            >
+              {busy ? 'Working…' : mode === 'disable' ? 'Decrypt' : 'Encrypt'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
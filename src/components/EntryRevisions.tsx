@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { History, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { DailyEntry, restoreRevision } from '@/lib/tasks';
+
+interface EntryRevisionsProps {
+  entry: DailyEntry;
+  /** Called with the updated entry after a revision was restored. */
+  onRestored?: (entry: DailyEntry) => void;
+}
+
+/** Inspect and restore earlier versions of a single day. */
+export const EntryRevisions = ({ entry, onRestored }: EntryRevisionsProps) => {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+  const revisions = entry.revisions ?? [];
+
+  if (revisions.length === 0) return null;
+
+  const handleRestore = async (index: number) => {
+    try {
+      const restored = await restoreRevision(entry.date, index);
+      onRestored?.(restored);
+      setOpen(false);
+      toast({
+        title: 'Earlier version restored ↩️',
+        description: 'The version you replaced is kept in the history too.',
+      });
+    } catch (err) {
+      console.error('[EntryRevisions] Restore failed', err);
+      toast({
+        title: 'Could not restore that version',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500">
+          <History className="w-3 h-3 mr-1" />
+          {revisions.length} earlier
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Earlier versions</DialogTitle>
+          <DialogDescription>
+            Each time this day was saved again, the previous plan was kept here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {revisions
+            .map((revision, index) => ({ revision, index }))
+            .reverse()
+            .map(({ revision, index }) => (
+              <div key={index} className="p-3 bg-gray-50 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <Badge variant="outline" className="text-xs">
+                    {new Date(revision.savedAt).toLocaleString()}
+                  </Badge>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(index)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+                <ol className="list-decimal list-inside text-sm text-gray-800">
+                  {revision.tasks.map(task => (
+                    <li key={task.id}>{task.text}</li>
+                  ))}
+                </ol>
+                {revision.reflection && (
+                  <p className="text-xs text-gray-600 italic">"{revision.reflection}"</p>
+                )}
+              </div>
+            ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
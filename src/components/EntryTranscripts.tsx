@@ -0,0 +1,53 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { MessagesSquare } from 'lucide-react';
+import type { DailyEntry } from '@/lib/tasks';
+import { TranscriptView } from './TranscriptView';
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/** Read back the voice sessions held on a single day. */
+export const EntryTranscripts = ({ entry }: { entry: DailyEntry }) => {
+  const transcripts = entry.transcripts ?? [];
+
+  if (transcripts.length === 0) return null;
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-500">
+          <MessagesSquare className="w-3 h-3 mr-1" />
+          {transcripts.length === 1 ? 'Transcript' : `${transcripts.length} transcripts`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Voice sessions</DialogTitle>
+          <DialogDescription>
+            What you and Jarvis said, and every change made along the way.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-96 overflow-y-auto">
+          {transcripts.map(transcript => (
+            <div key={transcript.id} className="space-y-2">
+              <Badge variant="outline" className="text-xs">
+                {time(transcript.startedAt)}
+                {transcript.endedAt && ` – ${time(transcript.endedAt)}`}
+              </Badge>
+              <TranscriptView transcript={transcript} />
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
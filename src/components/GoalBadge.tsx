@@ -0,0 +1,18 @@
+import { Target } from 'lucide-react';
+import { useGoals } from '@/hooks/useTaskData';
+
+/** The goal a task serves, if any. */
+export const GoalBadge = ({ goalId, className = '' }: { goalId?: string; className?: string }) => {
+  const { data: goals = [] } = useGoals();
+  if (!goalId) return null;
+  const goal = goals.find(g => g.id === goalId);
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full border border-emerald-200 bg-emerald-50 px-2 py-0.5 text-xs font-medium text-emerald-700 ${className}`}
+      title={goal ? `Serves “${goal.title}”` : 'Serves a goal that no longer exists'}
+    >
+      <Target className="w-3 h-3" />
+      {goal?.title ?? 'Removed goal'}
+    </span>
+  );
+};
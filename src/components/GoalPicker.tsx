@@ -0,0 +1,47 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Target } from 'lucide-react';
+import { useGoals } from '@/hooks/useTaskData';
+import { activeGoals, formatPeriod } from '@/lib/goals';
+
+const NO_GOAL = 'none';
+
+interface GoalPickerProps {
+  value: string | undefined;
+  onChange: (goalId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Link a task to one of the active goals, or to none.  A task linked to a
+ * goal that has since been archived keeps showing it.
+ */
+export const GoalPicker = ({ value, onChange, className = '' }: GoalPickerProps) => {
+  const { data: goals = [] } = useGoals();
+  const active = activeGoals(goals);
+  const current = goals.find(g => g.id === value);
+  if (active.length === 0 && !current) return null;
+
+  const choices = current && !active.includes(current) ? [...active, current] : active;
+  return (
+    <Select value={value ?? NO_GOAL} onValueChange={v => onChange(v === NO_GOAL ? null : v)}>
+      <SelectTrigger className={`h-8 text-sm ${className}`} aria-label="Goal">
+        <Target className="w-4 h-4 mr-1 text-emerald-600 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_GOAL}>No goal</SelectItem>
+        {choices.map(goal => (
+          <SelectItem key={goal.id} value={goal.id}>
+            {goal.title} · {formatPeriod(goal.period)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
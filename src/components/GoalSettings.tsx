@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Archive, ArchiveRestore, Check, Pencil, Plus, Target } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useDailyEntries, useGoals } from '@/hooks/useTaskData';
+import { todayKey } from '@/lib/dates';
+import {
+  MAX_GOALS,
+  activeGoals,
+  formatPeriod,
+  periodOf,
+  saveGoal,
+  setGoalArchived,
+  weekAlignment,
+  type Goal,
+  type GoalHorizon,
+} from '@/lib/goals';
+
+interface Draft {
+  title: string;
+  horizon: GoalHorizon;
+  period: string;
+  /** one key result per line */
+  keyResults: string;
+}
+
+const emptyDraft = (): Draft => ({ title: '', horizon: 'quarter', period: periodOf('quarter'), keyResults: '' });
+
+const draftOf = (goal: Goal): Draft => ({
+  title: goal.title,
+  horizon: goal.horizon,
+  period: goal.period,
+  keyResults: goal.keyResults.join('\n'),
+});
+
+/** This period and the next three (quarters) or next one (years). */
+function periodChoices(horizon: GoalHorizon, current?: string): string[] {
+  const today = todayKey();
+  const year = Number(today.slice(0, 4));
+  const choices =
+    horizon === 'year'
+      ? [String(year), String(year + 1)]
+      : Array.from({ length: 4 }, (_, i) => {
+          const q = Number(periodOf('quarter', today).slice(-1)) - 1 + i;
+          return `${year + Math.floor(q / 4)}-Q${(q % 4) + 1}`;
+        });
+  return current && !choices.includes(current) ? [current, ...choices] : choices;
+}
+
+const GoalFields = ({ draft, onChange }: { draft: Draft; onChange: (next: Draft) => void }) => (
+  <div className="space-y-2">
+    <Input
+      value={draft.title}
+      onChange={e => onChange({ ...draft, title: e.target.value })}
+      placeholder="e.g. Ship the mobile app"
+      className="h-8"
+    />
+    <div className="flex gap-2">
+      <Select
+        value={draft.horizon}
+        onValueChange={h => onChange({ ...draft, horizon: h as GoalHorizon, period: periodOf(h as GoalHorizon) })}
+      >
+        <SelectTrigger className="h-8 w-32 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="quarter">Quarterly</SelectItem>
+          <SelectItem value="year">Yearly</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select value={draft.period} onValueChange={period => onChange({ ...draft, period })}>
+        <SelectTrigger className="h-8 w-32 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {periodChoices(draft.horizon, draft.period).map(p => (
+            <SelectItem key={p} value={p}>{formatPeriod(p)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+    <Textarea
+      value={draft.keyResults}
+      onChange={e => onChange({ ...draft, keyResults: e.target.value })}
+      placeholder="Key results, one per line (optional)"
+      rows={2}
+      className="text-sm"
+    />
+  </div>
+);
+
+/** Set the yearly and quarterly goals daily tasks can be linked to. */
+export const GoalSettings = () => {
+  const { data: goals = [] } = useGoals();
+  const { data: entries = [] } = useDailyEntries();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<{ id?: string; draft: Draft } | null>(null);
+
+  const active = activeGoals(goals);
+  const inactive = goals.filter(g => !active.includes(g));
+  const thisWeek = weekAlignment(entries).byGoal;
+
+  const run = async (action: () => Promise<unknown>, title: string, failure: string) => {
+    try {
+      await action();
+      toast({ title });
+      return true;
+    } catch (err) {
+      console.error('[GoalSettings] ' + failure, err);
+      toast({
+        title: failure,
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const { title, horizon, period, keyResults } = editing.draft;
+    const saved = await run(
+      () => saveGoal({ title, horizon, period, keyResults: keyResults.split('\n') }, editing.id),
+      editing.id ? 'Goal updated' : 'Goal added',
+      'Could not save goal',
+    );
+    if (saved) setEditing(null);
+  };
+
+  const editor = (label: string) => (
+    <div className="rounded-lg border bg-white p-3 space-y-2">
+      <GoalFields draft={editing.draft} onChange={draft => setEditing({ ...editing, draft })} />
+      <div className="flex gap-2 justify-end">
+        <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+        <Button size="sm" onClick={handleSave} disabled={!editing.draft.title.trim()}>
+          <Check className="w-4 h-4 mr-1" />
+          {label}
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Target className="w-5 h-5 text-emerald-600" />
+          Goals
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Link daily tasks to these to see how much of your effort moves them forward.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {active.map(goal =>
+          editing?.id === goal.id ? (
+            <div key={goal.id}>{editor('Save')}</div>
+          ) : (
+            <div key={goal.id} className="flex items-start gap-2">
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">{goal.title}</p>
+                <p className="text-xs text-gray-500">
+                  {formatPeriod(goal.period)} · {thisWeek[goal.id] ?? 0} task{thisWeek[goal.id] === 1 ? '' : 's'} this week
+                </p>
+                {goal.keyResults.length > 0 && (
+                  <ul className="mt-1 text-xs text-gray-600 list-disc pl-4">
+                    {goal.keyResults.map(kr => <li key={kr}>{kr}</li>)}
+                  </ul>
+                )}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                aria-label={`Edit ${goal.title}`}
+                onClick={() => setEditing({ id: goal.id, draft: draftOf(goal) })}
+              >
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                aria-label={`Archive ${goal.title}`}
+                onClick={() => run(() => setGoalArchived(goal.id), `${goal.title} archived`, 'Could not archive goal')}
+              >
+                <Archive className="w-4 h-4" />
+              </Button>
+            </div>
+          ),
+        )}
+
+        {editing && !editing.id ? (
+          editor('Add')
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={active.length >= MAX_GOALS}
+            onClick={() => setEditing({ draft: emptyDraft() })}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            New goal
+          </Button>
+        )}
+
+        {inactive.length > 0 && (
+          <div className="space-y-1 pt-2 border-t">
+            <p className="text-xs text-gray-500">Archived or past – still shown on the tasks linked to them</p>
+            {inactive.map(goal => (
+              <div key={goal.id} className="flex items-center gap-2 opacity-70">
+                <p className="flex-1 text-sm text-gray-700">
+                  {goal.title} <span className="text-xs text-gray-500">· {formatPeriod(goal.period)}</span>
+                </p>
+                {goal.archived && goal.period >= periodOf(goal.horizon) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    aria-label={`Restore ${goal.title}`}
+                    onClick={() => run(() => setGoalArchived(goal.id, false), `${goal.title} restored`, 'Could not restore goal')}
+                  >
+                    <ArchiveRestore className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Lock, Loader2 } from 'lucide-react';
+import { SecretInput } from '@/components/SecretInput';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { unlockStorage, type SecretKind } from '@/lib/encryption';
+
+interface LockScreenProps {
+  kind: SecretKind;
+}
+
+/** Shown instead of the app while encrypted storage is locked. */
+export const LockScreen = ({ kind }: LockScreenProps) => {
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleUnlock = async (value: string = secret) => {
+    if (!value || busy) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const ok = await unlockStorage(value);
+      if (!ok) {
+        setError(kind === 'pin' ? 'Wrong PIN' : 'Wrong passphrase');
+        setSecret('');
+      }
+    } catch (err) {
+      console.error('[LockScreen] Unlock failed', err);
+      setError((err as Error).message ?? 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 px-4">
+      <div className="absolute top-4 right-4">
+        {/* Someone else may want their own (unlocked) profile */}
+        <ProfileSwitcher />
+      </div>
+      <Card className="w-full max-w-sm border-0 shadow-lg bg-white/80 backdrop-blur-sm">
+        <CardHeader className="text-center space-y-3">
+          <div className="w-12 h-12 mx-auto bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl flex items-center justify-center">
+            <Lock className="w-6 h-6 text-white" />
+          </div>
+          <CardTitle className="text-lg">This profile is locked</CardTitle>
+          <p className="text-sm text-gray-600">
+            Enter your {kind === 'pin' ? 'PIN' : 'passphrase'} to decrypt your tasks and reflections.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <SecretInput
+            kind={kind}
+            value={secret}
+            onChange={setSecret}
+            onSubmit={handleUnlock}
+            autoFocus
+            disabled={busy}
+          />
+          {error && <p className="text-sm text-red-600 text-center">{error}</p>}
+          <Button
+            onClick={() => handleUnlock()}
+            disabled={!secret || busy}
+            className="w-full bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+          >
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Lock className="w-4 h-4 mr-2" />}
+            Unlock
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
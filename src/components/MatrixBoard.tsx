@@ -0,0 +1,261 @@
+import { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ToastAction } from '@/components/ui/toast';
+import { AlertTriangle, GripVertical, LayoutGrid } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useEntryForDate } from '@/hooks/useTaskData';
+import { useJournal } from '@/hooks/useJournal';
+import { todayKey } from '@/lib/dates';
+import { formatDue, isOverdue } from '@/lib/deadlines';
+import {
+  QUADRANTS,
+  QUADRANT_ORDER,
+  editTask,
+  quadrantOf,
+  removeTask,
+  subtaskProgress,
+  type Quadrant,
+  type Task,
+} from '@/lib/tasks';
+
+interface MatrixBoardProps {
+  /** Day to show; defaults to today. */
+  date?: string;
+}
+
+const QUADRANT_STYLES: Record<Quadrant, string> = {
+  do: 'border-red-200 bg-red-50/70',
+  schedule: 'border-blue-200 bg-blue-50/70',
+  delegate: 'border-amber-200 bg-amber-50/70',
+  eliminate: 'border-gray-200 bg-gray-50/70',
+};
+
+/** Row by row: important on top, urgent on the left. */
+const GRID: Quadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
+
+/** Pointer travel (px) before a press on the handle becomes a drag. */
+const DRAG_THRESHOLD = 6;
+
+interface DragState {
+  task: Task;
+  pointerId: number;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+  active: boolean;
+  over: Quadrant | null;
+}
+
+/** The quadrant under a viewport point, if any. */
+const quadrantAt = (x: number, y: number): Quadrant | null => {
+  const el = document.elementFromPoint(x, y)?.closest<HTMLElement>('[data-quadrant]');
+  return (el?.dataset.quadrant as Quadrant) ?? null;
+};
+
+/**
+ * The day’s tasks laid out on a 2×2 Eisenhower matrix.  Dragging a task
+ * (by its handle – pointer events, so mouse and touch both work) into
+ * another quadrant updates its urgency and importance; tapping a task
+ * offers the same moves from a menu.
+ */
+export const MatrixBoard = ({ date = todayKey() }: MatrixBoardProps) => {
+  const { data: entry } = useEntryForDate(date);
+  const { toast } = useToast();
+  const { undoAction } = useJournal();
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const tasks = entry?.tasks ?? [];
+
+  const update = (next: DragState | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const moveTask = async (task: Task, to: Quadrant) => {
+    if (quadrantOf(task) === to) return;
+    const { urgent, important } = QUADRANTS[to];
+    try {
+      await editTask(task.id, { urgent, important }, date);
+    } catch (err) {
+      console.error('[MatrixBoard] Could not move task', err);
+      toast({
+        title: 'Could not move task',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    if (to === 'eliminate') {
+      toast({
+        title: 'Moved to Eliminate',
+        description: `Drop “${task.text}” from the plan?`,
+        action: (
+          <ToastAction altText="Remove task" onClick={() => handleRemove(task)}>
+            Remove
+          </ToastAction>
+        ),
+      });
+    }
+  };
+
+  const handleRemove = async (task: Task) => {
+    const removed = await removeTask(task.id, date);
+    if (!removed) return;
+    toast({ title: 'Task removed', description: removed.text, action: undoAction() });
+  };
+
+  const handlePointerDown = (task: Task) => (e: React.PointerEvent<HTMLElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    update({
+      task,
+      pointerId: e.pointerId,
+      startX: e.clientX,
+      startY: e.clientY,
+      x: e.clientX,
+      y: e.clientY,
+      active: false,
+      over: null,
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    const current = dragRef.current;
+    if (!current || current.pointerId !== e.pointerId) return;
+    const moved = Math.hypot(e.clientX - current.startX, e.clientY - current.startY);
+    const active = current.active || moved > DRAG_THRESHOLD;
+    update({
+      ...current,
+      x: e.clientX,
+      y: e.clientY,
+      active,
+      over: active ? quadrantAt(e.clientX, e.clientY) : null,
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const current = dragRef.current;
+    if (!current || current.pointerId !== e.pointerId) return;
+    update(null);
+    if (current.active && current.over) moveTask(current.task, current.over);
+  };
+
+  const renderTask = (task: Task) => {
+    const dragging = drag?.active && drag.task.id === task.id;
+    const steps = subtaskProgress(task);
+    return (
+      <div
+        key={task.id}
+        className={`flex items-center gap-1 rounded-md border bg-white px-1 py-1.5 text-sm shadow-sm ${dragging ? 'opacity-40' : ''}`}
+      >
+        <button
+          type="button"
+          aria-label={`Drag “${task.text}”`}
+          className="touch-none cursor-grab active:cursor-grabbing text-gray-400 p-0.5"
+          onPointerDown={handlePointerDown(task)}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => update(null)}
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              type="button"
+              className={`flex-1 text-left truncate ${task.completed ? 'line-through text-gray-400' : 'text-gray-900'}`}
+            >
+              {task.text}
+            </button>
+          </DropdownMenuTrigger>
+          {steps.total > 0 && (
+            <span className="text-[11px] text-gray-400 tabular-nums shrink-0">
+              {steps.done}/{steps.total}
+            </span>
+          )}
+          {isOverdue(task) && (
+            <AlertTriangle className="w-4 h-4 shrink-0 text-red-500" aria-label={`Overdue since ${formatDue(task.dueAt)}`} />
+          )}
+          <DropdownMenuContent align="start">
+            <DropdownMenuLabel>Move to</DropdownMenuLabel>
+            {QUADRANT_ORDER.filter(q => q !== quadrantOf(task)).map(q => (
+              <DropdownMenuItem key={q} onSelect={() => moveTask(task, q)}>
+                {QUADRANTS[q].label}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="text-red-600" onSelect={() => handleRemove(task)}>
+              Remove from plan
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <LayoutGrid className="w-5 h-5 text-indigo-600" />
+          Eisenhower Matrix
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Drag a task by its handle to change how urgent or important it is.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 mb-1 text-center">
+          <span>Urgent</span>
+          <span>Not urgent</span>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          {GRID.map(q => {
+            const inQuadrant = tasks.filter(t => quadrantOf(t) === q);
+            const highlighted = drag?.active && drag.over === q && quadrantOf(drag.task) !== q;
+            return (
+              <div
+                key={q}
+                data-quadrant={q}
+                className={`min-h-32 rounded-lg border-2 p-2 space-y-1.5 transition-colors ${QUADRANT_STYLES[q]} ${highlighted ? 'ring-2 ring-indigo-400' : ''}`}
+              >
+                <div>
+                  <p className="text-sm font-semibold text-gray-800">{QUADRANTS[q].label}</p>
+                  <p className="text-[11px] leading-tight text-gray-500">{QUADRANTS[q].hint}</p>
+                </div>
+                {inQuadrant.map(renderTask)}
+              </div>
+            );
+          })}
+        </div>
+        {tasks.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-4">No tasks for this day yet.</p>
+        )}
+      </CardContent>
+
+      {/* Follows the pointer while dragging; ignores hits so we can see what’s underneath.
+          Portalled because the card’s backdrop blur would re‑anchor `fixed`. */}
+      {drag?.active && createPortal(
+        <div
+          className="fixed z-50 pointer-events-none rounded-md border bg-white px-3 py-1.5 text-sm shadow-lg max-w-48 truncate"
+          style={{ left: drag.x, top: drag.y, transform: 'translate(-50%, -50%)' }}
+        >
+          {drag.task.text}
+        </div>,
+        document.body,
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ListOrdered, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { usePrioritizationSettings } from '@/hooks/useTaskData';
+import {
+  MAX_CRITERIA,
+  MAX_WEIGHT,
+  MIN_WEIGHT,
+  STRATEGIES,
+  getStrategy,
+  setPrioritizationSettings,
+  type Criterion,
+  type PrioritizationSettings as Settings,
+  type StrategyId,
+} from '@/lib/prioritization';
+
+const WEIGHTS = Array.from({ length: MAX_WEIGHT - MIN_WEIGHT + 1 }, (_, i) => MIN_WEIGHT + i);
+
+/** Choose how a day’s tasks are ranked when it is locked in. */
+export const PrioritizationSettings = () => {
+  const { data: settings } = usePrioritizationSettings();
+  const { toast } = useToast();
+  const [criteria, setCriteria] = useState<Criterion[]>([]);
+
+  useEffect(() => {
+    if (settings) setCriteria(settings.criteria);
+  }, [settings]);
+
+  if (!settings) return null;
+  const strategy = getStrategy(settings.strategy);
+  const criteriaChanged = JSON.stringify(criteria) !== JSON.stringify(settings.criteria);
+
+  const save = async (next: Settings, title: string) => {
+    try {
+      await setPrioritizationSettings(next);
+      toast({ title });
+    } catch (err) {
+      console.error('[PrioritizationSettings] Could not save', err);
+      toast({
+        title: 'Could not save prioritization',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const updateCriterion = (id: string, changes: Partial<Criterion>) =>
+    setCriteria(list => list.map(c => (c.id === id ? { ...c, ...changes } : c)));
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <ListOrdered className="w-5 h-5 text-indigo-600" />
+          Prioritization
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label>Rank my tasks by</Label>
+          <Select
+            value={settings.strategy}
+            onValueChange={id =>
+              save({ ...settings, strategy: id as StrategyId }, `Ranking by ${getStrategy(id as StrategyId).name}`)
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STRATEGIES.map(s => (
+                <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">{strategy.description}</p>
+        </div>
+
+        {settings.strategy === 'weighted' && (
+          <div className="space-y-2 pt-2 border-t">
+            <Label>Criteria and weights</Label>
+            {criteria.map(c => (
+              <div key={c.id} className="flex items-center gap-2">
+                <Input
+                  value={c.label}
+                  onChange={e => updateCriterion(c.id, { label: e.target.value })}
+                  className="h-8 flex-1"
+                />
+                <Select value={String(c.weight)} onValueChange={w => updateCriterion(c.id, { weight: Number(w) })}>
+                  <SelectTrigger className="h-8 w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEIGHTS.map(w => (
+                      <SelectItem key={w} value={String(w)}>×{w}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  aria-label={`Remove ${c.label}`}
+                  onClick={() => setCriteria(list => list.filter(x => x.id !== c.id))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={criteria.length >= MAX_CRITERIA}
+                onClick={() => setCriteria(list => [...list, { id: uuidv4(), label: '', weight: 1 }])}
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add criterion
+              </Button>
+              <Button
+                size="sm"
+                className="ml-auto"
+                disabled={!criteriaChanged}
+                onClick={() => save({ ...settings, criteria }, 'Criteria saved')}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
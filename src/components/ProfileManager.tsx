@@ -0,0 +1,206 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Copy, MoveRight, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { taskKeys, useDailyEntries, useProfiles } from '@/hooks/useTaskData';
+import { parseDateKey } from '@/lib/dates';
+import {
+  DEFAULT_PROFILE_ID,
+  MAX_PROFILE_NAME_LENGTH,
+  deleteProfile,
+  renameProfile,
+  transferEntries,
+  type TransferMode,
+} from '@/lib/profiles';
+
+interface ProfileManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDay = (key: string) =>
+  parseDateKey(key).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+/** Rename / delete profiles and copy or move days between them. */
+export const ProfileManager = ({ open, onOpenChange }: ProfileManagerProps) => {
+  const { data: registry } = useProfiles();
+  const { data: entries = [] } = useDailyEntries();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string>('');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+
+  if (!registry) return null;
+  const others = registry.profiles.filter(p => p.id !== registry.activeId);
+  const days = [...entries].sort((a, b) => b.date.localeCompare(a.date));
+
+  const fail = (title: string, err: unknown) => {
+    console.error(`[ProfileManager] ${title}`, err);
+    toast({
+      title,
+      description: (err as Error).message ?? 'Unknown error',
+      variant: 'destructive'
+    });
+  };
+
+  const handleRename = (id: string, current: string) => {
+    const next = names[id];
+    if (next === undefined || next.trim() === current) return;
+    try {
+      renameProfile(id, next);
+    } catch (err) {
+      fail('Could not rename profile', err);
+      setNames(n => ({ ...n, [id]: current }));
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (confirmDelete !== id) {
+      setConfirmDelete(id);
+      return;
+    }
+    try {
+      const wasActive = id === registry.activeId;
+      await deleteProfile(id);
+      if (wasActive) queryClient.resetQueries({ queryKey: taskKeys.all });
+      toast({ title: 'Profile deleted' });
+    } catch (err) {
+      fail('Could not delete profile', err);
+    } finally {
+      setConfirmDelete(null);
+    }
+  };
+
+  const toggleDay = (date: string) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(date)) next.delete(date);
+      else next.add(date);
+      return next;
+    });
+
+  const handleTransfer = async (mode: TransferMode) => {
+    setBusy(true);
+    try {
+      const count = await transferEntries([...selected], targetId, mode);
+      const target = registry.profiles.find(p => p.id === targetId)?.name;
+      setSelected(new Set());
+      toast({
+        title: mode === 'move' ? 'Days moved' : 'Days copied',
+        description: `${count} day${count !== 1 ? 's' : ''} ${mode === 'move' ? 'moved' : 'copied'} to ${target}`,
+      });
+    } catch (err) {
+      fail(mode === 'move' ? 'Could not move days' : 'Could not copy days', err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Profiles</DialogTitle>
+          <DialogDescription>
+            Profiles keep their data completely separate on this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {registry.profiles.map(p => (
+            <div key={p.id} className="flex items-center gap-2">
+              <Input
+                value={names[p.id] ?? p.name}
+                onChange={e => setNames(n => ({ ...n, [p.id]: e.target.value }))}
+                onBlur={() => handleRename(p.id, p.name)}
+                onKeyDown={e => e.key === 'Enter' && handleRename(p.id, p.name)}
+                maxLength={MAX_PROFILE_NAME_LENGTH}
+                className="h-8"
+              />
+              {p.id !== DEFAULT_PROFILE_ID && (
+                <Button
+                  variant={confirmDelete === p.id ? 'destructive' : 'ghost'}
+                  size="sm"
+                  className="h-8 shrink-0"
+                  onClick={() => handleDelete(p.id)}
+                  onBlur={() => setConfirmDelete(null)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                  {confirmDelete === p.id && <span className="ml-1">Delete all data?</span>}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {others.length > 0 && days.length > 0 && (
+          <div className="space-y-3 pt-4 border-t">
+            <Label>Copy or move days to another profile</Label>
+            <Select value={targetId} onValueChange={setTargetId}>
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Choose a profile" />
+              </SelectTrigger>
+              <SelectContent>
+                {others.map(p => (
+                  <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div className="max-h-48 overflow-y-auto space-y-1 rounded-md border p-2">
+              {days.map(e => (
+                <label key={e.date} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox checked={selected.has(e.date)} onCheckedChange={() => toggleDay(e.date)} />
+                  <span className="flex-1">{formatDay(e.date)}</span>
+                  <span className="text-xs text-gray-500">{e.tasks.length} tasks</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy || !targetId || selected.size === 0}
+                onClick={() => handleTransfer('copy')}
+              >
+                <Copy className="w-4 h-4 mr-1" />
+                Copy
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy || !targetId || selected.size === 0}
+                onClick={() => handleTransfer('move')}
+              >
+                <MoveRight className="w-4 h-4 mr-1" />
+                Move
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ChevronDown, Settings2, UserPlus } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { taskKeys, useProfiles } from '@/hooks/useTaskData';
+import { ProfileManager } from '@/components/ProfileManager';
+import { MAX_PROFILE_NAME_LENGTH, createProfile, switchProfile } from '@/lib/profiles';
+
+const initial = (name: string) => name.trim().charAt(0).toUpperCase() || '?';
+
+/** Header control: shows the active profile and switches between profiles. */
+export const ProfileSwitcher = () => {
+  const { data: registry } = useProfiles();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [managing, setManaging] = useState(false);
+  const [name, setName] = useState('');
+
+  if (!registry) return null;
+  const active = registry.profiles.find(p => p.id === registry.activeId) ?? registry.profiles[0];
+
+  const handleSwitch = (id: string) => {
+    if (id === registry.activeId) return;
+    switchProfile(id);
+    // Drop the previous profile’s data right away instead of showing it stale
+    queryClient.resetQueries({ queryKey: taskKeys.all });
+  };
+
+  const handleCreate = () => {
+    try {
+      const profile = createProfile(name);
+      setCreating(false);
+      setName('');
+      handleSwitch(profile.id);
+      toast({ title: `Profile “${profile.name}” created`, description: 'You’re now using it.' });
+    } catch (err) {
+      toast({
+        title: 'Could not create profile',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 px-2 gap-1.5">
+            <span className="w-6 h-6 rounded-full bg-indigo-100 text-indigo-700 text-xs font-semibold flex items-center justify-center">
+              {initial(active.name)}
+            </span>
+            <span className="max-w-24 truncate text-sm">{active.name}</span>
+            <ChevronDown className="w-3 h-3 text-gray-500" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuLabel>Profiles</DropdownMenuLabel>
+          <DropdownMenuRadioGroup value={registry.activeId} onValueChange={handleSwitch}>
+            {registry.profiles.map(p => (
+              <DropdownMenuRadioItem key={p.id} value={p.id} className="truncate">
+                {p.name}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setCreating(true)}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            New profile…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setManaging(true)}>
+            <Settings2 className="w-4 h-4 mr-2" />
+            Manage profiles…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New profile</DialogTitle>
+            <DialogDescription>
+              Each profile has its own tasks, reflections, streak and settings.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={name}
+            onChange={e => setName(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            placeholder="e.g. Client work"
+            maxLength={MAX_PROFILE_NAME_LENGTH}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setCreating(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!name.trim()}>Create</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ProfileManager open={managing} onOpenChange={setManaging} />
+    </>
+  );
+};
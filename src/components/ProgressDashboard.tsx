@@ -1,59 +1,79 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Target, TrendingUp, Award, Flame } from 'lucide-react';
-import { useState, useEffect } from 'react';
-import { getDailyEntries, getTaskCounts } from '@/utils/storage';
+import { Calendar, Target, TrendingUp, Award, Flame, Compass, CheckCircle2 } from 'lucide-react';
+import { useMemo } from 'react';
+import { completionStats, countTasks } from '@/utils/storage';
+import { useCategories, useDailyEntries, useGoals } from '@/hooks/useTaskData';
+import { activeGoals, dayAlignment, formatAlignment, weekAlignment } from '@/lib/goals';
+import { ColorDot } from '@/components/CategoryBadge';
+import { parseDateKey, startOfWeek, toDateKey } from '@/lib/dates';
 
 interface ProgressDashboardProps {
   streak: number;
 }
 
 export const ProgressDashboard = ({ streak }: ProgressDashboardProps) => {
-  const [weeklyProgress, setWeeklyProgress] = useState(0);      // days completed this week
-  const [monthlyGoal, setMonthlyGoal] = useState(0);            // total days in the month
-  const [completedThisMonth, setCompletedThisMonth] = useState(0);
-  const [personalTasks, setPersonalTasks] = useState(0);
-  const [professionalTasks, setProfessionalTasks] = useState(0);
+  const { data: entries = [] } = useDailyEntries();
+  const { data: categories = [] } = useCategories();
+  const { data: goals = [] } = useGoals();
+
+  const { weeklyProgress, monthlyGoal, completedThisMonth, totalTasks, byCategory, alignment, completion } =
+    useMemo(() => {
+      const today = new Date();
+
+      // calculate days completed this week (Monday -> Sunday, like goal alignment)
+      const weekStart = parseDateKey(startOfWeek(toDateKey(today)));
+      const weeklyProgress = entries.filter(e => {
+        const entryDate = parseDateKey(e.date);
+        return entryDate >= weekStart && entryDate <= today;
+      }).length;
+
+      // monthly goal = number of days in current month
+      const monthlyGoal = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
+
+      // completed this month
+      const completedThisMonth = entries.filter(e => {
+        const entryDate = parseDateKey(e.date);
+        return entryDate.getFullYear() === today.getFullYear() &&
+               entryDate.getMonth() === today.getMonth();
+      }).length;
+
+      // task distribution counts
+      const { total, byCategory } = countTasks(entries);
+
+      return {
+        weeklyProgress,               // days completed this week
+        monthlyGoal,                  // total days in the month
+        completedThisMonth,
+        totalTasks: total,
+        byCategory,
+        // share of planned tasks that serve a goal
+        alignment: { today: dayAlignment(entries), week: weekAlignment(entries) },
+        // tasks ticked off over the last week
+        completion: completionStats(entries, 7),
+      };
+    }, [entries]);
+
+  // Every active category, plus archived or unknown ones that still have tasks.
+  const distribution = [
+    ...categories
+      .filter(c => !c.archived || byCategory[c.id])
+      .map(c => ({ id: c.id, name: c.name, color: c.color, count: byCategory[c.id] ?? 0 })),
+    ...Object.keys(byCategory)
+      .filter(id => !categories.some(c => c.id === id))
+      .map(id => ({ id, name: id, color: 'gray' as const, count: byCategory[id] })),
+  ];
+  const topCount = Math.max(0, ...distribution.map(d => d.count));
 
   // Simple, client‑side achievements. Feel free to tweak thresholds later.
   const achievements = [
     { title: '7‑Day Streak', icon: '🔥', earned: streak >= 7 },
-    { title: '30 Tasks', icon: '🏆', earned: personalTasks + professionalTasks >= 30 },
+    { title: '30 Tasks', icon: '🏆', earned: totalTasks >= 30 },
     { title: 'Focus Master', icon: '🎯', earned: completedThisMonth >= 20 },
+    { title: 'Clean Sweep', icon: '✅', earned: completion.perfectDays >= 1 },
   ];
 
-  useEffect(() => {
-    const entries = getDailyEntries();
-    const today = new Date();
-
-    // calculate days completed this week (Sunday -> Saturday)
-    const startOfWeek = new Date(today);
-    startOfWeek.setDate(today.getDate() - today.getDay()); // move to Sunday
-    const weeklyCount = entries.filter(e => {
-      const entryDate = new Date(e.date);
-      return entryDate >= startOfWeek && entryDate <= today;
-    }).length;
-    setWeeklyProgress(weeklyCount);
-
-    // monthly goal = number of days in current month
-    const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
-    setMonthlyGoal(daysInMonth);
-
-    // completed this month
-    const monthlyCount = entries.filter(e => {
-      const entryDate = new Date(e.date);
-      return entryDate.getFullYear() === today.getFullYear() &&
-             entryDate.getMonth() === today.getMonth();
-    }).length;
-    setCompletedThisMonth(monthlyCount);
-
-    // task distribution counts
-    const { personal, professional } = getTaskCounts();
-    setPersonalTasks(personal);
-    setProfessionalTasks(professional);
-  }, []);
-
   return (
     <div className="space-y-6">
       {/* Current Streak */}
@@ -100,6 +120,89 @@ export const ProgressDashboard = ({ streak }: ProgressDashboardProps) => {
         </Card>
       </div>
 
+      {/* Task Completion */}
+      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CheckCircle2 className="w-5 h-5" />
+            Completion
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-end justify-between gap-1 h-20">
+            {completion.daily.map(day => (
+              <div key={day.date} className="flex-1 flex flex-col items-center gap-1" title={`${day.date}: ${day.done}/${day.total} done`}>
+                <div className="w-full flex-1 bg-gray-100 rounded flex items-end overflow-hidden">
+                  <div
+                    className={`w-full ${day.total > 0 && day.done === day.total ? 'bg-green-500' : 'bg-indigo-400'}`}
+                    style={{ height: `${(day.rate ?? 0) * 100}%` }}
+                  />
+                </div>
+                <span className="text-[10px] text-gray-500">
+                  {parseDateKey(day.date).toLocaleDateString([], { weekday: 'narrow' })}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">Last 7 days</span>
+            <span className="font-medium text-gray-900">
+              {completion.done}/{completion.total} tasks
+              {completion.rate !== null && ` · ${Math.round(completion.rate * 100)}%`}
+            </span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-700">Perfect days</span>
+            <Badge variant={completion.perfectDays > 0 ? 'secondary' : 'outline'}>{completion.perfectDays}</Badge>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Goal Alignment */}
+      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Compass className="w-5 h-5" />
+            Goal Alignment
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {goals.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              Set a few yearly or quarterly goals in History, then link tasks to them to see how much of your effort goes where it matters.
+            </p>
+          ) : (
+            <>
+              {([['Today', alignment.today], ['This week', alignment.week]] as const).map(([label, a]) => (
+                <div key={label}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="text-gray-700">{label}</span>
+                    <span className="font-medium text-gray-900">
+                      {formatAlignment(a)}
+                      <span className="text-xs text-gray-500 font-normal"> · {a.aligned}/{a.total} tasks</span>
+                    </span>
+                  </div>
+                  <Progress value={(a.score ?? 0) * 100} className="h-2" />
+                </div>
+              ))}
+              <div className="space-y-1 pt-2 border-t">
+                {activeGoals(goals).map(goal => (
+                  <div key={goal.id} className="flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-gray-700">
+                      <Target className="w-3 h-3 text-emerald-600" />
+                      {goal.title}
+                    </span>
+                    <Badge variant={alignment.week.byGoal[goal.id] ? 'secondary' : 'outline'}>
+                      {alignment.week.byGoal[goal.id] ?? 0} this week
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Task Categories */}
       <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
         <CardHeader>
@@ -109,24 +212,17 @@ export const ProgressDashboard = ({ streak }: ProgressDashboardProps) => {
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-              <span className="text-gray-700">Personal</span>
-            </div>
-            <Badge variant={personalTasks >= professionalTasks ? 'secondary' : 'outline'}>
-              {personalTasks} tasks
-            </Badge>
-          </div>
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <div className="w-3 h-3 bg-purple-500 rounded-full"></div>
-              <span className="text-gray-700">Professional</span>
+          {distribution.map(({ id, name, color, count }) => (
+            <div key={id} className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <ColorDot color={color} />
+                <span className="text-gray-700">{name}</span>
+              </div>
+              <Badge variant={count > 0 && count === topCount ? 'secondary' : 'outline'}>
+                {count} tasks
+              </Badge>
             </div>
-            <Badge variant={professionalTasks > personalTasks ? 'secondary' : 'outline'}>
-              {professionalTasks} tasks
-            </Badge>
-          </div>
+          ))}
         </CardContent>
       </Card>
 
@@ -0,0 +1,34 @@
+interface ProgressRingProps {
+  /** 0–100 */
+  value: number;
+  size?: number;
+  stroke?: number;
+  /** shown in the middle */
+  children?: React.ReactNode;
+  className?: string;
+}
+
+/** Circular progress indicator. */
+export const ProgressRing = ({ value, size = 96, stroke = 8, children, className = '' }: ProgressRingProps) => {
+  const radius = (size - stroke) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.max(0, Math.min(100, value));
+  return (
+    <div className={`relative inline-flex items-center justify-center ${className}`} style={{ width: size, height: size }}>
+      <svg width={size} height={size} className="-rotate-90" role="progressbar" aria-valuenow={Math.round(clamped)} aria-valuemin={0} aria-valuemax={100}>
+        <circle cx={size / 2} cy={size / 2} r={radius} strokeWidth={stroke} className="fill-none stroke-gray-200" />
+        <circle
+          cx={size / 2}
+          cy={size / 2}
+          r={radius}
+          strokeWidth={stroke}
+          strokeLinecap="round"
+          strokeDasharray={circumference}
+          strokeDashoffset={circumference * (1 - clamped / 100)}
+          className={`fill-none transition-[stroke-dashoffset] duration-500 ${clamped === 100 ? 'stroke-green-500' : 'stroke-indigo-500'}`}
+        />
+      </svg>
+      <div className="absolute inset-0 flex flex-col items-center justify-center">{children}</div>
+    </div>
+  );
+};
@@ -0,0 +1,450 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Pencil, Repeat, Star, Trash2, Zap } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useDefaultCategory, useRecurringTasks } from '@/hooks/useTaskData';
+import { parseDateKey, todayKey } from '@/lib/dates';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  describeRRule,
+  formatRRule,
+  occurrences,
+  parseRRule,
+  type RRule,
+  type Weekday,
+} from '@/lib/recurrence';
+import {
+  nextOccurrences,
+  removeRecurringTask,
+  saveRecurringTask,
+  setOccurrenceSkipped,
+  type RecurringTask,
+} from '@/lib/recurring';
+import { DEFAULT_URGENCY, type TaskCategory } from '@/lib/tasks';
+import { DEFAULT_CATEGORIES } from '@/lib/categories';
+import { CategoryBadge } from '@/components/CategoryBadge';
+import { CategoryPicker } from '@/components/CategoryPicker';
+
+type Pattern = 'daily' | 'weekly' | 'monthlyDay' | 'monthlyWeekday' | 'custom';
+
+const PATTERNS: { id: Pattern; label: string }[] = [
+  { id: 'daily', label: 'Daily' },
+  { id: 'weekly', label: 'Weekly on…' },
+  { id: 'monthlyDay', label: 'Monthly on day…' },
+  { id: 'monthlyWeekday', label: 'Monthly on the nth weekday' },
+  { id: 'custom', label: 'Custom RRULE' },
+];
+
+const ORDINALS = [
+  { n: 1, label: '1st' },
+  { n: 2, label: '2nd' },
+  { n: 3, label: '3rd' },
+  { n: 4, label: '4th' },
+  { n: -1, label: 'Last' },
+];
+
+interface FormState {
+  text: string;
+  category: TaskCategory;
+  urgent: boolean;
+  important: boolean;
+  pattern: Pattern;
+  interval: number;
+  weekdays: Weekday[];
+  /** -1 = last day of the month */
+  monthDay: number;
+  nth: number;
+  nthWeekday: Weekday;
+  custom: string;
+  start: string;
+  until: string;
+}
+
+const emptyForm = (): FormState => ({
+  text: '',
+  category: DEFAULT_CATEGORIES[0].id,
+  ...DEFAULT_URGENCY,
+  pattern: 'weekly',
+  interval: 1,
+  weekdays: ['MO'],
+  monthDay: 1,
+  nth: 1,
+  nthWeekday: 'MO',
+  custom: 'FREQ=WEEKLY;BYDAY=MO',
+  start: todayKey(),
+  until: '',
+});
+
+/** The RRULE the form describes. */
+const ruleFromForm = (form: FormState): string => {
+  if (form.pattern === 'custom') return form.custom;
+  const rule: RRule = {
+    freq: form.pattern === 'daily' ? 'DAILY' : form.pattern === 'weekly' ? 'WEEKLY' : 'MONTHLY',
+    interval: Math.max(1, Math.round(form.interval) || 1),
+  };
+  if (form.pattern === 'weekly') rule.byDay = WEEKDAYS.filter(d => form.weekdays.includes(d)).map(weekday => ({ weekday }));
+  if (form.pattern === 'monthlyDay') rule.byMonthDay = [form.monthDay];
+  if (form.pattern === 'monthlyWeekday') rule.byDay = [{ weekday: form.nthWeekday, n: form.nth }];
+  if (form.until) rule.until = form.until;
+  return formatRRule(rule);
+};
+
+/** Load a template back into the simple form where it fits, else as custom RRULE. */
+const formFromTemplate = (template: RecurringTask): FormState => {
+  const base: FormState = {
+    ...emptyForm(),
+    text: template.text,
+    category: template.category,
+    urgent: template.urgent,
+    important: template.important,
+    pattern: 'custom',
+    custom: template.rrule,
+    start: template.start,
+  };
+  let rule: RRule;
+  try {
+    rule = parseRRule(template.rrule);
+  } catch {
+    return base;
+  }
+  if (rule.count !== undefined || rule.byMonth?.length || rule.freq === 'YEARLY') return base;
+
+  const simple = { ...base, interval: rule.interval, until: rule.until ?? '' };
+  const { byDay = [], byMonthDay = [] } = rule;
+  if (rule.freq === 'DAILY' && !byDay.length && !byMonthDay.length) return { ...simple, pattern: 'daily' };
+  if (rule.freq === 'WEEKLY' && byDay.length && !byMonthDay.length) {
+    return { ...simple, pattern: 'weekly', weekdays: byDay.map(d => d.weekday) };
+  }
+  if (rule.freq === 'MONTHLY' && !byDay.length && byMonthDay.length === 1) {
+    return { ...simple, pattern: 'monthlyDay', monthDay: byMonthDay[0] };
+  }
+  if (rule.freq === 'MONTHLY' && byDay.length === 1 && byDay[0].n !== undefined && !byMonthDay.length) {
+    return { ...simple, pattern: 'monthlyWeekday', nth: byDay[0].n, nthWeekday: byDay[0].weekday };
+  }
+  return base;
+};
+
+const formatDay = (key: string) =>
+  parseDateKey(key).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+/** Manage recurring task templates; today’s instances are added automatically. */
+export const RecurringTasks = () => {
+  const { data: templates = [] } = useRecurringTasks();
+  const { toast } = useToast();
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const category = useDefaultCategory(form.category);
+
+  const set = (changes: Partial<FormState>) => setForm(f => ({ ...f, ...changes }));
+  const today = todayKey();
+
+  const rrule = ruleFromForm(form);
+  let preview: { text: string; next: string[] } | { error: string };
+  try {
+    const rule = parseRRule(rrule);
+    preview = {
+      text: describeRRule(rule),
+      next: occurrences(rule, form.start, { from: form.start > today ? form.start : today, limit: 3 }),
+    };
+  } catch (err) {
+    preview = { error: (err as Error).message.replace(/^\[recurrence\] /, '') };
+  }
+  const canSave = !!form.text.trim() && !('error' in preview) && !(form.pattern === 'weekly' && !form.weekdays.length);
+
+  const run = async (action: () => Promise<unknown>, title: string, failure: string) => {
+    try {
+      await action();
+      toast({ title });
+      return true;
+    } catch (err) {
+      console.error('[RecurringTasks] ' + failure, err);
+      toast({
+        title: failure,
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    const { text, urgent, important, start } = form;
+    const saved = await run(
+      () => saveRecurringTask({ text, category, urgent, important, start, rrule }, editingId ?? undefined),
+      editingId ? 'Recurring task updated' : 'Recurring task added',
+      'Could not save recurring task',
+    );
+    if (saved) {
+      setForm(emptyForm());
+      setEditingId(null);
+    }
+  };
+
+  const toggleWeekday = (day: Weekday) =>
+    set({ weekdays: form.weekdays.includes(day) ? form.weekdays.filter(d => d !== day) : [...form.weekdays, day] });
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Repeat className="w-5 h-5 text-indigo-600" />
+          Recurring Tasks
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Added to the day’s plan automatically; each day’s copy can be edited on its own.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {templates.length > 0 && (
+          <div className="space-y-2">
+            {templates.map(template => {
+              const next = nextOccurrences(template, today);
+              const skipped = template.exceptions.filter(d => d >= today);
+              let description: string;
+              try {
+                description = describeRRule(parseRRule(template.rrule));
+              } catch {
+                description = template.rrule;
+              }
+              return (
+                <div key={template.id} className="rounded-lg border bg-white p-3 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-gray-900">{template.text}</p>
+                      <p className="text-xs text-gray-500">{description}</p>
+                    </div>
+                    <CategoryBadge categoryId={template.category} />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      aria-label={`Edit ${template.text}`}
+                      onClick={() => {
+                        setForm(formFromTemplate(template));
+                        setEditingId(template.id);
+                      }}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0"
+                      aria-label={`Delete ${template.text}`}
+                      onClick={() => run(() => removeRecurringTask(template.id), 'Recurring task deleted', 'Could not delete recurring task')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {(next.length > 0 || skipped.length > 0) && (
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                      <span className="text-gray-500">Next:</span>
+                      {next.map(day => (
+                        <button
+                          key={day}
+                          type="button"
+                          title="Skip this day"
+                          className="px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+                          onClick={() => run(() => setOccurrenceSkipped(template.id, day), `Skipping ${formatDay(day)}`, 'Could not skip day')}
+                        >
+                          {formatDay(day)}
+                        </button>
+                      ))}
+                      {skipped.map(day => (
+                        <button
+                          key={day}
+                          type="button"
+                          title="Restore this day"
+                          className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-400 line-through hover:bg-gray-200"
+                          onClick={() => run(() => setOccurrenceSkipped(template.id, day, false), `${formatDay(day)} restored`, 'Could not restore day')}
+                        >
+                          {formatDay(day)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-3 pt-2 border-t">
+          <Label>{editingId ? 'Edit recurring task' : 'New recurring task'}</Label>
+          <Input
+            placeholder="e.g. Weekly report"
+            value={form.text}
+            onChange={e => set({ text: e.target.value })}
+          />
+          <CategoryPicker value={category} onChange={id => set({ category: id })} />
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant={form.urgent ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => set({ urgent: !form.urgent })}
+              aria-pressed={form.urgent}
+              className="flex items-center gap-2"
+            >
+              <Zap className="w-4 h-4" />
+              Urgent
+            </Button>
+            <Button
+              variant={form.important ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => set({ important: !form.important })}
+              aria-pressed={form.important}
+              className="flex items-center gap-2"
+            >
+              <Star className="w-4 h-4" />
+              Important
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-[1fr_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <Label className="text-xs">Repeats</Label>
+              <Select value={form.pattern} onValueChange={p => set({ pattern: p as Pattern })}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PATTERNS.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.pattern !== 'custom' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Every</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={form.interval}
+                  onChange={e => set({ interval: Number(e.target.value) })}
+                  className="h-9 w-20"
+                />
+              </div>
+            )}
+          </div>
+
+          {form.pattern === 'weekly' && (
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAYS.map(day => (
+                <Button
+                  key={day}
+                  variant={form.weekdays.includes(day) ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-8 px-2"
+                  aria-pressed={form.weekdays.includes(day)}
+                  onClick={() => toggleWeekday(day)}
+                >
+                  {WEEKDAY_LABELS[day]}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {form.pattern === 'monthlyDay' && (
+            <Select value={String(form.monthDay)} onValueChange={d => set({ monthDay: Number(d) })}>
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 31 }, (_, i) => i + 1).map(d => (
+                  <SelectItem key={d} value={String(d)}>Day {d}</SelectItem>
+                ))}
+                <SelectItem value="-1">Last day</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          {form.pattern === 'monthlyWeekday' && (
+            <div className="grid grid-cols-2 gap-2">
+              <Select value={String(form.nth)} onValueChange={n => set({ nth: Number(n) })}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ORDINALS.map(o => (
+                    <SelectItem key={o.n} value={String(o.n)}>{o.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={form.nthWeekday} onValueChange={d => set({ nthWeekday: d as Weekday })}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAYS.map(d => (
+                    <SelectItem key={d} value={d}>{WEEKDAY_LABELS[d]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {form.pattern === 'custom' && (
+            <Input
+              value={form.custom}
+              onChange={e => set({ custom: e.target.value })}
+              placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+              className="font-mono text-sm"
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">Starts</Label>
+              <Input type="date" value={form.start} onChange={e => e.target.value && set({ start: e.target.value })} className="h-9" />
+            </div>
+            {form.pattern !== 'custom' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Ends (optional)</Label>
+                <Input type="date" value={form.until} min={form.start} onChange={e => set({ until: e.target.value })} className="h-9" />
+              </div>
+            )}
+          </div>
+
+          {'error' in preview ? (
+            <p className="text-xs text-red-600">{preview.error}</p>
+          ) : (
+            <p className="text-xs text-gray-500">
+              {preview.text}
+              {preview.next.length > 0 ? ` · next ${preview.next.map(formatDay).join(', ')}` : ' · no upcoming days'}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            {editingId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setForm(emptyForm());
+                  setEditingId(null);
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" className="ml-auto" disabled={!canSave} onClick={handleSave}>
+              {editingId ? 'Save changes' : 'Add recurring task'}
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
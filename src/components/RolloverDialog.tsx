@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ArrowRight, Flame, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useJournal } from '@/hooks/useJournal';
+import { usePendingRollover } from '@/hooks/useTaskData';
+import { parseDateKey, todayKey } from '@/lib/dates';
+import { isChronic, resolveRollover, type RolloverDecision } from '@/lib/tasks';
+
+const QUICK_REASONS = ['No longer relevant', 'Done elsewhere', 'Delegated', 'Not worth it'];
+
+type Choice = { action: 'carry' } | { action: 'drop'; reason: string };
+
+const formatDay = (key: string) =>
+  parseDateKey(key).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
+
+/**
+ * Shown on the first open of a new day when the last planned day left
+ * tasks unfinished: carry each one forward or drop it with a reason.
+ */
+export const RolloverDialog = () => {
+  const today = todayKey();
+  const { data: pending } = usePendingRollover(today);
+  const { toast } = useToast();
+  const { undoAction } = useJournal();
+  const [choices, setChoices] = useState<Record<string, Choice>>({});
+  const [postponed, setPostponed] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // Default every task to “carry” whenever a new set comes up
+  useEffect(() => {
+    setChoices(Object.fromEntries((pending?.tasks ?? []).map(t => [t.id, { action: 'carry' } as Choice])));
+  }, [pending]);
+
+  if (!pending) return null;
+  const open = postponed !== pending.date;
+
+  const choose = (id: string, choice: Choice) => setChoices(c => ({ ...c, [id]: choice }));
+  const missingReason = Object.values(choices).some(c => c.action === 'drop' && !c.reason.trim());
+
+  const handleApply = async () => {
+    setBusy(true);
+    try {
+      const decisions = Object.entries(choices).map(([id, c]) => ({ id, ...c }) as RolloverDecision);
+      const carried = await resolveRollover(pending.date, decisions, today);
+      const dropped = decisions.length - carried.length;
+      toast({
+        title: 'Yesterday’s loose ends sorted',
+        description: [
+          carried.length > 0 && `${carried.length} carried over`,
+          dropped > 0 && `${dropped} dropped`,
+        ].filter(Boolean).join(' · '),
+        action: undoAction(),
+      });
+    } catch (err) {
+      console.error('[RolloverDialog] Could not roll over', err);
+      toast({
+        title: 'Could not carry tasks over',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setPostponed(null)}
+        className="w-full rounded-lg border border-dashed border-orange-300 bg-orange-50/70 px-3 py-2 text-sm text-orange-800 text-left"
+      >
+        {pending.tasks.length} unfinished task{pending.tasks.length !== 1 ? 's' : ''} from {formatDay(pending.date)} – review
+      </button>
+    );
+  }
+
+  return (
+    <Dialog open onOpenChange={next => !next && setPostponed(pending.date)}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Unfinished from {formatDay(pending.date)}</DialogTitle>
+          <DialogDescription>
+            Carry each task into today, or drop it – and say why.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {pending.tasks.map(task => {
+            const choice = choices[task.id] ?? { action: 'carry' };
+            const chronic = isChronic({ carryCount: (task.carryCount ?? 0) + 1 });
+            return (
+              <div
+                key={task.id}
+                className={`rounded-lg border p-3 space-y-2 ${chronic ? 'border-orange-300 bg-orange-50' : 'bg-white'}`}
+              >
+                <div className="flex items-start gap-2">
+                  <p className="flex-1 text-sm font-medium text-gray-900">{task.text}</p>
+                  {(task.carryCount ?? 0) > 0 && (
+                    <Badge variant="outline" className={chronic ? 'border-orange-400 text-orange-700' : ''}>
+                      {chronic && <Flame className="w-3 h-3 mr-1" />}
+                      Carried {task.carryCount}×
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant={choice.action === 'carry' ? 'default' : 'outline'}
+                    className="flex-1"
+                    onClick={() => choose(task.id, { action: 'carry' })}
+                  >
+                    <ArrowRight className="w-4 h-4 mr-1" />
+                    Carry over
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={choice.action === 'drop' ? 'destructive' : 'outline'}
+                    className="flex-1"
+                    onClick={() => choice.action !== 'drop' && choose(task.id, { action: 'drop', reason: '' })}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Drop
+                  </Button>
+                </div>
+                {choice.action === 'drop' && (
+                  <div className="space-y-2">
+                    <Input
+                      value={choice.reason}
+                      onChange={e => choose(task.id, { action: 'drop', reason: e.target.value })}
+                      placeholder="Why drop it?"
+                      className="h-8"
+                      autoFocus
+                    />
+                    <div className="flex flex-wrap gap-1">
+                      {QUICK_REASONS.map(reason => (
+                        <button
+                          key={reason}
+                          type="button"
+                          className="text-xs px-2 py-0.5 rounded-full bg-gray-100 hover:bg-gray-200 text-gray-700"
+                          onClick={() => choose(task.id, { action: 'drop', reason })}
+                        >
+                          {reason}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {chronic && choice.action === 'carry' && (
+                  <p className="text-xs text-orange-700">
+                    This one keeps slipping – worth breaking down, delegating or letting go?
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="ghost" onClick={() => setPostponed(pending.date)}>Decide later</Button>
+          <Button onClick={handleApply} disabled={busy || missingReason}>Apply</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
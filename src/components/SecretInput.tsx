@@ -0,0 +1,59 @@
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { PIN_LENGTH, type SecretKind } from '@/lib/encryption';
+
+interface SecretInputProps {
+  kind: SecretKind;
+  value: string;
+  onChange: (value: string) => void;
+  /** Called when the user presses Enter or fills the last PIN slot. */
+  onSubmit?: (value: string) => void;
+  placeholder?: string;
+  autoFocus?: boolean;
+  disabled?: boolean;
+}
+
+/** PIN pad (digits only) or a masked passphrase field. */
+export const SecretInput = ({
+  kind,
+  value,
+  onChange,
+  onSubmit,
+  placeholder = 'Passphrase',
+  autoFocus,
+  disabled,
+}: SecretInputProps) => {
+  if (kind === 'pin') {
+    return (
+      <InputOTP
+        maxLength={PIN_LENGTH}
+        value={value}
+        onChange={v => onChange(v.replace(/\D/g, ''))}
+        onComplete={onSubmit}
+        inputMode="numeric"
+        autoFocus={autoFocus}
+        disabled={disabled}
+        containerClassName="justify-center"
+      >
+        <InputOTPGroup>
+          {Array.from({ length: PIN_LENGTH }, (_, i) => (
+            <InputOTPSlot key={i} index={i} className="[-webkit-text-security:disc]" />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+    );
+  }
+
+  return (
+    <Input
+      type="password"
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      onKeyDown={e => e.key === 'Enter' && onSubmit?.(value)}
+      placeholder={placeholder}
+      autoFocus={autoFocus}
+      disabled={disabled}
+      autoComplete="current-password"
+    />
+  );
+};
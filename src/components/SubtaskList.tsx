@@ -0,0 +1,143 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { ArrowUp, ChevronDown, ListChecks, Plus, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MAX_SUBTASKS,
+  addSubtask,
+  moveSubtask,
+  removeSubtask,
+  setSubtaskCompleted,
+  setTaskCompleted,
+  subtaskProgress,
+  type Task,
+} from '@/lib/tasks';
+
+interface SubtaskListProps {
+  task: Task;
+  date: string;
+}
+
+/** Progress bar for a task’s steps; renders nothing for a task without any. */
+export const SubtaskProgress = ({ task, className = '' }: { task: Pick<Task, 'subtasks'>; className?: string }) => {
+  const { done, total } = subtaskProgress(task);
+  if (total === 0) return null;
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Progress value={(done / total) * 100} className="h-1.5 flex-1" aria-label={`${done} of ${total} steps done`} />
+      <span className="text-xs text-gray-500 tabular-nums">{done}/{total}</span>
+    </div>
+  );
+};
+
+/**
+ * A task’s checklist: tick, add, reorder and remove steps.  The task
+ * completes itself when every step is done; “Mark task done” overrides
+ * that.
+ */
+export const SubtaskList = ({ task, date }: SubtaskListProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const subtasks = task.subtasks ?? [];
+  const { done, total } = subtaskProgress(task);
+
+  const run = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      console.error('[SubtaskList] ' + failure, err);
+      toast({
+        title: failure,
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!draft.trim()) return;
+    if (await run(() => addSubtask(task.id, draft, date), 'Could not add step')) setDraft('');
+  };
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mt-1">
+      <SubtaskProgress task={task} />
+      <CollapsibleTrigger asChild>
+        <button type="button" className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 mt-0.5">
+          <ListChecks className="w-3 h-3" />
+          {total > 0 ? `${done} of ${total} steps` : 'Add steps'}
+          <ChevronDown className={`w-3 h-3 transition-transform ${open ? 'rotate-180' : ''}`} />
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-1.5 pt-2">
+        {subtasks.map((subtask, idx) => (
+          <div key={subtask.id} className="flex items-center gap-2">
+            <Checkbox
+              checked={subtask.completed}
+              onCheckedChange={checked =>
+                run(() => setSubtaskCompleted(task.id, subtask.id, checked === true, date), 'Could not update step')
+              }
+              aria-label={subtask.text}
+            />
+            <span className={`flex-1 text-sm ${subtask.completed ? 'line-through text-gray-400' : 'text-gray-700'}`}>
+              {subtask.text}
+            </span>
+            {idx > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 text-gray-400"
+                aria-label={`Move “${subtask.text}” up`}
+                onClick={() => run(() => moveSubtask(task.id, subtask.id, idx - 1, date), 'Could not move step')}
+              >
+                <ArrowUp className="w-3 h-3" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
+              aria-label={`Remove “${subtask.text}”`}
+              onClick={() => run(() => removeSubtask(task.id, subtask.id, date), 'Could not remove step')}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        {total < MAX_SUBTASKS && (
+          <div className="flex gap-2">
+            <Input
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleAdd()}
+              placeholder="Next step…"
+              className="h-8 text-sm"
+            />
+            <Button size="sm" variant="outline" className="h-8 w-8 p-0 shrink-0" aria-label="Add step" onClick={handleAdd}>
+              <Plus className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {total > 0 && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() =>
+              run(() => setTaskCompleted(task.id, !task.completed, date), 'Could not update task')
+            }
+          >
+            {task.completed ? 'Reopen task' : done < total ? 'Mark task done anyway' : 'Mark task done'}
+          </Button>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Cloud, CloudOff, RefreshCw } from 'lucide-react';
+import { useSyncStatus } from '@/hooks/useSync';
+import { syncNow, type SyncStatus } from '@/lib/sync';
+
+const describe = (status: SyncStatus) => {
+  const last = status.lastSyncedAt
+    ? `Last synced ${new Date(status.lastSyncedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+    : 'Not synced yet';
+  const pending = status.pending > 0 ? ` · ${status.pending} change${status.pending !== 1 ? 's' : ''} waiting` : '';
+  switch (status.state) {
+    case 'syncing': return 'Syncing…';
+    case 'offline': return `Offline – changes are kept until the server is reachable${pending}`;
+    case 'error': return `Sync failed: ${status.error ?? 'unknown error'}${pending}`;
+    default: return `${last}${pending}`;
+  }
+};
+
+/** Header badge for the sync state; tap to sync now. Hidden while sync is off. */
+export const SyncIndicator = () => {
+  const { data: status } = useSyncStatus();
+  if (!status || status.state === 'disabled') return null;
+
+  const Icon = {
+    idle: Cloud,
+    syncing: RefreshCw,
+    offline: CloudOff,
+    error: AlertTriangle,
+  }[status.state];
+  const color = {
+    idle: status.pending > 0 ? 'text-amber-500' : 'text-green-600',
+    syncing: 'text-blue-500',
+    offline: 'text-gray-400',
+    error: 'text-red-500',
+  }[status.state];
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 w-7 p-0"
+      title={describe(status)}
+      aria-label={describe(status)}
+      onClick={() => syncNow()}
+      disabled={status.state === 'syncing'}
+    >
+      <Icon className={`w-4 h-4 ${color} ${status.state === 'syncing' ? 'animate-spin' : ''}`} />
+    </Button>
+  );
+};
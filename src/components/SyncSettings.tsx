@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Cloud, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useSyncStatus } from '@/hooks/useSync';
+import { useEncryption } from '@/hooks/useEncryption';
+import {
+  DEFAULT_SYNC_INTERVAL_MINUTES,
+  disableSync,
+  getSyncConfig,
+  setSyncConfig,
+  syncNow,
+} from '@/lib/sync';
+
+const STATE_LABELS = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline',
+  error: 'Error',
+} as const;
+
+/** Configure the sync server for the active profile. */
+export const SyncSettings = () => {
+  const { data: status } = useSyncStatus();
+  const { data: encryption } = useEncryption();
+  const { toast } = useToast();
+  const [url, setUrl] = useState('');
+  const [space, setSpace] = useState('');
+  const [token, setToken] = useState('');
+  const [interval, setIntervalMinutes] = useState(String(DEFAULT_SYNC_INTERVAL_MINUTES));
+  const [busy, setBusy] = useState(false);
+
+  const enabled = !!status && status.state !== 'disabled';
+
+  // Load the saved settings whenever sync is switched on/off (or the profile changes)
+  useEffect(() => {
+    const load = async () => {
+      const config = await getSyncConfig();
+      setUrl(config?.url ?? '');
+      setSpace(config?.space ?? '');
+      setToken(config?.token ?? '');
+      setIntervalMinutes(String(config?.intervalMinutes ?? DEFAULT_SYNC_INTERVAL_MINUTES));
+    };
+    load();
+  }, [enabled]);
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      const parsed = new URL(url.trim());
+      if (!/^https?:$/.test(parsed.protocol)) throw new Error('Use an http:// or https:// address');
+      await setSyncConfig({
+        url: parsed.toString().replace(/\/+$/, ''),
+        space: space.trim() || 'default',
+        token: token.trim() || undefined,
+        intervalMinutes: Math.max(1, Number(interval) || DEFAULT_SYNC_INTERVAL_MINUTES),
+      });
+      await syncNow();
+      toast({ title: 'Sync settings saved', description: 'Syncing with your server now.' });
+    } catch (err) {
+      console.error('[SyncSettings] Could not save', err);
+      toast({
+        title: 'Could not save sync settings',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    await disableSync();
+    toast({ title: 'Sync turned off', description: 'Data on this device stays as it is.' });
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Cloud className="w-5 h-5 text-indigo-600" />
+          Sync
+          {enabled && (
+            <Badge variant="secondary" className="ml-auto text-xs">
+              {STATE_LABELS[status.state as keyof typeof STATE_LABELS]}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-gray-600">
+          Keep this profile in sync across your devices through a server you run
+          yourself (<code className="text-xs">npm run sync-server</code>).
+        </p>
+        {encryption?.status !== 'off' && (
+          <p className="text-xs text-amber-700">
+            Encryption only protects data on this device – synced data is readable by the server.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="sync-url">Server address</Label>
+          <Input id="sync-url" value={url} onChange={e => setUrl(e.target.value)} placeholder="http://192.168.1.20:8787" />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="sync-space">Space</Label>
+            <Input id="sync-space" value={space} onChange={e => setSpace(e.target.value)} placeholder="default" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="sync-interval">Every (min)</Label>
+            <Input id="sync-interval" type="number" min={1} value={interval} onChange={e => setIntervalMinutes(e.target.value)} />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="sync-token">Token (optional)</Label>
+          <Input id="sync-token" type="password" value={token} onChange={e => setToken(e.target.value)} />
+        </div>
+
+        {enabled && status.state === 'error' && (
+          <p className="text-xs text-red-600">{status.error}</p>
+        )}
+
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={handleSave} disabled={busy || !url.trim()}>
+            {enabled ? 'Save' : 'Turn on sync'}
+          </Button>
+          {enabled && (
+            <>
+              <Button variant="outline" onClick={() => syncNow()} disabled={status.state === 'syncing'}>
+                <RefreshCw className={`w-4 h-4 ${status.state === 'syncing' ? 'animate-spin' : ''}`} />
+              </Button>
+              <Button variant="ghost" onClick={handleDisable}>Turn off</Button>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,37 +1,31 @@
 
-import { useEffect, useState } from 'react';
+import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, User, Briefcase, MessageSquare } from 'lucide-react';
-
-interface HistoryTask {
-  id: string;
-  text: string;
-  category: 'personal' | 'professional';
-  priority: number;
-}
-
-interface DailyEntry {
-  date: string;
-  tasks: HistoryTask[];
-  reflection: string;
-  timestamp: string;
-}
+import { Calendar, MessageSquare, AlertTriangle, Target } from 'lucide-react';
+import { useDailyEntries, useQuarantinedRecords } from '@/hooks/useTaskData';
+import { daysBetween, parseDateKey, todayKey } from '@/lib/dates';
+import { alignmentOf, formatAlignment } from '@/lib/goals';
+import { EntryRevisions } from './EntryRevisions';
+import { EntryTranscripts } from './EntryTranscripts';
+import { DeadlineBadge } from './DeadlineBadge';
+import { SubtaskProgress } from './SubtaskList';
+import { CategoryBadge, TagList } from './CategoryBadge';
+import { GoalBadge } from './GoalBadge';
 
 export const TaskHistory = () => {
-  const [entries, setEntries] = useState<DailyEntry[]>([]);
+  const { data: savedEntries = [] } = useDailyEntries();
+  const { data: quarantined = [] } = useQuarantinedRecords();
+  const quarantinedCount = quarantined.length;
 
-  useEffect(() => {
-    const savedEntries = JSON.parse(localStorage.getItem('dailyEntries') || '[]');
-    // Sort by date, most recent first
-    const sortedEntries = savedEntries.sort((a: DailyEntry, b: DailyEntry) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-    setEntries(sortedEntries);
-  }, []);
+  // Sort by date, most recent first
+  const entries = useMemo(
+    () => [...savedEntries].sort((a, b) => b.date.localeCompare(a.date)),
+    [savedEntries],
+  );
 
   const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
+    const date = parseDateKey(dateString);
     return date.toLocaleDateString('en-US', { 
       weekday: 'long', 
       month: 'short', 
@@ -40,27 +34,38 @@ export const TaskHistory = () => {
   };
 
   const getDaysAgo = (dateString: string) => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const diffTime = Math.abs(today.getTime() - date.getTime());
-    const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
+    const diffDays = Math.abs(daysBetween(dateString, todayKey()));
     
     if (diffDays === 0) return 'Today';
     if (diffDays === 1) return 'Yesterday';
     return `${diffDays} days ago`;
   };
 
+  // Records that failed validation are never rendered – just counted here
+  const quarantineNotice = quarantinedCount > 0 && (
+    <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+      <span>
+        {quarantinedCount} stored record{quarantinedCount !== 1 ? 's' : ''} couldn't be read and
+        {quarantinedCount !== 1 ? ' were' : ' was'} set aside.
+      </span>
+    </div>
+  );
+
   if (entries.length === 0) {
     return (
-      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
-        <CardContent className="p-12 text-center">
-          <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
-          <h3 className="text-xl font-bold text-gray-900 mb-2">No history yet</h3>
-          <p className="text-gray-600">
-            Complete your first daily prioritization to start building your history!
-          </p>
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {quarantineNotice}
+        <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+          <CardContent className="p-12 text-center">
+            <Calendar className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No history yet</h3>
+            <p className="text-gray-600">
+              Complete your first daily prioritization to start building your history!
+            </p>
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
@@ -73,14 +78,26 @@ export const TaskHistory = () => {
         </p>
       </div>
 
-      {entries.map((entry, index) => (
-        <Card key={index} className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      {quarantineNotice}
+
+      {entries.map(entry => (
+        <Card key={entry.date} className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
               <CardTitle className="text-lg">{formatDate(entry.date)}</CardTitle>
-              <Badge variant="outline" className="text-xs">
-                {getDaysAgo(entry.date)}
-              </Badge>
+              <div className="flex items-center gap-1">
+                <EntryTranscripts entry={entry} />
+                <EntryRevisions entry={entry} />
+                {alignmentOf(entry.tasks).aligned > 0 && (
+                  <Badge variant="outline" className="text-xs text-emerald-700" title="Share of the day’s tasks that served a goal">
+                    <Target className="w-3 h-3 mr-1" />
+                    {formatAlignment(alignmentOf(entry.tasks))}
+                  </Badge>
+                )}
+                <Badge variant="outline" className="text-xs">
+                  {getDaysAgo(entry.date)}
+                </Badge>
+              </div>
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -96,17 +113,18 @@ export const TaskHistory = () => {
                   </div>
                   <div className="flex-1">
                     <p className="text-gray-900 font-medium text-sm">{task.text}</p>
-                  </div>
-                  <Badge 
-                    variant={task.category === 'personal' ? 'secondary' : 'outline'}
-                    className="text-xs"
-                  >
-                    {task.category === 'personal' ? (
-                      <><User className="w-3 h-3 mr-1" /> P</>
-                    ) : (
-                      <><Briefcase className="w-3 h-3 mr-1" /> W</>
+                    <TagList tags={task.tags} className="mt-1" />
+                    <GoalBadge goalId={task.goalId} className="mt-1" />
+                    <DeadlineBadge task={task} className="mt-1" />
+                    <SubtaskProgress task={task} className="mt-1" />
+                    {task.rolledOver === 'carried' && (
+                      <p className="text-xs text-gray-500 mt-1">Carried over to the next day</p>
                     )}
-                  </Badge>
+                    {task.rolledOver === 'dropped' && (
+                      <p className="text-xs text-gray-500 mt-1">Dropped: {task.dropReason}</p>
+                    )}
+                  </div>
+                  <CategoryBadge categoryId={task.category} compact />
                 </div>
               ))}
             </div>
@@ -0,0 +1,171 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { usePrioritizationSettings } from '@/hooks/useTaskData';
+import { MOSCOW_LEVELS, editTask, type MoscowLevel, type TaskScoring } from '@/lib/tasks';
+import { MOSCOW_LABELS, getStrategy, type RankedTask } from '@/lib/prioritization';
+
+interface TaskScoreDetailsProps {
+  ranked: RankedTask;
+  date: string;
+}
+
+interface NumberFieldProps {
+  label: string;
+  value: number | undefined;
+  min: number;
+  max?: number;
+  step?: number;
+  onCommit: (value: number | undefined) => void;
+}
+
+/** Number input that saves on blur; empty means “use the default”. */
+const NumberField = ({ label, value, min, max, step = 1, onCommit }: NumberFieldProps) => {
+  const [draft, setDraft] = useState(value === undefined ? '' : String(value));
+  useEffect(() => setDraft(value === undefined ? '' : String(value)), [value]);
+
+  const commit = () => {
+    const next = draft.trim() === '' ? undefined : Number(draft);
+    if (next !== value && (next === undefined || Number.isFinite(next))) onCommit(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        inputMode="decimal"
+        min={min}
+        max={max}
+        step={step}
+        value={draft}
+        placeholder="auto"
+        onChange={e => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={e => e.key === 'Enter' && commit()}
+        className="h-8"
+      />
+    </div>
+  );
+};
+
+/**
+ * “Why is this ranked #n?” – the active strategy’s score breakdown for one
+ * task, plus the inputs that strategy reads.
+ */
+export const TaskScoreDetails = ({ ranked, date }: TaskScoreDetailsProps) => {
+  const { data: settings } = usePrioritizationSettings();
+  const { toast } = useToast();
+  if (!settings) return null;
+
+  const { task, rank, score } = ranked;
+  const strategy = getStrategy(settings.strategy);
+  const scoring = task.scoring ?? {};
+
+  const update = async (next: TaskScoring) => {
+    try {
+      await editTask(task.id, { scoring: next }, date);
+    } catch (err) {
+      console.error('[TaskScoreDetails] Could not update scoring', err);
+      toast({
+        title: 'Could not update task',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-700 hover:bg-indigo-100"
+          title="Why is it ranked here?"
+        >
+          #{rank} · {score.summary}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="space-y-3">
+        <div>
+          <p className="text-sm font-semibold">Ranked #{rank} by {strategy.name}</p>
+          <p className="text-xs text-gray-500">{score.summary}</p>
+        </div>
+
+        <ul className="space-y-1 text-sm">
+          {score.factors.map(f => (
+            <li key={f.label} className="flex justify-between gap-2">
+              <span className="text-gray-600">{f.label}</span>
+              <span className={f.assumed ? 'text-gray-400 italic' : 'font-medium'}>
+                {f.value}{f.assumed && ' (auto)'}
+              </span>
+            </li>
+          ))}
+        </ul>
+
+        {strategy.id === 'moscow' && (
+          <Select
+            value={scoring.moscow ?? 'auto'}
+            onValueChange={v => update({ ...scoring, moscow: v === 'auto' ? undefined : (v as MoscowLevel) })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">From urgency / importance</SelectItem>
+              {MOSCOW_LEVELS.map(level => (
+                <SelectItem key={level} value={level}>{MOSCOW_LABELS[level]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {strategy.id === 'rice' && (
+          <div className="grid grid-cols-2 gap-2">
+            <NumberField label="Reach" value={scoring.rice?.reach} min={0}
+              onCommit={reach => update({ ...scoring, rice: { ...scoring.rice, reach } })} />
+            <NumberField label="Impact (0.25–3)" value={scoring.rice?.impact} min={0.25} max={3} step={0.25}
+              onCommit={impact => update({ ...scoring, rice: { ...scoring.rice, impact } })} />
+            <NumberField label="Confidence %" value={scoring.rice?.confidence} min={0} max={100} step={10}
+              onCommit={confidence => update({ ...scoring, rice: { ...scoring.rice, confidence } })} />
+            <NumberField label="Effort (days)" value={scoring.rice?.effort} min={0.25} step={0.25}
+              onCommit={effort => update({ ...scoring, rice: { ...scoring.rice, effort } })} />
+          </div>
+        )}
+
+        {strategy.id === 'ice' && (
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField label="Impact" value={scoring.ice?.impact} min={1} max={10}
+              onCommit={impact => update({ ...scoring, ice: { ...scoring.ice, impact } })} />
+            <NumberField label="Confidence" value={scoring.ice?.confidence} min={1} max={10}
+              onCommit={confidence => update({ ...scoring, ice: { ...scoring.ice, confidence } })} />
+            <NumberField label="Ease" value={scoring.ice?.ease} min={1} max={10}
+              onCommit={ease => update({ ...scoring, ice: { ...scoring.ice, ease } })} />
+          </div>
+        )}
+
+        {strategy.id === 'weighted' && (
+          <div className="grid grid-cols-2 gap-2">
+            {settings.criteria.map(c => (
+              <NumberField key={c.id} label={`${c.label} (1–5)`} value={scoring.ratings?.[c.id]} min={1} max={5}
+                onCommit={rating => {
+                  const ratings = { ...scoring.ratings, [c.id]: rating };
+                  if (rating === undefined) delete ratings[c.id];
+                  update({ ...scoring, ratings });
+                }} />
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
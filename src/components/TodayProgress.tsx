@@ -0,0 +1,133 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { CheckCircle2, Sparkles } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useDailyEntries, useEntryForDate } from '@/hooks/useTaskData';
+import { useJournal } from '@/hooks/useJournal';
+import { todayKey } from '@/lib/dates';
+import { setTaskCompleted, type Task } from '@/lib/tasks';
+import { completionStats, dayCompletion } from '@/utils/storage';
+import { ProgressRing } from '@/components/ProgressRing';
+import { CategoryBadge } from '@/components/CategoryBadge';
+import { GoalBadge } from '@/components/GoalBadge';
+import { DeadlineBadge } from '@/components/DeadlineBadge';
+import { SubtaskList } from '@/components/SubtaskList';
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const percent = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+/**
+ * Today after the plan is locked in: tick tasks off as they get done (or
+ * reopen them), watch the ring fill up and compare the day with the week.
+ */
+export const TodayProgress = () => {
+  const today = todayKey();
+  const { data: entry } = useEntryForDate(today);
+  const { data: entries = [] } = useDailyEntries();
+  const { toast } = useToast();
+  const { undoAction } = useJournal();
+
+  const tasks = entry?.tasks ?? [];
+  const { done, total, rate } = dayCompletion(entry ?? undefined, today);
+  const week = completionStats(entries, 7, today);
+  const finished = total > 0 && done === total;
+
+  const toggle = async (task: Task, completed: boolean) => {
+    try {
+      await setTaskCompleted(task.id, completed, today);
+    } catch (err) {
+      console.error('[TodayProgress] Could not update task', err);
+      toast({
+        title: 'Could not update task',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+      return;
+    }
+    toast({
+      title: completed ? 'Nice – one down! ✅' : 'Task reopened',
+      description: task.text,
+      action: undoAction(),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+        <CardContent className="p-6 flex items-center gap-6">
+          <ProgressRing value={(rate ?? 0) * 100}>
+            <span className="text-xl font-bold text-gray-900 tabular-nums">{done}/{total}</span>
+            <span className="text-xs text-gray-500">done</span>
+          </ProgressRing>
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 mb-1">
+              {finished ? 'Everything done! 🎉' : 'Priorities locked in'}
+            </h2>
+            <p className="text-sm text-gray-600">
+              {finished
+                ? 'Enjoy the rest of your day – tomorrow starts with a fresh list.'
+                : `${total - done} to go. Tick each one off as you finish it.`}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Sparkles className="w-5 h-5 text-yellow-500" />
+            Today's Priorities
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {tasks.map(task => (
+            <div
+              key={task.id}
+              className={`flex items-start gap-3 p-3 rounded-lg border ${task.completed ? 'bg-green-50/60 border-green-100' : 'bg-white border-gray-100'}`}
+            >
+              <Checkbox
+                checked={task.completed}
+                onCheckedChange={checked => toggle(task, checked === true)}
+                aria-label={task.completed ? `Reopen “${task.text}”` : `Mark “${task.text}” done`}
+                className="mt-1"
+              />
+              <div className="flex-1">
+                <p className={`font-medium ${task.completed ? 'line-through text-gray-400' : 'text-gray-900'}`}>{task.text}</p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  <CategoryBadge categoryId={task.category} />
+                  <GoalBadge goalId={task.goalId} />
+                  {!task.completed && <DeadlineBadge task={task} />}
+                  {task.completed && task.completedAt && (
+                    <span className="inline-flex items-center gap-1 text-xs text-green-700">
+                      <CheckCircle2 className="w-3 h-3" />
+                      Done {time(task.completedAt)}
+                    </span>
+                  )}
+                </div>
+                <SubtaskList task={task} date={today} />
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-lg bg-gradient-to-r from-green-50 to-blue-50">
+        <CardContent className="p-4 grid grid-cols-3 gap-2 text-center">
+          <div>
+            <div className="text-lg font-bold text-gray-900">{percent(rate)}</div>
+            <div className="text-xs text-gray-600">today</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-gray-900">{percent(week.rate)}</div>
+            <div className="text-xs text-gray-600">last 7 days</div>
+          </div>
+          <div>
+            <div className="text-lg font-bold text-gray-900">{week.perfectDays}</div>
+            <div className="text-xs text-gray-600">perfect days</div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
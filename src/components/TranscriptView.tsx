@@ -0,0 +1,56 @@
+import { useEffect, useRef } from 'react';
+import { Wrench } from 'lucide-react';
+import type { Transcript } from '@/lib/tasks';
+
+interface TranscriptViewProps {
+  transcript: Transcript;
+  /** keep the newest message in view as the session goes on */
+  live?: boolean;
+  className?: string;
+}
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/** A voice session as a chat: the user on the right, the agent on the left, tool calls in between. */
+export const TranscriptView = ({ transcript, live = false, className = '' }: TranscriptViewProps) => {
+  const bottom = useRef<HTMLDivElement>(null);
+  const count = transcript.events.length;
+
+  useEffect(() => {
+    if (live) bottom.current?.scrollIntoView({ block: 'nearest' });
+  }, [live, count]);
+
+  if (count === 0) {
+    return <p className={`text-sm text-gray-500 ${className}`}>Nothing said yet.</p>;
+  }
+
+  return (
+    <div className={`space-y-2 overflow-y-auto ${className}`} aria-live={live ? 'polite' : undefined}>
+      {transcript.events.map((event, index) =>
+        event.source === 'tool' ? (
+          <div key={index} className="flex items-start gap-2 px-2 text-xs text-gray-500" title={JSON.stringify(event.parameters)}>
+            <Wrench className="w-3 h-3 mt-0.5 shrink-0" />
+            <span>
+              <span className="font-mono text-gray-700">{event.tool}</span>
+              {event.result && <> – {event.result}</>}
+            </span>
+          </div>
+        ) : (
+          <div key={index} className={`flex ${event.source === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+                event.source === 'user' ? 'bg-blue-500 text-white' : 'bg-gray-100 text-gray-900'
+              }`}
+            >
+              <p>{event.text}</p>
+              <p className={`text-[10px] mt-1 ${event.source === 'user' ? 'text-blue-100' : 'text-gray-400'}`}>
+                {time(event.at)}
+              </p>
+            </div>
+          </div>
+        ),
+      )}
+      <div ref={bottom} />
+    </div>
+  );
+};
@@ -1,30 +1,51 @@
 import { useState, useEffect, useMemo } from 'react';
-import { useConversation } from '@11labs/react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Mic, PhoneOff, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useMobile } from '@/hooks/useMobile';
-import { v4 as uuidv4 } from 'uuid';
-import { Task, TaskCategory, addTask as persistTask, finalizeEntry, getTasksForToday } from '@/lib/tasks';
-import { JARVIS_PROMPT } from '@/lib/agentPrompt';
+import { Task, QUADRANTS, quadrantOf } from '@/lib/tasks';
+import { buildAgentPrompt } from '@/lib/agentPrompt';
+import { AGENT_TOOLS, type AgentToolName } from '@/lib/agentTools';
+import { getVoiceProvider, type ClientTool } from '@/lib/voice';
+import { DeadlineBadge } from '@/components/DeadlineBadge';
+import { CategoryBadge } from '@/components/CategoryBadge';
+import { GoalBadge } from '@/components/GoalBadge';
+import { TranscriptView } from '@/components/TranscriptView';
+import { useEntryForDate } from '@/hooks/useTaskData';
+import { useAgentTools } from '@/hooks/useAgentTools';
+import { useTranscriptRecorder } from '@/hooks/useTranscript';
 
 
 interface VoiceAgentProps {
   onTasksCollected: (tasks: Task[], reflection: string) => void;
 }
 
-// Production agent ID for the Daily Focus app
-const DEFAULT_AGENT_ID = 'agent_01jxtpkc2rfyea485w67v3dhrc';
-
 export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
-  const [collectedTasks, setCollectedTasks] = useState<Task[]>([]);
-  const [reflection, setReflection] = useState('');
+  // Live view of today's tasks – refreshes after every write, in any tab
+  const { data: todayEntry } = useEntryForDate();
+  const collectedTasks = todayEntry?.tasks ?? [];
+  const reflection = todayEntry?.reflection;
   const [isInitializing, setIsInitializing] = useState(true);
   const { toast } = useToast();
+  const { runTool } = useAgentTools();
   const { isMobile } = useMobile();
+  const provider = getVoiceProvider();
+  const { transcript, record, save: saveTranscript } = useTranscriptRecorder(provider.id);
 
-  const conversation = useConversation({
+  /** Every agent tool; the reply goes back to the agent, a finalized day hands over to the day view. */
+  const clientTools: Record<string, ClientTool> = Object.fromEntries(
+    (Object.keys(AGENT_TOOLS) as AgentToolName[]).map(name => [
+      name,
+      async (parameters: unknown) => {
+        const { reply, finalized } = await runTool(name, parameters);
+        if (finalized) onTasksCollected(finalized.tasks, finalized.reflection ?? '');
+        return reply;
+      },
+    ]),
+  );
+
+  const conversation = provider.useSession({
     onConnect: () => {
       setIsInitializing(false);
       toast({
@@ -33,13 +54,14 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
       });
     },
     onDisconnect: () => {
+      saveTranscript({ ended: true });
       toast({
         title: "Voice agent disconnected",
         description: "Session ended",
       });
     },
-    onError: (error) => {
-      console.error('Conversation error:', error);
+    onError: (message) => {
+      console.error('Conversation error:', message);
       setIsInitializing(false);
       toast({
         title: "Voice agent error",
@@ -47,72 +69,19 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
         variant: "destructive"
       });
     },
-    clientTools: {
-      addTask: (parameters: { text: string; category: TaskCategory }) => {
-        // 🛡️ Validate that `category` is a simple string, otherwise bail out
-        const isValidCategory = (c: any): c is TaskCategory =>
-          c === 'personal' || c === 'professional';
-
-        if (!isValidCategory(parameters.category)) {
-          console.warn('Invalid category received from voice agent:', parameters.category);
-          toast({
-            title: 'Unknown category',
-            description: 'Please say “personal” or “professional” after the task.',
-            variant: 'destructive'
-          });
-          return 'Sorry, I didn’t catch whether that was personal or professional.';
-        }
-
-        // Build a fresh task object
-        const newTask: Task = {
-          id: uuidv4(),
-          text: parameters.text.trim(),
-          category: parameters.category as TaskCategory,
-          completed: false,
-        };
-
-        // 1️⃣ Persist to local‑storage
-        persistTask(newTask);
-
-        // Retrieve the latest tasks list after persisting
-        const updatedTasks = getTasksForToday();
-
-        // Debug: verify task shapes
-        console.log('Updated tasks', updatedTasks);
-        updatedTasks.forEach(t => console.log('text type', typeof t.text, t));
-
-        // 2️⃣ Read back the up‑to‑date list once, then update state & UI
-        setCollectedTasks(updatedTasks);
-
-        // 3️⃣ User feedback based on the *new* array length
-        if (updatedTasks.length <= 5) {
-          toast({
-            title: 'Task added! ✅',
-            description: `${parameters.text}`,
-          });
-        }
-
-        return `Task "${parameters.text}" has been added to your ${parameters.category} priorities.`;
-      },
-      setReflection: (parameters: { reflection: string }) => {
-        setReflection(parameters.reflection);
-        toast({
-          title: "Reflection noted 📝",
-          description: "Your daily reflection has been recorded",
-        });
-        return "Your reflection has been recorded.";
-      },
-      finalizeTasks: () => {
-        const persistedTasks = getTasksForToday();
-        if (persistedTasks.length >= 3) {
-          finalizeEntry(reflection);
-          onTasksCollected(persistedTasks, reflection);
-          return "Your daily priorities have been finalized!";
-        } else {
-          return `You currently have ${persistedTasks.length} tasks. Please add at least 3 priorities before finalizing.`;
-        }
-      }
-    }
+    onMessage: message => record(message),
+    // Every tool call lands in the transcript, which is saved after each one
+    clientTools: Object.fromEntries(
+      Object.entries(clientTools).map(([tool, run]) => [
+        tool,
+        async (parameters: unknown) => {
+          const result = await run(parameters);
+          record({ source: 'tool', tool, parameters, result });
+          await saveTranscript();
+          return result;
+        },
+      ]),
+    ),
   });
 
   // Safely stringify status so we never pass an object directly to the DOM
@@ -130,14 +99,13 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
   useEffect(() => {
     const startVoiceSession = async () => {
       try {
-        // Request microphone permission
-        await navigator.mediaDevices.getUserMedia({ audio: true });
-        
-        // Start the conversation session
-        await conversation.startSession({
-          agentId: DEFAULT_AGENT_ID,
-          prompt: JARVIS_PROMPT
-        });
+        // Request microphone permission (the scripted provider never listens)
+        if (provider.needsMicrophone) {
+          await navigator.mediaDevices.getUserMedia({ audio: true });
+        }
+
+        // Start the conversation session, primed with today's data
+        await conversation.start(await buildAgentPrompt());
       } catch (error) {
         console.error('Failed to start voice session:', error);
         setIsInitializing(false);
@@ -162,14 +130,13 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
 
     // Cleanup function to end session when component unmounts
     return () => {
-      if (conversation.status === 'connected') {
-        conversation.endSession();
-      }
+      conversation.end();
+      saveTranscript({ ended: true });
     };
   }, []);
 
   const endVoiceSession = async () => {
-    await conversation.endSession();
+    await conversation.end();
   };
 
   return (
@@ -180,6 +147,11 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
           <CardTitle className="flex items-center gap-2">
             <Mic className="w-5 h-5" />
             Voice Assistant {isMobile && '📱'}
+            {provider.id === 'scripted' && (
+              <span className="ml-auto text-xs font-normal px-2 py-1 bg-amber-100 text-amber-800 rounded">
+                {provider.name}
+              </span>
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -215,6 +187,8 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
                     💡 <strong>Say things like:</strong><br/>
                     • "Add a personal task: Go for a morning run"<br/>
                     • "Add professional task: Finish the project proposal"<br/>
+                    • "Mark the gym done" or "Move the report to the top"<br/>
+                    • "What's on my list?"<br/>
                     • "My reflection is: I want to focus on health this week"<br/>
                     • "Finalize my tasks"
                     {isMobile && <br/>}
@@ -240,15 +214,12 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
                   <span className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-xs">
                     {index + 1}
                   </span>
-                  {/*
-                    `task.text` was sometimes persisted as an object in older sessions.
-                    Convert it to a string defensively to prevent React runtime errors.
-                  */}
-                  <span className="flex-1">
-                    {typeof task.text === 'string' ? task.text : (task.text as any)?.text ?? ''}
-                  </span>
-                  <span className="text-xs px-2 py-1 bg-gray-200 rounded">
-                    {String(task.category)}
+                  <span className="flex-1">{task.text}</span>
+                  <DeadlineBadge task={task} />
+                  <CategoryBadge categoryId={task.category} />
+                  <GoalBadge goalId={task.goalId} />
+                  <span className="text-xs px-2 py-1 bg-indigo-100 text-indigo-700 rounded">
+                    {QUADRANTS[quadrantOf(task)].label}
                   </span>
                 </div>
               ))}
@@ -257,6 +228,18 @@ export const VoiceAgent = ({ onTasksCollected }: VoiceAgentProps) => {
         </Card>
       )}
 
+      {/* Live Transcript */}
+      {transcript.events.length > 0 && (
+        <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>Transcript</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <TranscriptView transcript={transcript} live className="max-h-72" />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Reflection Preview */}
       {reflection && (
         <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
@@ -0,0 +1,109 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bot, ChevronDown, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAgentPrompt, useJargonLevel } from '@/hooks/useTaskData';
+import { JARGON_LABELS, JARGON_LEVELS, setJargonLevel, type JargonLevel } from '@/lib/agentPrompt';
+
+/**
+ * How Jarvis talks to the user, plus a debug view of the exact prompt –
+ * template variables and the rendered text – the next session will start with.
+ */
+export const VoiceSettings = () => {
+  const { data: jargon } = useJargonLevel();
+  const { data: prompt } = useAgentPrompt();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const handleJargon = async (level: JargonLevel) => {
+    try {
+      await setJargonLevel(level);
+      toast({ title: 'Preference saved', description: JARGON_LABELS[level] });
+    } catch (err) {
+      console.error('[VoiceSettings] Could not save jargon level', err);
+      toast({
+        title: 'Could not save preference',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const copyPrompt = async () => {
+    try {
+      await navigator.clipboard.writeText(prompt.rendered);
+      toast({ title: 'Prompt copied' });
+    } catch (err) {
+      console.error('[VoiceSettings] Could not copy prompt', err);
+      toast({
+        title: 'Could not copy prompt',
+        description: (err as Error).message ?? 'Unknown error',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-white/70 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Bot className="w-5 h-5 text-blue-600" />
+          Voice Assistant
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label>Jargon</Label>
+          <Select value={jargon ?? ''} onValueChange={level => handleJargon(level as JargonLevel)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Not set – Jarvis will ask" />
+            </SelectTrigger>
+            <SelectContent>
+              {JARGON_LEVELS.map(level => (
+                <SelectItem key={level} value={level}>{JARGON_LABELS[level]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {prompt && (
+          <Collapsible open={open} onOpenChange={setOpen}>
+            <CollapsibleTrigger asChild>
+              <Button variant="ghost" size="sm" className="px-0 text-xs text-gray-500">
+                <ChevronDown className={`w-3 h-3 mr-1 transition-transform ${open ? 'rotate-180' : ''}`} />
+                {open ? 'Hide' : 'Show'} session prompt (debug)
+              </Button>
+            </CollapsibleTrigger>
+            <CollapsibleContent className="space-y-3 pt-2">
+              <dl className="text-xs space-y-1">
+                {Object.entries(prompt.variables).map(([name, value]) => (
+                  <div key={name} className="grid grid-cols-[auto_1fr] gap-2">
+                    <dt className="font-mono text-gray-500">{`{{${name}}}`}</dt>
+                    <dd className="text-gray-800 whitespace-pre-wrap">{String(value).trim()}</dd>
+                  </div>
+                ))}
+              </dl>
+              <pre className="text-xs bg-gray-50 rounded-lg p-3 max-h-80 overflow-auto whitespace-pre-wrap">
+                {prompt.rendered.trim()}
+              </pre>
+              <Button variant="outline" size="sm" onClick={copyPrompt}>
+                <Copy className="w-4 h-4 mr-1" />
+                Copy prompt
+              </Button>
+            </CollapsibleContent>
+          </Collapsible>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
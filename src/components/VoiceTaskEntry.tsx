@@ -1,85 +1,32 @@
 import { useState } from 'react';
 import { VoiceAgent } from './VoiceAgent';
 import { DailyTaskEntry } from './DailyTaskEntry';
+import { CommandBar } from './CommandBar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Mic, Keyboard, Sparkles } from 'lucide-react';
+import { Mic, Keyboard, Sparkles, Terminal } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { saveDailyEntry, updateLastCompleted } from '@/utils/storage';
-
-interface Task {
-  id: string;
-  text: string;
-  category: 'personal' | 'professional';
-  priority: number;
-}
+import { useJournal } from '@/hooks/useJournal';
 
 interface VoiceTaskEntryProps {
-  onComplete: () => void;
+  onComplete?: () => void;
 }
 
 export const VoiceTaskEntry = ({ onComplete }: VoiceTaskEntryProps) => {
-  const [mode, setMode] = useState<'voice' | 'manual'>('voice');
+  const [mode, setMode] = useState<'voice' | 'typed' | 'manual'>('voice');
   const { toast } = useToast();
+  const { undoAction } = useJournal();
 
-  const handleVoiceTasksCollected = (
-    voiceTasks: Array<{ id: string; text: string; category: 'personal' | 'professional' }>,
-    reflection: string
-  ) => {
-    try {
-      const today = new Date().toDateString();
-
-      // Convert voice tasks to the expected format
-      const tasks: Task[] = voiceTasks.map((task, index) => ({
-        ...task,
-        priority: index + 1
-      }));
-
-      // --- DEBUG --------------------------------------------------------------
-      console.group('[VoiceTaskEntry] handleVoiceTasksCollected');
-      console.log('raw voiceTasks', voiceTasks);
-      console.log('mapped tasks', tasks);
-      // -----------------------------------------------------------------------
-
-      if (!Array.isArray(tasks) || tasks.length === 0) {
-        throw new Error('No tasks to persist');
-      }
-
-      if (tasks.length < 3) {
-        toast({
-          title: "Need more tasks",
-          description: "Please add at least 3 priorities before finalizing",
-          variant: "destructive"
-        });
-        return;
-      }
+  // The agent tools have already persisted the day via `finalizeEntry`, so
+  // this only confirms – saving again here used to create a duplicate record.
+  const handleTasksCollected = () => {
+    toast({
+      title: mode === 'voice' ? 'Voice priorities set! 🎯' : 'Priorities set! 🎯',
+      description: mode === 'voice' ? 'Your daily focus has been captured through voice!' : 'Your daily focus has been captured!',
+      action: undoAction(),
+    });
 
-      const dailyEntry = {
-        date: today,
-        tasks,
-        reflection,
-        timestamp: new Date().toISOString()
-      };
-
-      saveDailyEntry(dailyEntry);
-      updateLastCompleted(today);
-
-      toast({
-        title: 'Voice priorities set! 🎯',
-        description: 'Your daily focus has been captured through voice!'
-      });
-
-      console.groupEnd();
-      onComplete();
-    } catch (err) {
-      console.groupEnd();
-      console.error('[VoiceTaskEntry] Persist failed', err);
-      toast({
-        title: 'Could not save your tasks',
-        description: (err as Error).message ?? 'Unknown error',
-        variant: 'destructive'
-      });
-    }
+    onComplete?.();
   };
 
   return (
@@ -93,7 +40,7 @@ export const VoiceTaskEntry = ({ onComplete }: VoiceTaskEntryProps) => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 gap-3">
+          <div className="grid grid-cols-3 gap-3">
             <Button
               variant={mode === 'voice' ? 'default' : 'outline'}
               onClick={() => setMode('voice')}
@@ -105,6 +52,17 @@ export const VoiceTaskEntry = ({ onComplete }: VoiceTaskEntryProps) => {
                 <div className="text-xs opacity-75">Speak your priorities</div>
               </div>
             </Button>
+            <Button
+              variant={mode === 'typed' ? 'default' : 'outline'}
+              onClick={() => setMode('typed')}
+              className="flex flex-col items-center gap-2 h-auto py-4"
+            >
+              <Terminal className="w-6 h-6" />
+              <div className="text-center">
+                <div className="font-medium">Type Commands</div>
+                <div className="text-xs opacity-75">Tell Jarvis in writing</div>
+              </div>
+            </Button>
             <Button
               variant={mode === 'manual' ? 'default' : 'outline'}
               onClick={() => setMode('manual')}
@@ -131,7 +89,19 @@ export const VoiceTaskEntry = ({ onComplete }: VoiceTaskEntryProps) => {
               Use your voice to easily capture 3-5 tasks that matter most
             </p>
           </div>
-          <VoiceAgent onTasksCollected={handleVoiceTasksCollected} />
+          <VoiceAgent onTasksCollected={handleTasksCollected} />
+        </>
+      ) : mode === 'typed' ? (
+        <>
+          <div className="text-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              Type your priorities for today
+            </h2>
+            <p className="text-gray-600">
+              Same commands as the voice assistant – add, tick off, reorder, reflect and finalize
+            </p>
+          </div>
+          <CommandBar onTasksCollected={handleTasksCollected} />
         </>
       ) : (
         <>
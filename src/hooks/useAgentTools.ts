@@ -0,0 +1,29 @@
+import { useToast } from '@/hooks/use-toast';
+import { useJournal } from '@/hooks/useJournal';
+import { AGENT_TOOLS, type AgentToolName, type ToolResult } from '@/lib/agentTools';
+
+/**
+ * Run agent tools from the UI: the voice agent’s client tools and the
+ * typed command bar go through here, so both show the same notices
+ * (with “Undo” for journaled changes).
+ */
+export const useAgentTools = () => {
+  const { toast } = useToast();
+  const { undoAction } = useJournal();
+
+  const runTool = async (name: AgentToolName, parameters: unknown): Promise<ToolResult> => {
+    const result = await AGENT_TOOLS[name](parameters);
+    const { notice } = result;
+    if (notice) {
+      toast({
+        title: notice.title,
+        description: notice.description,
+        ...(notice.undoable ? { action: undoAction() } : {}),
+        ...(notice.destructive ? { variant: 'destructive' as const } : {}),
+      });
+    }
+    return result;
+  };
+
+  return { runTool };
+};
@@ -0,0 +1,54 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { taskKeys } from '@/hooks/useTaskData';
+import { getEncryptionSettings, getEncryptionStatus, lockStorage } from '@/lib/encryption';
+
+/** Events that count as “the user is still here”. */
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+/** Vault status plus its settings (`settings` is null while encryption is off). */
+export const useEncryption = () =>
+  useQuery({
+    queryKey: taskKeys.encryption(),
+    queryFn: async () => ({
+      status: await getEncryptionStatus(),
+      settings: await getEncryptionSettings(),
+    }),
+  });
+
+/**
+ * Lock after `autoLockMinutes` without interaction and drop every cached
+ * task query once locked, so decrypted data doesn’t linger in memory.
+ * Mount once, near the root.
+ */
+export const useAutoLock = () => {
+  const queryClient = useQueryClient();
+  const { data } = useEncryption();
+  const status = data?.status;
+  const minutes = data?.settings?.autoLockMinutes ?? 0;
+
+  useEffect(() => {
+    if (status !== 'locked') return;
+    queryClient.removeQueries({
+      queryKey: taskKeys.all,
+      predicate: query => query.queryKey[1] !== 'encryption',
+    });
+  }, [status, queryClient]);
+
+  useEffect(() => {
+    if (status !== 'unlocked' || minutes <= 0) return;
+
+    let timer: ReturnType<typeof setTimeout>;
+    const restart = () => {
+      clearTimeout(timer);
+      timer = setTimeout(lockStorage, minutes * 60_000);
+    };
+
+    restart();
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, restart, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, restart));
+    };
+  }, [status, minutes]);
+};
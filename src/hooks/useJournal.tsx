@@ -0,0 +1,97 @@
+import { useCallback, useEffect } from 'react';
+import { ToastAction } from '@/components/ui/toast';
+import { useToast } from '@/hooks/use-toast';
+import { useJournalState } from '@/hooks/useTaskData';
+import { redo as redoMutation, undo as undoMutation } from '@/lib/tasks';
+
+/**
+ * Undo/redo for task mutations, with toast feedback.
+ *
+ * `undoAction()` renders an “Undo” button for a mutation toast; undoing
+ * shows a toast with “Redo” and vice versa, so the user can step back and
+ * forth several times.
+ */
+export const useJournal = () => {
+  const { toast } = useToast();
+  const { data: journal } = useJournalState();
+
+  const step = useCallback(
+    async function step(direction: 'undo' | 'redo'): Promise<void> {
+      const opposite = direction === 'undo' ? 'redo' : 'undo';
+      try {
+        const record = await (direction === 'undo' ? undoMutation() : redoMutation());
+        if (!record) {
+          toast({ title: `Nothing to ${direction}` });
+          return;
+        }
+        toast({
+          title: `${direction === 'undo' ? 'Undone' : 'Redone'}: ${record.label}`,
+          action: (
+            <ToastAction altText={opposite} onClick={() => step(opposite)}>
+              {opposite === 'undo' ? 'Undo' : 'Redo'}
+            </ToastAction>
+          ),
+        });
+      } catch (err) {
+        console.error(`[useJournal] ${direction} failed`, err);
+        toast({
+          title: `Could not ${direction}`,
+          description: (err as Error).message ?? 'Unknown error',
+          variant: 'destructive'
+        });
+      }
+    },
+    [toast],
+  );
+
+  const undo = useCallback(() => step('undo'), [step]);
+  const redo = useCallback(() => step('redo'), [step]);
+
+  /** An “Undo” button to attach to a mutation’s toast. */
+  const undoAction = useCallback(
+    () => (
+      <ToastAction altText="Undo" onClick={() => undo()}>
+        Undo
+      </ToastAction>
+    ),
+    [undo],
+  );
+
+  return {
+    canUndo: (journal?.undo.length ?? 0) > 0,
+    canRedo: (journal?.redo.length ?? 0) > 0,
+    undo,
+    redo,
+    undoAction,
+  };
+};
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Ctrl/⌘+Z undoes, Ctrl/⌘+Shift+Z or Ctrl+Y redoes.  Ignored while the
+ * user is typing so text fields keep their native undo.  Mount once.
+ */
+export const useUndoShortcuts = () => {
+  const { undo, redo } = useJournal();
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTyping(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+};
@@ -0,0 +1,110 @@
+import { useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { taskKeys, useProfiles } from '@/hooks/useTaskData';
+import { subscribeToDataChanges } from '@/lib/changeFeed';
+import { getSyncConfig, getSyncStatus, subscribeToSyncStatus, syncNow } from '@/lib/sync';
+
+/** Push local edits this long after the last one. */
+const PUSH_DEBOUNCE_MS = 3_000;
+
+/** First retry after a failed run; doubles with every further failure… */
+const RETRY_BASE_MS = 15_000;
+/** …up to this. */
+const RETRY_MAX_MS = 30 * 60_000;
+
+/** Sync state of the active profile (refreshes with every data change and sync run). */
+export const useSyncStatus = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () => subscribeToSyncStatus(() => queryClient.invalidateQueries({ queryKey: taskKeys.sync() })),
+    [queryClient],
+  );
+
+  return useQuery({ queryKey: taskKeys.sync(), queryFn: getSyncStatus });
+};
+
+/**
+ * Keep the active profile in sync while the app is open: on start, on
+ * the configured interval, when the device comes back online or the app
+ * returns to the foreground, and shortly after local edits.  Mount once.
+ *
+ * Nothing runs while the browser reports being offline, and after a
+ * failed run automatic attempts back off exponentially until one
+ * succeeds (coming back online retries straight away).
+ */
+export const useAutoSync = () => {
+  const { data: status } = useSyncStatus();
+  const { data: profiles } = useProfiles();
+  const enabled = !!status && status.state !== 'disabled';
+  const profileId = profiles?.activeId;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let interval: ReturnType<typeof setInterval> | undefined;
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+    let backoffUntil = 0;
+    let stopped = false;
+
+    const attempt = async () => {
+      await syncNow();
+      if (stopped) return;
+      const { state } = await getSyncStatus();
+      clearTimeout(retry);
+      if (state === 'offline' || state === 'error') {
+        const delay = Math.min(RETRY_BASE_MS * 2 ** failures, RETRY_MAX_MS);
+        failures++;
+        backoffUntil = Date.now() + delay;
+        retry = setTimeout(run, delay);
+      } else {
+        failures = 0;
+        backoffUntil = 0;
+      }
+    };
+
+    const run = () => {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+      if (Date.now() < backoffUntil) return;
+      attempt();
+    };
+
+    const onOnline = () => {
+      backoffUntil = 0;
+      run();
+    };
+
+    const start = async () => {
+      const config = await getSyncConfig();
+      if (!config || stopped) return;
+      run();
+      interval = setInterval(run, config.intervalMinutes * 60_000);
+    };
+    start();
+
+    const onVisible = () => document.visibilityState === 'visible' && run();
+    window.addEventListener('online', onOnline);
+    document.addEventListener('visibilitychange', onVisible);
+
+    // Edits made here queue changes; push them once the user pauses
+    const unsubscribe = subscribeToDataChanges(({ source }) => {
+      if (source !== 'local') return;
+      clearTimeout(debounce);
+      debounce = setTimeout(async () => {
+        if ((await getSyncStatus()).pending > 0) run();
+      }, PUSH_DEBOUNCE_MS);
+    });
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+      clearTimeout(debounce);
+      clearTimeout(retry);
+      window.removeEventListener('online', onOnline);
+      document.removeEventListener('visibilitychange', onVisible);
+      unsubscribe();
+    };
+  }, [enabled, profileId]);
+};
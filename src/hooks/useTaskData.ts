@@ -0,0 +1,169 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { subscribeToDataChanges } from '@/lib/changeFeed';
+import { streakLength, todayKey } from '@/lib/dates';
+import { getProfiles } from '@/lib/profiles';
+import { getPrioritizationSettings, rankTasks, type RankedTask } from '@/lib/prioritization';
+import { generateRecurringTasks, getRecurringTasks } from '@/lib/recurring';
+import { activeCategories, getCategories } from '@/lib/categories';
+import { getGoals } from '@/lib/goals';
+import { buildAgentPrompt, getJargonLevel } from '@/lib/agentPrompt';
+import {
+  getDailyEntries,
+  getEntryForDate,
+  getJournal,
+  getLastCompletedDate,
+  getPendingRollover,
+  getQuarantinedRecords,
+  type Task,
+} from '@/lib/tasks';
+
+/**
+ * React Query views over `@/lib/tasks`.
+ *
+ * All keys live under `['tasks', …]` so a single invalidation refreshes
+ * every view.  `useLiveTaskData()` (mounted once, in `Index`) performs
+ * that invalidation whenever the change feed reports a write – from this
+ * tab or any other.
+ */
+
+export const taskKeys = {
+  all: ['tasks'] as const,
+  entries: () => [...taskKeys.all, 'entries'] as const,
+  entry: (date: string) => [...taskKeys.all, 'entry', date] as const,
+  lastCompleted: () => [...taskKeys.all, 'lastCompleted'] as const,
+  quarantine: () => [...taskKeys.all, 'quarantine'] as const,
+  journal: () => [...taskKeys.all, 'journal'] as const,
+  encryption: () => [...taskKeys.all, 'encryption'] as const,
+  profiles: () => [...taskKeys.all, 'profiles'] as const,
+  sync: () => [...taskKeys.all, 'sync'] as const,
+  prioritization: () => [...taskKeys.all, 'prioritization'] as const,
+  rollover: (date: string) => [...taskKeys.all, 'rollover', date] as const,
+  recurring: () => [...taskKeys.all, 'recurring'] as const,
+  categories: () => [...taskKeys.all, 'categories'] as const,
+  goals: () => [...taskKeys.all, 'goals'] as const,
+  agentPrompt: () => [...taskKeys.all, 'agentPrompt'] as const,
+  jargonLevel: () => [...taskKeys.all, 'jargonLevel'] as const,
+};
+
+/** Keep every task query fresh; call once near the root of the app. */
+export const useLiveTaskData = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(
+    () =>
+      subscribeToDataChanges(() => {
+        queryClient.invalidateQueries({ queryKey: taskKeys.all });
+      }),
+    [queryClient],
+  );
+};
+
+/** Every stored DailyEntry (oldest → newest). */
+export const useDailyEntries = () =>
+  useQuery({ queryKey: taskKeys.entries(), queryFn: getDailyEntries });
+
+/** The stored entry for `date` (defaults to today), or `null`. */
+export const useEntryForDate = (date: string = todayKey()) =>
+  useQuery({
+    queryKey: taskKeys.entry(date),
+    queryFn: async () => (await getEntryForDate(date)) ?? null,
+  });
+
+/** Today’s tasks (empty array while loading or if none). */
+export const useTodayTasks = () => {
+  const { data, ...rest } = useEntryForDate(todayKey());
+  return { ...rest, data: data?.tasks ?? [] };
+};
+
+/** Consecutive planned days up to today (or yesterday) in the active profile. */
+export const useStreak = () => {
+  const { data: entries } = useDailyEntries();
+  return useMemo(
+    () => streakLength((entries ?? []).filter(e => e.tasks.length > 0).map(e => e.date)),
+    [entries],
+  );
+};
+
+/** Date key of the last day whose plan was locked in. */
+export const useLastCompleted = () =>
+  useQuery({ queryKey: taskKeys.lastCompleted(), queryFn: getLastCompletedDate });
+
+/** Records set aside by validation. */
+export const useQuarantinedRecords = () =>
+  useQuery({ queryKey: taskKeys.quarantine(), queryFn: getQuarantinedRecords });
+
+/** Undo/redo stacks. */
+export const useJournalState = () =>
+  useQuery({ queryKey: taskKeys.journal(), queryFn: getJournal });
+
+/** Profiles on this device and the active one’s id. */
+export const useProfiles = () =>
+  useQuery({ queryKey: taskKeys.profiles(), queryFn: async () => getProfiles() });
+
+/** The chosen prioritization strategy and its settings. */
+export const usePrioritizationSettings = () =>
+  useQuery({ queryKey: taskKeys.prioritization(), queryFn: getPrioritizationSettings });
+
+/** `tasks` ranked with the chosen strategy, by task id (empty while loading). */
+export const useRanking = (tasks: Task[]) => {
+  const { data: settings } = usePrioritizationSettings();
+  return useMemo(
+    () => new Map<string, RankedTask>(settings ? rankTasks(tasks, settings).map(r => [r.task.id, r]) : []),
+    [tasks, settings],
+  );
+};
+
+/** Unfinished tasks from the last planned day that still need a carry / drop decision. */
+export const usePendingRollover = (today: string = todayKey()) =>
+  useQuery({ queryKey: taskKeys.rollover(today), queryFn: () => getPendingRollover(today) });
+
+/** Recurring task templates. */
+export const useRecurringTasks = () =>
+  useQuery({ queryKey: taskKeys.recurring(), queryFn: getRecurringTasks });
+
+/**
+ * Drop today’s recurring instances into today’s plan – on load, whenever
+ * the templates change and when the app comes back to the foreground
+ * (which may be a new day).  Call once, in `Index`.
+ */
+export const useRecurringGeneration = () => {
+  const { data: templates } = useRecurringTasks();
+
+  useEffect(() => {
+    if (!templates?.length) return;
+    const run = () => {
+      generateRecurringTasks(todayKey()).catch(err =>
+        console.error('[useRecurringGeneration] Could not generate recurring tasks', err),
+      );
+    };
+    run();
+
+    const onVisible = () => document.visibilityState === 'visible' && run();
+    document.addEventListener('visibilitychange', onVisible);
+    return () => document.removeEventListener('visibilitychange', onVisible);
+  }, [templates]);
+};
+
+/** Every category, archived ones included (they still label old tasks). */
+export const useCategories = () =>
+  useQuery({ queryKey: taskKeys.categories(), queryFn: getCategories });
+
+/** `current` if it is still pickable, else the first active category’s id. */
+export const useDefaultCategory = (current: string | undefined): string | undefined => {
+  const { data: categories = [] } = useCategories();
+  const active = activeCategories(categories);
+  return active.some(c => c.id === current) ? current : active[0]?.id;
+};
+
+/** Every goal, archived and past ones included (old tasks still link to them). */
+export const useGoals = () =>
+  useQuery({ queryKey: taskKeys.goals(), queryFn: getGoals });
+
+/** How much jargon the voice agent uses; `null` until chosen. */
+export const useJargonLevel = () =>
+  useQuery({ queryKey: taskKeys.jargonLevel(), queryFn: getJargonLevel });
+
+/** The voice agent’s prompt as a session starting now would get it. */
+export const useAgentPrompt = () =>
+  useQuery({ queryKey: taskKeys.agentPrompt(), queryFn: buildAgentPrompt });
@@ -0,0 +1,68 @@
+import { useCallback, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { todayKey } from '@/lib/dates';
+import { saveTranscript, type Transcript, type TranscriptEvent } from '@/lib/tasks';
+
+/** Longest tool result kept in a transcript; replies that read back a whole list get trimmed. */
+const MAX_RESULT_LENGTH = 500;
+
+type NewEvent =
+  | { source: 'user' | 'agent'; text: string }
+  | { source: 'tool'; tool: string; parameters: unknown; result: unknown };
+
+/**
+ * Record one voice session: messages and tool calls are timestamped as
+ * they happen and kept in state for the live view.  `save()` writes the
+ * transcript onto the day the session started (later saves replace it),
+ * so it can be called after every tool call and again at the end.
+ */
+export const useTranscriptRecorder = (provider: string) => {
+  const [transcript, setTranscript] = useState<Transcript>(() => ({
+    id: uuidv4(),
+    provider,
+    startedAt: new Date().toISOString(),
+    events: [],
+  }));
+  const date = useRef(todayKey());
+  // Callbacks fire outside React’s render cycle – keep the latest copy at hand
+  const latest = useRef(transcript);
+
+  const update = useCallback((change: (current: Transcript) => Transcript) => {
+    latest.current = change(latest.current);
+    setTranscript(latest.current);
+  }, []);
+
+  const record = useCallback(
+    (event: NewEvent) => {
+      const at = new Date().toISOString();
+      const next: TranscriptEvent =
+        event.source === 'tool'
+          ? {
+              at,
+              source: 'tool',
+              tool: event.tool,
+              parameters: event.parameters && typeof event.parameters === 'object' ? { ...event.parameters } : {},
+              result: String(event.result ?? '').slice(0, MAX_RESULT_LENGTH),
+            }
+          : { at, source: event.source, text: event.text };
+      update(current => ({ ...current, events: [...current.events, next] }));
+    },
+    [update],
+  );
+
+  const save = useCallback(
+    async ({ ended = false } = {}) => {
+      if (ended && !latest.current.endedAt) update(current => ({ ...current, endedAt: new Date().toISOString() }));
+      if (latest.current.events.length === 0) return;
+      try {
+        await saveTranscript(latest.current, date.current);
+      } catch (err) {
+        // Losing the transcript must never interrupt the conversation itself
+        console.error('[useTranscriptRecorder] Could not save transcript', err);
+      }
+    },
+    [update],
+  );
+
+  return { transcript, record, save };
+};
@@ -5,8 +5,28 @@
  * without hunting through component code, and lets other services
  * (e.g. VoiceAgent, onboarding wizards, tests) import the same string
  * for perfect consistency.
+ *
+ * `AGENT_PROMPT` is a template: `{{today_tasks}}`, `{{streak}}` and the
+ * other placeholders are ElevenLabs dynamic variables, filled in from the
+ * user’s data when a session starts (`buildAgentPrompt`).  The same
+ * values are substituted locally for the prompt preview in settings.
  */
 
+import { findCategory, getCategories } from '@/lib/categories';
+import { daysBetween, parseDateKey, streakLength, todayKey } from '@/lib/dates';
+import { formatDue } from '@/lib/deadlines';
+import { getGoals } from '@/lib/goals';
+import {
+  QUADRANTS,
+  getDailyEntries,
+  getMetaValue,
+  quadrantOf,
+  setMetaValue,
+  type DailyEntry,
+  type Task,
+} from '@/lib/tasks';
+import type { Category, Goal } from '@/lib/schema';
+
 export const AGENT_PROMPT = `
 # Personality
 You are **“Jarvis”** – a calm, quick‑witted productivity mentor with roots in behavioural science and world‑class software engineering.
@@ -16,14 +36,25 @@ Humour is light and situational; sarcasm is gentle, never mocking.
 
 # Environment
 • The user is inside **JarvisApp**, a personal task‑capture and Eisenhower‑matrix planner.  
-• You have API access to the user’s task list, due‑dates, voice‑notes, and urgency/importance scores.  
+• You start with the snapshot of the user’s data under “Context” (as it was when the call began) and have tools to read and change today’s list – call \`listTodayTasks\` when you need the latest state.  
 • The session is **voice‑first** (text‑to‑speech ↔ speech‑to‑text). All replies are spoken and mirrored in an on‑screen transcript.
 
+# Context
+• Today is {{today_date}}. Planning streak: {{streak}} day(s) in a row.  
+• Jargon level: {{jargon_level}} – {{jargon_guidance}}  
+• Today’s list so far:  
+{{today_tasks}}  
+• Left unfinished yesterday:  
+{{unfinished_yesterday}}  
+• Recent reflections:  
+{{recent_reflections}}
+
 # First utterance
-“Hello, my name is Jarvis – I’m your personal assistant… Before we dive in, are you comfortable with Eisenhower‑Matrix lingo, or should I keep things high‑level? … Let me know and we’ll capture your first task.”
+If the jargon level is “not set”: “Hello, my name is Jarvis – I’m your personal assistant… Before we dive in, are you comfortable with Eisenhower‑Matrix lingo, or should I keep things high‑level? … Let me know and we’ll capture your first task.”  
+Otherwise greet the user briefly, mention one thing from the context that matters today (a streak worth celebrating, something left unfinished yesterday), and ask for their first task.
 
 # Tone & Conversational Style
-1. **Adaptive** – early on, lightly probe skill level: “Quick check – are you comfy with GTD jargon, or should I keep it high‑level?”  
+1. **Adaptive** – match the jargon level above. If it’s not set, or the user asks for more or less detail, call \`setJargonLevel\` with “plain”, “balanced” or “expert”.  
 2. **Succinct** – keep replies to ≤ 3 spoken sentences unless teaching a concept.  
 3. **Natural flow cues** – sprinkle brief affirmations (“got it… sure thing”), mild fillers (“so, uh”), and audible pauses (“…”) for warmth.  
 4. **Empathetic reframing** – if frustration surfaces, start with acknowledgement (“Ugh… deadlines creep up – let’s tame them together”).  
@@ -31,6 +62,12 @@ Humour is light and situational; sarcasm is gentle, never mocking.
 
 # Goals
 • Rapidly capture tasks exactly as spoken, confirm back for accuracy, and file them into the correct quadrant.  
+• When calling \`addTask\`, pass \`urgent\` and \`important\` (true / false) alongside the text and category. If the user didn’t make either clear, ask one short question (“Is that due soon? … Does it move a bigger goal forward?”) rather than guessing.  
+• \`category\` is the name of one of the user’s categories (Personal and Professional unless they’ve made their own). If \`addTask\` says the category is unknown, read out the choices it lists and ask. Pass \`tags\` (a list of short words) only when the user tags a task themselves.  
+• If the user mentions when something is due, also pass \`dueAt\` (ISO 8601 date and time with offset) and \`deadlineType\` – “hard” when it truly can’t slip, otherwise “soft”.  
+• Early in the session call \`getGoalAlignment\` to learn the user’s goals and how today’s plan lines up with them. When a task clearly serves one, pass its title as \`goal\` to \`addTask\`; when it’s unclear, ask once (“Does that move one of your goals forward?”). If most of today is unlinked, say so gently and ask whether something goal‑related deserves a slot.  
+• When the user breaks a task into steps, call \`addSubtask\` once per step with \`task\` (the task’s name as they said it) and \`text\` (the step). If no single task matches, ask which one they meant.  
+• Manage the list by voice: \`listTodayTasks\` reads it back; \`removeTask\`, \`completeTask\` (\`completed: false\` reopens), \`reorderTask\` (\`position\` 1–5, “top” or “bottom”), \`setUrgencyImportance\` and \`editTask\` (new \`text\`, \`category\`, \`dueAt\` – \`null\` clears it –, \`deadlineType\` or \`goal\`) each take \`task\`: the task as the user referred to it (“the gym”, “the second one”). If a tool answers with a question (“Did you mean …?”), ask the user exactly that and call it again with their answer – never guess.  
 • Proactively surface today’s critical‑but‑unfinished tasks and suggest next actions.  
 • Teach Eisenhower prioritisation in plain language when users seem unsure.  
 • Encourage reflection: celebrate streaks, nudge when tasks linger untouched.
@@ -50,6 +87,123 @@ Humour is light and situational; sarcasm is gentle, never mocking.
 • Inject subtle disfluencies sparingly to sound human, never every line.
 `;
 
+/* ------------------------------------------------------------------ *
+ *  Dynamic variables                                                 *
+ * ------------------------------------------------------------------ */
+
+/** How much framework vocabulary Jarvis uses with this user. */
+export const JARGON_LEVELS = ['plain', 'balanced', 'expert'] as const;
+export type JargonLevel = (typeof JARGON_LEVELS)[number];
+
+export const JARGON_LABELS: Record<JargonLevel, string> = {
+  plain: 'Plain language',
+  balanced: 'Some terms, explained',
+  expert: 'Expert – all the jargon',
+};
+
+const JARGON_GUIDANCE: Record<JargonLevel | 'unset', string> = {
+  unset: 'ask once, early on, then call `setJargonLevel`.',
+  plain: 'avoid framework names; say “do it now”, “plan it”, “hand it off” or “drop it” instead of quadrant terms.',
+  balanced: 'name the Eisenhower quadrants, and explain a term the first time it comes up.',
+  expert: 'use Eisenhower, GTD and OKR vocabulary freely and skip the explanations.',
+};
+
+export const JARGON_LEVEL_KEY = 'jargonLevel';
+
+/** How many earlier reflections the agent is told about. */
+export const MAX_PROMPT_REFLECTIONS = 3;
+
+/** The user’s stored preference, or `null` while Jarvis should still ask. */
+export async function getJargonLevel(): Promise<JargonLevel | null> {
+  const stored = await getMetaValue(JARGON_LEVEL_KEY);
+  return JARGON_LEVELS.includes(stored as JargonLevel) ? (stored as JargonLevel) : null;
+}
+
+export async function setJargonLevel(level: JargonLevel): Promise<void> {
+  if (!JARGON_LEVELS.includes(level)) throw new Error(`[agentPrompt] Unknown jargon level “${level}”`);
+  await setMetaValue(JARGON_LEVEL_KEY, level);
+}
+
+/** Values for the template’s `{{placeholders}}`. */
+export type PromptVariables = Record<string, string | number>;
+
+export interface PromptContext {
+  entries: DailyEntry[];
+  categories: Category[];
+  goals: Goal[];
+  jargon: JargonLevel | null;
+}
+
+const spokenDay = (date: string) =>
+  parseDateKey(date).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+function describeTask(task: Task, index: number, { categories, goals }: PromptContext): string {
+  const goal = task.goalId ? goals.find(g => g.id === task.goalId) : undefined;
+  const details = [
+    QUADRANTS[quadrantOf(task)].label,
+    findCategory(categories, task.category)?.name ?? task.category,
+    task.dueAt && !task.completed && `due ${formatDue(task.dueAt)}${task.deadlineType === 'hard' ? ' (hard)' : ''}`,
+    goal && `towards “${goal.title}”`,
+    task.completed && 'done',
+  ].filter(Boolean);
+  return `  ${index + 1}. ${task.text} – ${details.join(', ')}`;
+}
+
+/** Fill every placeholder in `AGENT_PROMPT` from `context`, as of `today`. */
+export function promptVariables(context: PromptContext, today: string = todayKey()): PromptVariables {
+  const { entries, jargon } = context;
+  const todayEntry = entries.find(e => e.date === today);
+  const yesterday = entries.find(e => daysBetween(e.date, today) === 1);
+  const unfinished = (yesterday?.tasks ?? []).filter(t => !t.completed && t.rolledOver !== 'dropped');
+  const reflections = entries
+    .filter(e => e.date < today && e.reflection)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_PROMPT_REFLECTIONS);
+
+  return {
+    today_date: spokenDay(today),
+    streak: streakLength(entries.filter(e => e.tasks.length > 0).map(e => e.date), today),
+    jargon_level: jargon ?? 'not set',
+    jargon_guidance: JARGON_GUIDANCE[jargon ?? 'unset'],
+    today_tasks: todayEntry?.tasks.length
+      ? todayEntry.tasks.map((t, i) => describeTask(t, i, context)).join('\n')
+      : '  (nothing yet)',
+    unfinished_yesterday: !yesterday
+      ? '  (no plan was made yesterday)'
+      : unfinished.length
+        ? unfinished.map((t, i) => describeTask(t, i, context)).join('\n')
+        : '  (nothing – everything got done)',
+    recent_reflections: reflections.length
+      ? reflections.map(e => `  ${spokenDay(e.date)}: “${e.reflection}”`).join('\n')
+      : '  (none yet)',
+  };
+}
+
+/** Substitute `{{name}}` placeholders; unknown ones are left as they are. */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{(\w+)\}\}/g, (match, name: string) => (name in variables ? String(variables[name]) : match));
+}
+
+export interface AgentPrompt {
+  /** `AGENT_PROMPT` with its placeholders – what the live agent receives */
+  template: string;
+  variables: PromptVariables;
+  /** the template with `variables` filled in, for previews and offline providers */
+  rendered: string;
+}
+
+/** The prompt for a session starting now, from the active profile’s data. */
+export async function buildAgentPrompt(): Promise<AgentPrompt> {
+  const [entries, categories, goals, jargon] = await Promise.all([
+    getDailyEntries(),
+    getCategories(),
+    getGoals(),
+    getJargonLevel(),
+  ]);
+  const variables = promptVariables({ entries, categories, goals, jargon });
+  return { template: AGENT_PROMPT, variables, rendered: renderPrompt(AGENT_PROMPT, variables) };
+}
+
 /**
  * Alias: some components import JARVIS_PROMPT.  Export the same string under that name
  * to avoid import errors without refactoring every caller.
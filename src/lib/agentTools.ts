@@ -0,0 +1,416 @@
+/**
+ * Task‑management tools for the Jarvis voice agent (its `clientTools`),
+ * shared with the typed command bar.
+ *
+ * Every handler takes the raw, untrusted parameters of a tool call,
+ * validates them, persists through `@/lib/tasks` and resolves to a
+ * sentence the agent can speak back – plus an optional notice for the UI
+ * to show.  Handlers never throw: a failure becomes a reply the agent can
+ * relay, so the conversation keeps going.
+ *
+ * Tasks are referred to the way the user said them (“the gym”, “the
+ * second one”) and resolved with `matchTask`; when that is ambiguous the
+ * reply asks which task was meant instead of guessing.
+ */
+
+import { z } from 'zod';
+import { JARGON_LABELS, JARGON_LEVELS, setJargonLevel, type JargonLevel } from '@/lib/agentPrompt';
+import { activeCategories, findCategory, getCategories } from '@/lib/categories';
+import { formatDue } from '@/lib/deadlines';
+import {
+  activeGoals,
+  dayAlignment,
+  findGoal,
+  formatAlignment,
+  formatPeriod,
+  getGoals,
+  resolveGoalId,
+  weekAlignment,
+} from '@/lib/goals';
+import { matchTask } from '@/lib/taskMatch';
+import {
+  DEADLINE_TYPES,
+  QUADRANTS,
+  SubtaskInputSchema,
+  TaskInputSchema,
+  addSubtask,
+  addTask,
+  editTask,
+  finalizeEntry,
+  getDailyEntries,
+  getTodayTasks,
+  quadrantOf,
+  removeTask,
+  reorderTask,
+  setDayReflection,
+  setTaskCompleted,
+  type DailyEntry,
+  type SubtaskInput,
+  type Task,
+  type TaskChanges,
+  type TaskInput,
+} from '@/lib/tasks';
+
+/** Something worth showing on screen alongside the spoken reply. */
+export interface ToolNotice {
+  title: string;
+  description?: string;
+  /** the change went through the undo journal, so offer “Undo” */
+  undoable?: boolean;
+  destructive?: boolean;
+}
+
+export interface ToolResult {
+  reply: string;
+  notice?: ToolNotice;
+  /** set when the call locked the day in – capture screens hand over to the day view */
+  finalized?: DailyEntry;
+}
+
+export type ToolHandler = (parameters: unknown) => Promise<ToolResult>;
+
+/* ------------------------------------------------------------------ *
+ *  Parameters                                                        *
+ * ------------------------------------------------------------------ */
+
+const TaskReferenceSchema = z.object({
+  task: z.string().trim().min(1, 'task is required'),
+});
+
+const EditTaskSchema = TaskReferenceSchema.extend({
+  text: z.string().trim().min(1).optional(),
+  category: z.string().trim().min(1).optional(),
+  /** ISO timestamp, or `null` to clear the deadline */
+  dueAt: z.string().datetime({ offset: true }).nullable().optional(),
+  deadlineType: z.enum(DEADLINE_TYPES).optional(),
+  /** goal title, or `null` to unlink */
+  goal: z.string().trim().min(1).nullable().optional(),
+}).refine(
+  p => [p.text, p.category, p.dueAt, p.deadlineType, p.goal].some(v => v !== undefined),
+  'nothing to change',
+);
+
+const CompleteTaskSchema = TaskReferenceSchema.extend({
+  completed: z.boolean().optional(),
+});
+
+const ReorderTaskSchema = TaskReferenceSchema.extend({
+  /** 1‑based position, or “top” / “bottom” */
+  position: z.union([z.enum(['top', 'bottom']), z.coerce.number().int().positive()]),
+});
+
+const UrgencyImportanceSchema = TaskReferenceSchema.extend({
+  urgent: z.boolean().optional(),
+  important: z.boolean().optional(),
+}).refine(p => p.urgent !== undefined || p.important !== undefined, 'urgent or important is required');
+
+const ReflectionSchema = z.object({
+  reflection: z.string().trim().min(1, 'reflection is required'),
+});
+
+const JargonLevelSchema = z.object({
+  level: z.enum(JARGON_LEVELS),
+});
+
+/* ------------------------------------------------------------------ *
+ *  Spoken helpers                                                    *
+ * ------------------------------------------------------------------ */
+
+/** `[tasks] editTask: text: …` → `text: …` */
+const spokenError = (err: unknown) =>
+  ((err as Error)?.message ?? 'something went wrong').replace(/^\[[\w-]+\]\s*(\w+:\s*)?/, '');
+
+/** “A”, “A or B”, “A, B or C” (with `word` = “or”) */
+const joinList = (items: string[], word: 'and' | 'or') =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} ${word} ${items[items.length - 1]}`;
+
+const quote = (text: string) => `"${text}"`;
+
+function describeList(tasks: Task[]): string {
+  if (tasks.length === 0) return 'Today’s list is empty.';
+  const items = tasks.map((t, idx) => {
+    const state = t.completed
+      ? 'done'
+      : [QUADRANTS[quadrantOf(t)].label, t.dueAt && `due ${formatDue(t.dueAt)}`].filter(Boolean).join(', ');
+    return `${idx + 1}, ${quote(t.text)} – ${state}`;
+  });
+  return `You have ${tasks.length} task${tasks.length === 1 ? '' : 's'} today: ${items.join('; ')}.`;
+}
+
+/** Today’s task `reference` names, or the reply to give when it can’t be pinned down. */
+async function resolveTask(reference: string): Promise<{ task: Task; tasks: Task[] } | { reply: string }> {
+  const tasks = await getTodayTasks();
+  const match = matchTask(tasks, reference);
+  if (match.kind === 'found') return { task: match.task, tasks };
+  if (match.kind === 'ambiguous') {
+    return { reply: `Did you mean ${joinList(match.candidates.map(t => quote(t.text)), 'or')}?` };
+  }
+  return { reply: `I couldn’t find ${quote(reference)} on today’s list. ${describeList(tasks)}` };
+}
+
+/** Parse `parameters`, resolve the task they name, then run `action`. */
+async function withTask<S extends z.ZodType<{ task?: string }>>(
+  schema: S,
+  parameters: unknown,
+  invalid: string,
+  action: (task: Task, params: z.infer<S>, tasks: Task[]) => Promise<ToolResult>,
+): Promise<ToolResult> {
+  const parsed = schema.safeParse(parameters);
+  if (!parsed.success) {
+    console.warn('[agentTools] Invalid tool call', parameters, parsed.error.issues);
+    return { reply: invalid };
+  }
+  const params: z.infer<S> = parsed.data;
+  const resolved = await resolveTask(params.task);
+  if ('reply' in resolved) return resolved;
+  try {
+    return await action(resolved.task, params, resolved.tasks);
+  } catch (err) {
+    console.error('[agentTools] Tool failed', err);
+    return { reply: `Sorry, that didn’t work: ${spokenError(err)}.` };
+  }
+}
+
+/* ------------------------------------------------------------------ *
+ *  Tools                                                             *
+ * ------------------------------------------------------------------ */
+
+const addTaskTool: ToolHandler = async parameters => {
+  // 🛡️ Validate the raw tool call against the shared task schema
+  const parsed = TaskInputSchema.safeParse(parameters);
+  if (!parsed.success) {
+    console.warn('[agentTools] Invalid addTask call', parameters, parsed.error.issues);
+    const badCategory = parsed.error.issues.some(i => i.path[0] === 'category');
+    return badCategory
+      ? {
+          reply: 'Sorry, I didn’t catch which category that belongs to.',
+          notice: { title: 'Unknown category', description: 'Please say which category the task belongs to.', destructive: true },
+        }
+      : {
+          reply: 'Sorry, I didn’t catch the task itself. Could you repeat it?',
+          notice: { title: 'Task not added', description: 'I didn’t catch the task itself – please say it again.', destructive: true },
+        };
+  }
+  const input = parsed.data as TaskInput;
+
+  // Persist (validated again on write; category and goal names are resolved there)
+  let task: Task;
+  try {
+    task = await addTask(input);
+  } catch (err) {
+    console.warn('[agentTools] Could not add task', err);
+    const categories = await getCategories();
+    if (!findCategory(categories, input.category)) {
+      const names = activeCategories(categories).map(c => c.name).join(', ');
+      return {
+        reply: `There’s no ${quote(input.category)} category. The categories are: ${names}. Which one fits?`,
+        notice: { title: 'Unknown category', description: `Categories: ${names}`, destructive: true },
+      };
+    }
+    const goals = await getGoals();
+    if (input.goal && !findGoal(goals, input.goal)) {
+      const titles = activeGoals(goals).map(g => g.title).join(', ');
+      return {
+        reply: titles
+          ? `I couldn’t tell which goal ${quote(input.goal)} is. The goals are: ${titles}. Which one does it serve – or none?`
+          : 'There are no goals set yet, so I can’t link it to one. Shall I add it without a goal?',
+      };
+    }
+    return { reply: `Sorry, I couldn’t add that task: ${spokenError(err)}.` };
+  }
+
+  const count = (await getTodayTasks()).length;
+  const quadrant = QUADRANTS[quadrantOf(task)].label;
+  const category = findCategory(await getCategories(), task.category)?.name ?? task.category;
+  const goal = task.goalId ? (await getGoals()).find(g => g.id === task.goalId) : undefined;
+  return {
+    reply: `Task ${quote(input.text)} has been added to your ${category} priorities, in the ${quadrant} quadrant${goal ? `, towards ${quote(goal.title)}` : ''}.`,
+    notice: count <= 5 ? { title: 'Task added! ✅', description: input.text, undoable: true } : undefined,
+  };
+};
+
+const addSubtaskTool: ToolHandler = async parameters => {
+  const parsed = SubtaskInputSchema.safeParse(parameters);
+  if (!parsed.success) {
+    console.warn('[agentTools] Invalid addSubtask call', parameters, parsed.error.issues);
+    return { reply: 'Sorry, I need both the task and the step to add to it.' };
+  }
+  const input = parsed.data as SubtaskInput;
+  const resolved = await resolveTask(input.task);
+  if ('reply' in resolved) return resolved;
+  const { task } = resolved;
+
+  try {
+    await addSubtask(task.id, input.text);
+  } catch (err) {
+    console.error('[agentTools] Could not add step', err);
+    return { reply: `Sorry, I couldn’t add that step: ${spokenError(err)}.` };
+  }
+  const step = (task.subtasks?.length ?? 0) + 1;
+  return {
+    reply: `Added ${quote(input.text)} as step ${step} of ${quote(task.text)}.`,
+    notice: { title: 'Step added ✅', description: `${task.text} → ${input.text}`, undoable: true },
+  };
+};
+
+const listTodayTasksTool: ToolHandler = async () => ({ reply: describeList(await getTodayTasks()) });
+
+const removeTaskTool: ToolHandler = parameters =>
+  withTask(TaskReferenceSchema, parameters, 'Which task should I remove?', async task => {
+    await removeTask(task.id);
+    return {
+      reply: `Removed ${quote(task.text)} from today’s list.`,
+      notice: { title: 'Task removed', description: task.text, undoable: true },
+    };
+  });
+
+const editTaskTool: ToolHandler = parameters =>
+  withTask(EditTaskSchema, parameters, 'Which task should I change, and what should change?', async (task, p) => {
+    const changes: TaskChanges = {};
+    if (p.text) changes.text = p.text;
+    if (p.category) changes.category = p.category;
+    if (p.dueAt !== undefined) changes.dueAt = p.dueAt;
+    if (p.deadlineType) changes.deadlineType = p.deadlineType;
+    if (p.goal !== undefined) changes.goalId = p.goal === null ? null : await resolveGoalId(p.goal);
+
+    const edited = await editTask(task.id, changes);
+    const said = [
+      p.text && `renamed it to ${quote(edited.text)}`,
+      p.category && `moved it to ${findCategory(await getCategories(), edited.category)?.name ?? p.category}`,
+      p.dueAt === null && 'cleared its deadline',
+      edited.dueAt && (p.dueAt || p.deadlineType) && `set a ${edited.deadlineType} deadline for ${formatDue(edited.dueAt)}`,
+      p.goal === null && 'unlinked its goal',
+      p.goal && `linked it to ${quote((await getGoals()).find(g => g.id === edited.goalId)?.title ?? p.goal)}`,
+    ].filter(Boolean);
+    return {
+      reply: `Done – for ${quote(task.text)} I ${joinList(said as string[], 'and')}.`,
+      notice: { title: 'Task updated', description: edited.text, undoable: true },
+    };
+  });
+
+const completeTaskTool: ToolHandler = parameters =>
+  withTask(CompleteTaskSchema, parameters, 'Which task did you finish?', async (task, p, tasks) => {
+    const completed = p.completed ?? true;
+    if (task.completed === completed) {
+      return { reply: `${quote(task.text)} is already ${completed ? 'done' : 'open'}.` };
+    }
+    await setTaskCompleted(task.id, completed);
+    const done = tasks.filter(t => (t.id === task.id ? completed : t.completed)).length;
+    return {
+      reply: completed
+        ? `Marked ${quote(task.text)} done – that’s ${done} of ${tasks.length} for today.`
+        : `Reopened ${quote(task.text)}.`,
+      notice: { title: completed ? 'Nice – one down! ✅' : 'Task reopened', description: task.text, undoable: true },
+    };
+  });
+
+const reorderTaskTool: ToolHandler = parameters =>
+  withTask(ReorderTaskSchema, parameters, 'Which task should I move, and to which position?', async (task, p, tasks) => {
+    const index = p.position === 'top' ? 0 : p.position === 'bottom' ? tasks.length - 1 : Math.min(p.position, tasks.length) - 1;
+    await reorderTask(task.id, index);
+    const where = index === 0 ? 'the top' : index === tasks.length - 1 ? 'the bottom' : `position ${index + 1}`;
+    return {
+      reply: `Moved ${quote(task.text)} to ${where} of today’s list.`,
+      notice: { title: 'Tasks reordered', description: task.text, undoable: true },
+    };
+  });
+
+const setUrgencyImportanceTool: ToolHandler = parameters =>
+  withTask(UrgencyImportanceSchema, parameters, 'Which task, and is it urgent, important, or both?', async (task, p) => {
+    const edited = await editTask(task.id, {
+      ...(p.urgent !== undefined ? { urgent: p.urgent } : {}),
+      ...(p.important !== undefined ? { important: p.important } : {}),
+    });
+    const flags = `${edited.urgent ? 'urgent' : 'not urgent'} and ${edited.important ? 'important' : 'not important'}`;
+    const quadrant = QUADRANTS[quadrantOf(edited)].label;
+    return {
+      reply: `${quote(task.text)} is now ${flags} – that puts it in ${quadrant}.`,
+      notice: { title: 'Task updated', description: `${task.text} → ${quadrant}`, undoable: true },
+    };
+  });
+
+const getGoalAlignmentTool: ToolHandler = async () => {
+  const goals = activeGoals(await getGoals());
+  if (goals.length === 0) return { reply: 'No goals are set yet. They can be added under History.' };
+  const entries = await getDailyEntries();
+  const today = dayAlignment(entries);
+  const week = weekAlignment(entries);
+  const list = goals
+    .map(g => `${quote(g.title)} (${formatPeriod(g.period)}, ${week.byGoal[g.id] ?? 0} tasks this week)`)
+    .join('; ');
+  return {
+    reply: `Goals: ${list}. Today ${today.aligned} of ${today.total} tasks serve a goal (${formatAlignment(today)}); this week ${week.aligned} of ${week.total} (${formatAlignment(week)}).`,
+  };
+};
+
+/** Fewest tasks a day can be locked in with. */
+export const MIN_FINAL_TASKS = 3;
+
+const setReflectionTool: ToolHandler = async parameters => {
+  const parsed = ReflectionSchema.safeParse(parameters);
+  if (!parsed.success) {
+    console.warn('[agentTools] Invalid setReflection call', parameters, parsed.error.issues);
+    return { reply: 'Sorry, I didn’t catch the reflection. Could you say it again?' };
+  }
+  try {
+    await setDayReflection(parsed.data.reflection as string);
+  } catch (err) {
+    console.error('[agentTools] Could not save reflection', err);
+    return { reply: `Sorry, I couldn’t save that reflection: ${spokenError(err)}.` };
+  }
+  return {
+    reply: 'Your reflection has been recorded.',
+    notice: { title: 'Reflection noted 📝', description: 'Your daily reflection has been recorded', undoable: true },
+  };
+};
+
+const finalizeTasksTool: ToolHandler = async () => {
+  const count = (await getTodayTasks()).length;
+  if (count < MIN_FINAL_TASKS) {
+    return { reply: `You currently have ${count} tasks. Please add at least ${MIN_FINAL_TASKS} priorities before finalizing.` };
+  }
+  try {
+    const entry = await finalizeEntry();
+    return { reply: 'Your daily priorities have been finalized!', finalized: entry };
+  } catch (err) {
+    console.error('[agentTools] Could not finalize', err);
+    return { reply: `Sorry, I couldn’t lock the day in: ${spokenError(err)}.` };
+  }
+};
+
+const setJargonLevelTool: ToolHandler = async parameters => {
+  const parsed = JargonLevelSchema.safeParse(parameters);
+  if (!parsed.success) {
+    console.warn('[agentTools] Invalid setJargonLevel call', parameters, parsed.error.issues);
+    return { reply: `The level has to be ${joinList(JARGON_LEVELS.map(quote), 'or')}.` };
+  }
+  const level = parsed.data.level as JargonLevel;
+  try {
+    await setJargonLevel(level);
+  } catch (err) {
+    console.error('[agentTools] Could not save jargon level', err);
+    return { reply: `Sorry, I couldn’t save that preference: ${spokenError(err)}.` };
+  }
+  return {
+    reply: `Saved – jargon level is now ${quote(level)} for this and future sessions.`,
+    notice: { title: 'Preference saved', description: JARGON_LABELS[level] },
+  };
+};
+
+/** Every agent tool, by the name the agent calls it with. */
+export const AGENT_TOOLS = {
+  addTask: addTaskTool,
+  addSubtask: addSubtaskTool,
+  listTodayTasks: listTodayTasksTool,
+  removeTask: removeTaskTool,
+  editTask: editTaskTool,
+  completeTask: completeTaskTool,
+  reorderTask: reorderTaskTool,
+  setUrgencyImportance: setUrgencyImportanceTool,
+  getGoalAlignment: getGoalAlignmentTool,
+  setJargonLevel: setJargonLevelTool,
+  setReflection: setReflectionTool,
+  finalizeTasks: finalizeTasksTool,
+} satisfies Record<string, ToolHandler>;
+
+export type AgentToolName = keyof typeof AGENT_TOOLS;
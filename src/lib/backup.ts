@@ -0,0 +1,282 @@
+/**
+ * Full JSON backup export / import.
+ *
+ * A backup file holds every DailyEntry plus the meta values that make up
+ * the user’s settings and streak state.  Imports are validated, migrated
+ * to the current schema and previewed before anything is written:
+ *
+ *   • merge   – keep local data, add new days and fold missing tasks into
+ *               days that exist on both sides
+ *   • replace – throw local data away and restore the file verbatim
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { SCHEMA_VERSION, migrateEntries } from '@/lib/migrations';
+import { normalizeDateKey } from '@/lib/dates';
+import { describeIssues, partitionEntries } from '@/lib/schema';
+import type { DailyEntry, QuarantinedRecord, Task } from '@/lib/schema';
+import {
+  LAST_COMPLETED_KEY,
+  getDailyEntries,
+  getMetaValue,
+  removeMetaValue,
+  replaceDailyEntries,
+  setMetaValue,
+} from '@/lib/tasks';
+import { RECURRING_KEY } from '@/lib/recurring';
+import { CATEGORIES_KEY, mergeCategories } from '@/lib/categories';
+import { GOALS_KEY, mergeGoals } from '@/lib/goals';
+import { JARGON_LEVEL_KEY } from '@/lib/agentPrompt';
+
+export const BACKUP_FORMAT = 'task-alignment-compass-backup';
+export const BACKUP_VERSION = 1;
+
+/** Meta keys that travel with a backup (settings + streak state). */
+export const BACKUP_META_KEYS = [LAST_COMPLETED_KEY, RECURRING_KEY, CATEGORIES_KEY, GOALS_KEY, JARGON_LEVEL_KEY];
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  entries: DailyEntry[];
+  meta: Record<string, string>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportPreview {
+  backup: BackupFile;
+  /** dates only present in the file */
+  newDays: string[];
+  /** dates present on both sides with different content */
+  conflictingDays: string[];
+  /** dates present on both sides with identical content */
+  unchangedDays: string[];
+  /** task IDs in the file that already exist locally on another day or twice in the file */
+  duplicateTaskIds: string[];
+  /** records in the file that failed validation and will be skipped */
+  rejected: QuarantinedRecord[];
+}
+
+const BackupFileSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  schemaVersion: z.number().int().optional(),
+  exportedAt: z.string(),
+  entries: z.array(z.unknown()),
+  meta: z.record(z.string()).default({}),
+});
+
+/* ------------------------------------------------------------------ *
+ *  Export                                                            *
+ * ------------------------------------------------------------------ */
+
+export async function createBackup(): Promise<BackupFile> {
+  const meta: Record<string, string> = {};
+  for (const key of BACKUP_META_KEYS) {
+    const value = await getMetaValue(key);
+    if (value !== null) meta[key] = value;
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: await getDailyEntries(),
+    meta,
+  };
+}
+
+/** e.g. `daily-focus-backup-2024-06-12.json` */
+export function backupFileName(backup: BackupFile): string {
+  return `daily-focus-backup-${backup.exportedAt.slice(0, 10)}.json`;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Import                                                            *
+ * ------------------------------------------------------------------ */
+
+/**
+ * Parse and validate a backup file’s text.  Entries are migrated to the
+ * current schema; individually broken records are reported via
+ * `previewImport` rather than failing the whole file.
+ */
+export function parseBackup(text: string): { backup: BackupFile; rejected: QuarantinedRecord[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('[backup] File is not valid JSON');
+  }
+
+  const parsed = BackupFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`[backup] Not a Daily Focus backup: ${describeIssues(parsed.error)}`);
+  }
+  if (parsed.data.version > BACKUP_VERSION) {
+    throw new Error('[backup] This backup was made by a newer version of the app');
+  }
+
+  const { valid, rejected } = partitionEntries(migrateEntries(parsed.data.entries));
+  const meta = { ...parsed.data.meta };
+  if (meta[LAST_COMPLETED_KEY]) {
+    // Older files store `toDateString()` values
+    meta[LAST_COMPLETED_KEY] = normalizeDateKey(meta[LAST_COMPLETED_KEY]) ?? meta[LAST_COMPLETED_KEY];
+  }
+
+  return {
+    backup: { ...(parsed.data as BackupFile), schemaVersion: SCHEMA_VERSION, entries: valid, meta },
+    rejected,
+  };
+}
+
+/** Comparable fingerprint of a day’s content (ignores save timestamps). */
+function dayFingerprint(entries: DailyEntry[]): string {
+  const tasks = entries
+    .flatMap(e => e.tasks)
+    .map(t => [t.id, t.text, t.category, t.completed, t.urgent, t.important, JSON.stringify(t.scoring ?? null), t.dueAt ?? null, JSON.stringify(t.subtasks ?? null), JSON.stringify(t.tags ?? null), t.goalId ?? null, t.completedAt ?? null])
+    .sort((a, b) => String(a[0]).localeCompare(String(b[0])));
+  const reflections = entries.map(e => e.reflection ?? '').filter(Boolean);
+  return JSON.stringify([tasks, reflections]);
+}
+
+function groupByDate(entries: DailyEntry[]): Map<string, DailyEntry[]> {
+  const map = new Map<string, DailyEntry[]>();
+  for (const e of entries) map.set(e.date, [...(map.get(e.date) ?? []), e]);
+  return map;
+}
+
+/** Compare a parsed backup against local data without writing anything. */
+export async function previewImport(text: string): Promise<ImportPreview> {
+  const { backup, rejected } = parseBackup(text);
+  return buildImportPreview(await getDailyEntries(), backup, rejected);
+}
+
+/** Pure core of `previewImport`: compare `backup` against `localEntries`. */
+export function buildImportPreview(
+  localEntries: DailyEntry[],
+  backup: BackupFile,
+  rejected: QuarantinedRecord[] = [],
+): ImportPreview {
+  const local = groupByDate(localEntries);
+  const incoming = groupByDate(backup.entries);
+
+  const newDays: string[] = [];
+  const conflictingDays: string[] = [];
+  const unchangedDays: string[] = [];
+  for (const [date, entries] of incoming) {
+    const mine = local.get(date);
+    if (!mine) newDays.push(date);
+    else if (dayFingerprint(mine) === dayFingerprint(entries)) unchangedDays.push(date);
+    else conflictingDays.push(date);
+  }
+
+  // Which day each local task id lives on
+  const localTaskDay = new Map<string, string>();
+  for (const [date, entries] of local) {
+    entries.forEach(e => e.tasks.forEach(t => localTaskDay.set(t.id, date)));
+  }
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const e of backup.entries) {
+    for (const t of e.tasks) {
+      const localDay = localTaskDay.get(t.id);
+      if (seen.has(t.id) || (localDay && localDay !== e.date)) duplicates.add(t.id);
+      seen.add(t.id);
+    }
+  }
+
+  const sortDates = (d: string[]) => d.sort();
+  return {
+    backup,
+    newDays: sortDates(newDays),
+    conflictingDays: sortDates(conflictingDays),
+    unchangedDays: sortDates(unchangedDays),
+    duplicateTaskIds: [...duplicates],
+    rejected,
+  };
+}
+
+/**
+ * Fold `incoming` into the local history.  New days are added as‑is.  On
+ * days present on both sides the newest local entry keeps its tasks and
+ * reflection; tasks and voice transcripts it doesn’t already have are
+ * appended.  Duplicate task
+ * IDs get a fresh ID so they can never collide with an existing task.
+ */
+export function mergeEntries(local: DailyEntry[], preview: ImportPreview): DailyEntry[] {
+  const merged = local.map(e => ({ ...e, tasks: [...e.tasks] }));
+  const duplicateIds = new Set(preview.duplicateTaskIds);
+  const reId = (t: Task): Task => (duplicateIds.has(t.id) ? { ...t, id: uuidv4() } : t);
+
+  for (const entry of preview.backup.entries) {
+    const sameDay = merged.filter(e => e.date === entry.date);
+    if (sameDay.length === 0) {
+      merged.push({ ...entry, tasks: entry.tasks.map(reId) });
+      continue;
+    }
+
+    const target = sameDay.reduce((a, b) => (a.timestamp > b.timestamp ? a : b));
+    const known = new Set(sameDay.flatMap(e => e.tasks.map(t => t.id)));
+    for (const task of entry.tasks) {
+      if (known.has(task.id) && !duplicateIds.has(task.id)) continue;
+      target.tasks.push({ ...reId(task), priority: target.tasks.length + 1 });
+    }
+    if (!target.reflection && entry.reflection) target.reflection = entry.reflection;
+
+    const transcriptIds = new Set(sameDay.flatMap(e => (e.transcripts ?? []).map(t => t.id)));
+    const newTranscripts = (entry.transcripts ?? []).filter(t => !transcriptIds.has(t.id));
+    if (newTranscripts.length > 0) {
+      target.transcripts = [...(target.transcripts ?? []), ...newTranscripts].sort((a, b) =>
+        a.startedAt.localeCompare(b.startedAt),
+      );
+    }
+  }
+
+  return merged.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+/** Write a previewed import using the chosen strategy. */
+export async function applyImport(preview: ImportPreview, mode: ImportMode): Promise<void> {
+  const { backup } = preview;
+
+  if (mode === 'replace') {
+    await replaceDailyEntries(
+      [...backup.entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+    );
+    for (const key of BACKUP_META_KEYS) {
+      if (backup.meta[key] !== undefined) await setMetaValue(key, backup.meta[key]);
+      else await removeMetaValue(key);
+    }
+    return;
+  }
+
+  await replaceDailyEntries(mergeEntries(await getDailyEntries(), preview));
+
+  // The most recent completion date wins so streaks never go backwards.
+  const incomingLast = backup.meta[LAST_COMPLETED_KEY];
+  const localLast = await getMetaValue(LAST_COMPLETED_KEY);
+  if (incomingLast && (!localLast || incomingLast > localLast)) {
+    await setMetaValue(LAST_COMPLETED_KEY, incomingLast);
+  }
+
+  // Imported tasks may use categories this device has never seen
+  if (backup.meta[CATEGORIES_KEY]) {
+    try {
+      await mergeCategories(JSON.parse(backup.meta[CATEGORIES_KEY]));
+    } catch {
+      console.warn('[backup] Ignoring unreadable categories in backup');
+    }
+  }
+  // …and be linked to goals set on another device
+  if (backup.meta[GOALS_KEY]) {
+    try {
+      await mergeGoals(JSON.parse(backup.meta[GOALS_KEY]));
+    } catch {
+      console.warn('[backup] Ignoring unreadable goals in backup');
+    }
+  }
+}
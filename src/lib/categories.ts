@@ -0,0 +1,136 @@
+/**
+ * User‑managed task categories.
+ *
+ * A task stores the *id* of its category.  The list itself lives in the
+ * repository’s meta store under `CATEGORIES_KEY`; until the user changes
+ * it, it holds `DEFAULT_CATEGORIES` (Personal / Professional, whose ids
+ * are the old fixed category values, so older tasks need no rewrite).
+ *
+ * Categories are archived rather than deleted: archived ones disappear
+ * from pickers but still label the tasks that use them.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CategorySchema,
+  DEFAULT_CATEGORIES,
+  describeIssues,
+  type Category,
+} from '@/lib/schema';
+import { getMetaValue, setMetaValue } from '@/lib/tasks';
+import { CATEGORIES_KEY } from '@/lib/metaKeys';
+
+export type { Category, CategoryColor, CategoryIcon } from '@/lib/schema';
+export { CATEGORY_COLORS, CATEGORY_ICONS, DEFAULT_CATEGORIES } from '@/lib/schema';
+
+export { CATEGORIES_KEY } from '@/lib/metaKeys';
+
+export const MAX_CATEGORIES = 12;
+
+export type CategoryInput = Pick<Category, 'name' | 'color' | 'icon'>;
+
+/** Every category, archived ones included; the defaults when none are stored. */
+export async function getCategories(): Promise<Category[]> {
+  let stored: unknown;
+  try {
+    stored = JSON.parse((await getMetaValue(CATEGORIES_KEY)) || 'null');
+  } catch {
+    return DEFAULT_CATEGORIES;
+  }
+  if (!Array.isArray(stored)) return DEFAULT_CATEGORIES;
+  const categories = stored.flatMap(raw => {
+    const parsed = CategorySchema.safeParse(raw);
+    return parsed.success ? [parsed.data as Category] : [];
+  });
+  return categories.some(c => !c.archived) ? categories : DEFAULT_CATEGORIES;
+}
+
+/** Categories that can be picked for new tasks. */
+export const activeCategories = (categories: Category[]) => categories.filter(c => !c.archived);
+
+/**
+ * The active category `value` names – by id, or by name ignoring case
+ * (“Fitness”, “fitness”) so spoken or typed names work too.
+ */
+export function findCategory(categories: Category[], value: string): Category | undefined {
+  const wanted = value.trim().toLowerCase();
+  const active = activeCategories(categories);
+  return active.find(c => c.id === value.trim()) ?? active.find(c => c.name.toLowerCase() === wanted);
+}
+
+/** Id of the active category `value` names; throws listing the choices otherwise. */
+export async function resolveCategoryId(value: string): Promise<string> {
+  const categories = await getCategories();
+  const match = findCategory(categories, value);
+  if (!match) {
+    const names = activeCategories(categories).map(c => c.name).join(', ');
+    throw new Error(`[categories] Unknown category “${value}” – use one of: ${names}`);
+  }
+  return match.id;
+}
+
+async function saveAll(categories: Category[]): Promise<void> {
+  await setMetaValue(CATEGORIES_KEY, JSON.stringify(categories));
+}
+
+/** Create a category, or update the one with `id`.  Names are unique (ignoring case). */
+export async function saveCategory(input: CategoryInput, id?: string): Promise<Category> {
+  const categories = await getCategories();
+  const existing = id ? categories.find(c => c.id === id) : undefined;
+  if (id && !existing) throw new Error(`[categories] No category ${id}`);
+  if (!existing && activeCategories(categories).length >= MAX_CATEGORIES) {
+    throw new Error(`[categories] At most ${MAX_CATEGORIES} categories`);
+  }
+
+  const parsed = CategorySchema.safeParse({ ...existing, ...input, id: existing?.id ?? uuidv4() });
+  if (!parsed.success) throw new Error(`[categories] ${describeIssues(parsed.error)}`);
+  const category = parsed.data as Category;
+
+  const clash = activeCategories(categories).find(
+    c => c.id !== category.id && c.name.toLowerCase() === category.name.toLowerCase(),
+  );
+  if (clash) throw new Error(`[categories] There is already a category called “${clash.name}”`);
+
+  await saveAll(existing ? categories.map(c => (c.id === id ? category : c)) : [...categories, category]);
+  return category;
+}
+
+/** Hide a category from pickers; its tasks keep it.  The last active one stays. */
+export async function archiveCategory(id: string): Promise<void> {
+  const categories = await getCategories();
+  const active = activeCategories(categories);
+  if (!active.some(c => c.id === id)) throw new Error(`[categories] No category ${id}`);
+  if (active.length === 1) throw new Error('[categories] Keep at least one category');
+  await saveAll(categories.map(c => (c.id === id ? { ...c, archived: true } : c)));
+}
+
+/** Bring an archived category back. */
+export async function restoreCategory(id: string): Promise<void> {
+  const categories = await getCategories();
+  const target = categories.find(c => c.id === id);
+  if (!target) throw new Error(`[categories] No category ${id}`);
+  if (activeCategories(categories).some(c => c.name.toLowerCase() === target.name.toLowerCase())) {
+    throw new Error(`[categories] There is already a category called “${target.name}”`);
+  }
+  await saveAll(categories.map(c => (c.id === id ? { ...c, archived: false } : c)));
+}
+
+/**
+ * Add `incoming` categories this store doesn’t have yet (by id), e.g.
+ * from a merged backup, so imported tasks keep their labels.
+ */
+export async function mergeCategories(incoming: Category[]): Promise<void> {
+  const categories = await getCategories();
+  const known = new Set(categories.map(c => c.id));
+  const added = incoming.filter(c => !known.has(c.id) && CategorySchema.safeParse(c).success);
+  if (added.length > 0) await saveAll([...categories, ...added]);
+}
+
+/** Clean free‑form tags: trimmed, lower‑case, no leading “#”, no duplicates. */
+export function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags.map(t => t.trim().replace(/^#+/, '').trim().toLowerCase()).filter(Boolean);
+  return [...new Set(cleaned)];
+}
+
+/** Split typed input like “#q3, deck  finance” into tags. */
+export const parseTags = (text: string): string[] => normalizeTags(text.split(/[,\s]+/));
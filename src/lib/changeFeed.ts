@@ -0,0 +1,72 @@
+/**
+ * Change notifications for task data.
+ *
+ * Every write helper in `@/lib/tasks` calls `notifyDataChanged()`; the
+ * sync engine calls `notifyDataChanged('sync')` after merging remote data.
+ * Listeners in the same tab hear about it synchronously; other tabs hear
+ * about it through a BroadcastChannel (or, in browsers without one, a
+ * `storage` event on a ping key).  The React Query hooks subscribe here to
+ * invalidate their cached data.
+ */
+
+export interface DataChange {
+  /**
+   * `local` = edited in this tab, `sync` = remote changes merged in by
+   * this tab’s sync engine (nothing new to push), `remote` = another tab
+   */
+  source: 'local' | 'sync' | 'remote';
+}
+
+type Listener = (change: DataChange) => void;
+
+const CHANNEL_NAME = 'task-alignment-compass';
+const PING_KEY = 'compass.changed';
+
+const listeners = new Set<Listener>();
+let channel: BroadcastChannel | null = null;
+let connected = false;
+
+const emit = (change: DataChange) => listeners.forEach(l => l(change));
+
+function onStorage(e: StorageEvent) {
+  // Our own ping key, or the raw entries blob of the localStorage backend
+  // (namespaced per profile, e.g. `compass.p.<id>.dailyEntries`)
+  if (e.key === PING_KEY || e.key?.endsWith('dailyEntries')) emit({ source: 'remote' });
+}
+
+/** Lazily wire up cross‑tab transport on first use. */
+function connect() {
+  if (connected || typeof window === 'undefined') return;
+  connected = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = () => emit({ source: 'remote' });
+  }
+  window.addEventListener('storage', onStorage);
+}
+
+/** Tell this tab and every other open tab that task data changed. */
+export function notifyDataChanged(source: 'local' | 'sync' = 'local'): void {
+  connect();
+  emit({ source });
+
+  if (channel) {
+    channel.postMessage({ type: 'changed' });
+  } else if (typeof localStorage !== 'undefined') {
+    try {
+      localStorage.setItem(PING_KEY, String(Date.now()));
+    } catch {
+      // storage full / unavailable – other tabs will catch up on focus
+    }
+  }
+}
+
+/** Subscribe to data changes; returns an unsubscribe function. */
+export function subscribeToDataChanges(listener: Listener): () => void {
+  connect();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CATEGORIES } from '@/lib/schema';
+import { DEFAULT_DUE_HOUR, parseCommand, parseDue } from '@/lib/commandParser';
+
+// Monday 19 October 2026, 09:00 local time
+const now = new Date(2026, 9, 19, 9, 0);
+const context = { categories: DEFAULT_CATEGORIES, now };
+const at = (month: number, day: number, hours = DEFAULT_DUE_HOUR, minutes = 0) =>
+  new Date(2026, month, day, hours, minutes).toISOString();
+
+describe('parseDue', () => {
+  it('reads relative days, weekdays and times', () => {
+    expect(parseDue('tomorrow', now)).toBe(at(9, 20));
+    expect(parseDue('tonight', now)).toBe(at(9, 19, 20));
+    expect(parseDue('Friday at 5pm', now)).toBe(at(9, 23, 17));
+    expect(parseDue('next monday at 9', now)).toBe(at(9, 26, 9));
+    expect(parseDue('in 3 days', now)).toBe(at(9, 22));
+    expect(parseDue('in two weeks', now)).toBe(at(10, 2));
+  });
+
+  it('reads calendar dates, rolling past ones into next year', () => {
+    expect(parseDue('March 12', now)).toBe(new Date(2027, 2, 12, DEFAULT_DUE_HOUR).toISOString());
+    expect(parseDue('12th of november 9:30', now)).toBe(at(10, 12, 9, 30));
+    expect(parseDue('2026-12-01', now)).toBe(at(11, 1));
+  });
+
+  it('returns null for anything else', () => {
+    expect(parseDue('someday', now)).toBeNull();
+    expect(parseDue('', now)).toBeNull();
+  });
+});
+
+describe('parseCommand', () => {
+  it('adds a task with category, flags, tags and deadline', () => {
+    expect(parseCommand('add urgent professional task finish proposal by Friday #deck', context)).toEqual({
+      kind: 'tool',
+      tool: 'addTask',
+      parameters: { text: 'finish proposal', category: 'professional', urgent: true, dueAt: at(9, 23), tags: ['deck'] },
+    });
+  });
+
+  it('falls back to the first active category', () => {
+    const parsed = parseCommand('add call the bank tomorrow at 10am', context);
+    expect(parsed).toMatchObject({ tool: 'addTask', parameters: { text: 'call the bank', category: 'personal', dueAt: at(9, 20, 10) } });
+  });
+
+  it('takes “in N days / weeks” off the end of a new task', () => {
+    expect(parseCommand('add renew passport in 3 weeks', context)).toMatchObject({
+      tool: 'addTask',
+      parameters: { text: 'renew passport', dueAt: at(10, 9) },
+    });
+    expect(parseCommand('add call the bank in 2 days', context)).toMatchObject({
+      tool: 'addTask',
+      parameters: { text: 'call the bank', dueAt: at(9, 21) },
+    });
+    expect(parseCommand('add water plants in a day', context)).toMatchObject({
+      tool: 'addTask',
+      parameters: { text: 'water plants', dueAt: at(9, 20) },
+    });
+  });
+
+  it('maps phrasings onto task tools', () => {
+    expect(parseCommand('done with gym', context)).toMatchObject({ tool: 'completeTask', parameters: { task: 'gym', completed: true } });
+    expect(parseCommand('reopen gym', context)).toMatchObject({ tool: 'completeTask', parameters: { task: 'gym', completed: false } });
+    expect(parseCommand('remove the second one', context)).toMatchObject({ tool: 'removeTask', parameters: { task: 'the second one' } });
+    expect(parseCommand('move proposal to top', context)).toMatchObject({ tool: 'reorderTask', parameters: { task: 'proposal', position: 'top' } });
+    expect(parseCommand('rename gym to evening run', context)).toMatchObject({ tool: 'editTask', parameters: { task: 'gym', text: 'evening run' } });
+    expect(parseCommand('proposal due next Monday at 9', context)).toMatchObject({ tool: 'editTask', parameters: { task: 'proposal', dueAt: at(9, 26, 9) } });
+    expect(parseCommand('make proposal urgent and not important', context)).toMatchObject({
+      tool: 'setUrgencyImportance',
+      parameters: { task: 'proposal', urgent: true, important: false },
+    });
+    expect(parseCommand('step draft outline to proposal', context)).toMatchObject({ tool: 'addSubtask', parameters: { text: 'draft outline', task: 'proposal' } });
+  });
+
+  it('clears a deadline without removing the task', () => {
+    for (const input of ['remove the deadline on proposal', 'drop the due date for proposal', 'clear deadline from proposal']) {
+      expect(parseCommand(input, context)).toEqual({
+        kind: 'tool',
+        tool: 'editTask',
+        parameters: { task: 'proposal', dueAt: null },
+      });
+    }
+  });
+
+  it('understands the day-level commands', () => {
+    expect(parseCommand('Jarvis, list please', context)).toMatchObject({ tool: 'listTodayTasks' });
+    expect(parseCommand('finalize my day.', context)).toMatchObject({ tool: 'finalizeTasks' });
+    expect(parseCommand('my reflection is keep the mornings free', context)).toMatchObject({
+      tool: 'setReflection',
+      parameters: { reflection: 'keep the mornings free' },
+    });
+    expect(parseCommand('help', context)).toEqual({ kind: 'help' });
+  });
+
+  it('says when it did not understand', () => {
+    expect(parseCommand('sing me a song', context).kind).toBe('unknown');
+    expect(parseCommand('   ', context).kind).toBe('unknown');
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Typed commands for the command bar, parsed locally into the same tool
+ * calls the voice agent makes – so “add professional task finish proposal
+ * by Friday” does exactly what saying it to Jarvis would, offline.
+ *
+ * The parser is a short list of phrase rules, tried in order; the first
+ * that fits wins.  It only works out *which* tool to call and with what
+ * parameters – task references stay as typed (“gym”, “the second one”)
+ * and are resolved by the tool through `matchTask`, so a typo still gets
+ * the same “did you mean …?” reply as a speech‑to‑text slip.
+ *
+ * Deadlines (`parseDue`) understand today / tonight / tomorrow, weekday
+ * names (“next Friday” is the one after this week’s), “in 3 days”,
+ * “12 March” / “March 12” / `2026-03-12`, each optionally with a time
+ * (“at 5pm”, “9:30”).  Without a time a deadline is at `DEFAULT_DUE_HOUR`.
+ */
+
+import type { AgentToolName } from '@/lib/agentTools';
+import { activeCategories, type Category } from '@/lib/categories';
+import { JARGON_LEVELS } from '@/lib/agentPrompt';
+
+export type ParsedCommand =
+  | { kind: 'tool'; tool: AgentToolName; parameters: Record<string, unknown> }
+  | { kind: 'help' }
+  | { kind: 'unknown'; reply: string };
+
+export interface CommandContext {
+  categories: Category[];
+  now?: Date;
+}
+
+/** Deadlines without a time fall due at 17:00. */
+export const DEFAULT_DUE_HOUR = 17;
+
+/** Shown by “help” and as the command bar’s hints. */
+export const COMMAND_EXAMPLES = [
+  'add professional task finish proposal by Friday',
+  'add urgent call the bank tomorrow at 10am #admin',
+  'step draft outline to proposal',
+  'done with gym',
+  'reopen gym',
+  'move proposal to top',
+  'rename gym to evening run',
+  'proposal due next Monday at 9',
+  'make proposal urgent and important',
+  'remove the second one',
+  'my reflection is keep the mornings for deep work',
+  'list',
+  'goals',
+  'finalize',
+];
+
+/* ------------------------------------------------------------------ *
+ *  Deadlines                                                         *
+ * ------------------------------------------------------------------ */
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7 };
+
+/** “fri”, “thurs”, “wednesday” → 0–6 */
+const weekdayOf = (word: string) => WEEKDAYS.findIndex(day => word.length >= 3 && day.startsWith(word));
+/** “mar”, “march”, “sept” → 0–11 */
+const monthOf = (word: string) => MONTHS.findIndex(month => word.length >= 3 && word.startsWith(month));
+
+/** `[hours, minutes]` from the end of `phrase`, and the rest; bare 1–7 read as afternoon. */
+function splitTime(phrase: string): { rest: string; time?: [number, number] } {
+  if (/(?:^|\s)(?:at\s+)?noon$/.test(phrase)) return { rest: phrase.replace(/\s*(?:at\s+)?noon$/, ''), time: [12, 0] };
+  const match = /(?:^|\s+)(at\s+)?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/.exec(phrase);
+  // “may 12” is a date, not noon – a time needs “at”, minutes or am/pm
+  if (!match || !(match[1] || match[3] || match[4])) return { rest: phrase };
+  let hours = Number(match[2]);
+  const minutes = Number(match[3] ?? 0);
+  const meridiem = match[4];
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  else if (meridiem === 'am' && hours === 12) hours = 0;
+  else if (!meridiem && !match[3] && hours >= 1 && hours <= 7) hours += 12;
+  if (hours > 23 || minutes > 59) return { rest: phrase };
+  return { rest: phrase.slice(0, match.index).trim(), time: [hours, minutes] };
+}
+
+/** Local midnight of the day `phrase` names, or `null`. */
+function dayOf(phrase: string, now: Date): Date | null {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const plus = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+  const day = phrase.replace(/^(?:on|the)\s+/, '');
+
+  if (['', 'today', 'tonight', 'eod', 'end of day', 'end of today'].includes(day)) return today;
+  if (['tomorrow', 'tmrw', 'tmr'].includes(day)) return plus(1);
+
+  const weekday = /^(this\s+|next\s+)?([a-z]+)$/.exec(day);
+  if (weekday && weekdayOf(weekday[2]) >= 0) {
+    const ahead = (weekdayOf(weekday[2]) - today.getDay() + 7) % 7;
+    return plus(weekday[1]?.startsWith('next') ? ahead + 7 : ahead);
+  }
+
+  const relative = /^in\s+(\d+|[a-z]+)\s+(day|week)s?$/.exec(day);
+  if (relative) {
+    const count = /^\d+$/.test(relative[1]) ? Number(relative[1]) : NUMBER_WORDS[relative[1]];
+    if (count !== undefined) return plus(count * (relative[2] === 'week' ? 7 : 1));
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (iso) return new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  const monthFirst = /^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?$/.exec(day);
+  const dayFirst = /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)$/.exec(day);
+  const [monthWord, date] = monthFirst ? [monthFirst[1], monthFirst[2]] : dayFirst ? [dayFirst[2], dayFirst[1]] : [];
+  if (monthWord && monthOf(monthWord) >= 0 && Number(date) >= 1 && Number(date) <= 31) {
+    const month = monthOf(monthWord);
+    const thisYear = new Date(today.getFullYear(), month, Number(date));
+    // a date already gone this year means next year’s
+    return thisYear < today ? new Date(today.getFullYear() + 1, month, Number(date)) : thisYear;
+  }
+  return null;
+}
+
+/** The deadline `phrase` (“Friday”, “tomorrow at 9am”) names, as an ISO timestamp; `null` if it isn’t one. */
+export function parseDue(phrase: string, now: Date = new Date()): string | null {
+  const cleaned = phrase.toLowerCase().replace(/[.,!]+$/, '').replace(/\s+/g, ' ').trim();
+  if (!cleaned) return null;
+  const { rest, time } = splitTime(cleaned);
+  const day = dayOf(rest, now);
+  if (!day) return null;
+  const [hours, minutes] = time ?? [rest === 'tonight' ? 20 : DEFAULT_DUE_HOUR, 0];
+  day.setHours(hours, minutes, 0, 0);
+  return day.toISOString();
+}
+
+/* ------------------------------------------------------------------ *
+ *  Commands                                                          *
+ * ------------------------------------------------------------------ */
+
+type Rule = (input: string, context: CommandContext) => ParsedCommand | null;
+
+const tool = (name: AgentToolName, parameters: Record<string, unknown> = {}): ParsedCommand => ({
+  kind: 'tool',
+  tool: name,
+  parameters,
+});
+
+/** “urgent”, “not important” → `{ urgent: true }`, `{ important: false }` */
+const FLAG = /(not\s+)?(urgent|important)/i;
+const flagOf = (match: RegExpExecArray) => ({ [match[2].toLowerCase()]: !match[1] });
+
+/** Leading and trailing “urgent” / “important” on a new task’s text. */
+function takeFlags(text: string): { text: string; flags: Record<string, boolean> } {
+  let flags: Record<string, boolean> = {};
+  let match: RegExpExecArray | null;
+  const leading = new RegExp(`^${FLAG.source}(?:\\s*(?:,|and))?\\s+`, 'i');
+  const trailing = new RegExp(`(?:\\s*,|\\s+and)?\\s+\\(?${FLAG.source}\\)?$`, 'i');
+  while ((match = leading.exec(text))) {
+    flags = { ...flags, ...flagOf(match) };
+    text = text.slice(match[0].length);
+  }
+  while ((match = trailing.exec(text))) {
+    flags = { ...flags, ...flagOf(match) };
+    text = text.slice(0, match.index);
+  }
+  return { text: text.trim(), flags };
+}
+
+/** “by Friday”, “due tomorrow at 9” – or just “tomorrow at 9” / “next Monday”. */
+const DUE_LEADS = [
+  /\s+(?:by|due(?:\s+(?:on|by))?|before)\s+/gi,
+  /\s+(?=(?:today|tonight|tomorrow|tmrw|this|next|in\s+\S+\s+(?:day|week)s?|(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*)\b)/gi,
+];
+
+/** Cut the leftmost deadline that `parseDue` understands off the end of `text`. */
+function takeDue(text: string, now: Date): { text: string; dueAt?: string } {
+  for (const lead of DUE_LEADS) {
+    for (const match of text.matchAll(lead)) {
+      const dueAt = parseDue(text.slice(match.index + match[0].length), now);
+      if (dueAt) return { text: text.slice(0, match.index).trim(), dueAt };
+    }
+  }
+  return { text };
+}
+
+function parseAdd(rest: string, { categories, now = new Date() }: CommandContext): ParsedCommand {
+  const active = activeCategories(categories);
+  // longest name first, so “Side project” wins over “Side”
+  const byName = [...active].sort((a, b) => b.name.length - a.name.length);
+  const startsWith = (text: string) => byName.find(c => text.toLowerCase().startsWith(`${c.name.toLowerCase()} `));
+
+  let text = rest.replace(/^(?:an?|new)\s+/i, '');
+  let flags: Record<string, boolean>;
+  ({ text, flags } = takeFlags(text));
+
+  let category = startsWith(text);
+  if (category) text = text.slice(category.name.length).trim();
+  text = text.replace(/^(?:task|priority|to-?do)\b:?\s*/i, '').replace(/^:\s*/, '');
+
+  // “… to my professional list”
+  if (!category) {
+    const names = byName.map(c => c.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+    const suffix = names && new RegExp(`\\s+(?:to|in|under)\\s+(?:my\\s+|the\\s+)?(${names})(?:\\s+(?:list|category|tasks))?$`, 'i').exec(text);
+    if (suffix) {
+      category = byName.find(c => c.name.toLowerCase() === suffix[1].toLowerCase());
+      text = text.slice(0, suffix.index);
+    }
+  }
+
+  const tags = [...text.matchAll(/(?:^|\s)#([\p{L}\p{N}_-]+)/gu)].map(match => match[1]);
+  text = text.replace(/(?:^|\s)#[\p{L}\p{N}_-]+/gu, '').trim();
+
+  const before = takeFlags(text);
+  const due = takeDue(before.text, now);
+  const after = takeFlags(due.text);
+  text = after.text;
+  flags = { ...flags, ...before.flags, ...after.flags };
+
+  if (!text) return { kind: 'unknown', reply: 'What’s the task? e.g. “add professional task finish proposal by Friday”.' };
+  category ??= active[0];
+  if (!category) return { kind: 'unknown', reply: 'There are no categories to add tasks to – add one under History first.' };
+
+  return tool('addTask', {
+    text,
+    category: category.id,
+    ...flags,
+    ...(due.dueAt ? { dueAt: due.dueAt } : {}),
+    ...(tags.length ? { tags } : {}),
+  });
+}
+
+const POSITION_WORDS: Record<string, 'top' | 'bottom'> = { top: 'top', first: 'top', bottom: 'bottom', last: 'bottom', end: 'bottom' };
+
+const RULES: Rule[] = [
+  input => (/^(?:help|\?|commands|what can i (?:say|type|do))$/i.test(input) ? { kind: 'help' } : null),
+
+  input =>
+    /^(?:list|tasks|today|show(?: me)?(?: (?:my|today'?s))? (?:list|tasks)|what'?s on (?:my list|today)|what do i have(?: today)?)$/i.test(input)
+      ? tool('listTodayTasks')
+      : null,
+
+  input =>
+    /^(?:finali[sz]e|lock(?: it)? in|i'?m done planning|done planning|that'?s it)(?: (?:my |the |today'?s )?(?:day|tasks|list|priorities|plan))?$/i.test(input)
+      ? tool('finalizeTasks')
+      : null,
+
+  input =>
+    /^(?:goals|goal alignment|alignment|(?:check|show)(?: my)? goals|how am i doing on my goals)$/i.test(input)
+      ? tool('getGoalAlignment')
+      : null,
+
+  input => {
+    const match = /^(?:(?:my |today'?s )?reflection(?: is)?|reflect|note to self)\s*[:\-–]?\s+(.+)$/i.exec(input);
+    return match ? tool('setReflection', { reflection: match[1] }) : null;
+  },
+
+  input => {
+    const levels = JARGON_LEVELS.join('|');
+    const match =
+      new RegExp(`^(?:set )?jargon(?: level)?(?: to)? (${levels})$`, 'i').exec(input) ??
+      new RegExp(`^(?:use |talk |speak )?(${levels})(?: language| jargon| mode| terms)$`, 'i').exec(input);
+    return match ? tool('setJargonLevel', { level: match[1].toLowerCase() }) : null;
+  },
+
+  input => {
+    const match = /^(?:add )?(?:an? )?(?:step|sub-?task)\s*:?\s+(.+?)\s+(?:to|for|under|on)\s+(.+)$/i.exec(input);
+    return match ? tool('addSubtask', { text: match[1], task: match[2] }) : null;
+  },
+
+  (input, context) => {
+    const match = /^(?:add|new|create|capture)(?:\s+(.+))?$/i.exec(input);
+    return match ? parseAdd(match[1] ?? '', context) : null;
+  },
+
+  input => {
+    const match =
+      /^(?:reopen|untick|uncheck|not done(?: with)?)\s+(.+)$/i.exec(input) ??
+      /^(?:mark\s+)?(.+?)\s+(?:as\s+)?(?:not done|undone|open|not finished)$/i.exec(input);
+    return match ? tool('completeTask', { task: match[1], completed: false }) : null;
+  },
+
+  input => {
+    const match =
+      /^(?:i(?:'ve| have)?\s+)?(?:done with|done|finished|completed?|did|ticked off|tick off|checked off|check off)\s+(.+)$/i.exec(input) ??
+      /^(?:mark\s+|tick\s+)?(.+?)\s+(?:as\s+|is\s+)?(?:done|finished|completed?)$/i.exec(input);
+    return match ? tool('completeTask', { task: match[1], completed: true }) : null;
+  },
+
+  // Before the generic remove rule – “remove the deadline on X” keeps X
+  input => {
+    const match = /^(?:clear|remove|drop|delete)\s+(?:the\s+)?(?:deadline|due date)\s+(?:on|for|from)\s+(.+)$/i.exec(input);
+    return match ? tool('editTask', { task: match[1], dueAt: null }) : null;
+  },
+
+  input => {
+    const match = /^(?:remove|delete|drop|scrap|cancel|forget)\s+(.+)$/i.exec(input);
+    return match ? tool('removeTask', { task: match[1] }) : null;
+  },
+
+  (input, { categories }) => {
+    const match = /^(?:move|put)\s+(.+?)\s+(?:to|at|in)\s+(?:the\s+)?(?:position\s+|number\s+|#)?(.+)$/i.exec(input);
+    if (!match) return null;
+    const target = match[2].toLowerCase();
+    if (POSITION_WORDS[target]) return tool('reorderTask', { task: match[1], position: POSITION_WORDS[target] });
+    if (/^\d+$/.test(target)) return tool('reorderTask', { task: match[1], position: Number(target) });
+    const name = target.replace(/^my\s+/, '').replace(/\s+(?:list|category|tasks)$/, '');
+    const category = activeCategories(categories).find(c => c.name.toLowerCase() === name);
+    return category ? tool('editTask', { task: match[1], category: category.id }) : null;
+  },
+
+  (input, { now = new Date() }) => {
+    const match = /^(?:set\s+|change\s+|move\s+)?(.+?)\s+(?:is\s+)?(?:due|deadline)(?:\s+(?:date\s+)?(?:to|on|by))?\s+(.+)$/i.exec(input);
+    const dueAt = match && parseDue(match[2], now);
+    return dueAt ? tool('editTask', { task: match[1], dueAt }) : null;
+  },
+
+  input => {
+    const match = /^(?:rename|change|reword)\s+(.+?)\s+(?:to|into)\s+(.+)$/i.exec(input);
+    return match ? tool('editTask', { task: match[1], text: match[2] }) : null;
+  },
+
+  input => {
+    const match = new RegExp(
+      `^(?:make|mark|set|flag)\\s+(.+?)\\s+(?:as\\s+)?${FLAG.source}(?:\\s*(?:,|and)\\s*${FLAG.source})?$`,
+      'i',
+    ).exec(input);
+    if (!match) return null;
+    const [, task, not1, flag1, not2, flag2] = match;
+    return tool('setUrgencyImportance', {
+      task,
+      [flag1.toLowerCase()]: !not1,
+      ...(flag2 ? { [flag2.toLowerCase()]: !not2 } : {}),
+    });
+  },
+];
+
+/** The tool call `input` asks for, `help`, or a reply saying it wasn’t understood. */
+export function parseCommand(input: string, context: CommandContext): ParsedCommand {
+  const cleaned = input
+    .replace(/[’‘]/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(?:please|ok|okay|jarvis)[,\s]+/i, '')
+    .replace(/(?<=.)[.!?]+$/, '')
+    .replace(/,?\s+please$/i, '');
+  if (!cleaned) return { kind: 'unknown', reply: 'Type a command – or “help” for examples.' };
+
+  for (const rule of RULES) {
+    const command = rule(cleaned, context);
+    if (command) return command;
+  }
+  return { kind: 'unknown', reply: `Sorry, I didn’t understand “${cleaned}”. Type “help” for examples.` };
+}
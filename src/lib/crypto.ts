@@ -0,0 +1,78 @@
+/**
+ * WebCrypto helpers for passphrase‑based encryption.
+ *
+ *   • PBKDF2‑SHA‑256 turns a passphrase + random salt into an AES key
+ *   • AES‑GCM (256 bit, fresh 96‑bit IV per message) seals strings
+ *
+ * Everything crossing this module’s boundary is a plain string (base64
+ * for binary), so sealed values can go straight into any storage backend.
+ */
+
+export const KDF_ITERATIONS = 600_000;
+
+/** An encrypted string: base64 IV + base64 ciphertext. */
+export interface Sealed {
+  iv: string;
+  data: string;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+}
+
+export function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
+}
+
+/** True when the runtime offers `crypto.subtle` (secure contexts only). */
+export function isCryptoAvailable(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+}
+
+/** A new random salt, base64‑encoded. */
+export function randomSalt(): string {
+  return toBase64(crypto.getRandomValues(new Uint8Array(16)));
+}
+
+/** Derive a non‑extractable AES‑GCM key from `passphrase`. */
+export async function deriveKey(
+  passphrase: string,
+  salt: string,
+  iterations: number = KDF_ITERATIONS,
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptText(key: CryptoKey, plaintext: string): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, encoder.encode(plaintext));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/** Rejects if `key` is wrong or the data was tampered with. */
+export async function decryptText(key: CryptoKey, sealed: Sealed): Promise<string> {
+  const plain = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(sealed.iv) },
+    key,
+    fromBase64(sealed.data),
+  );
+  return decoder.decode(plain);
+}
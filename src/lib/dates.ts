@@ -0,0 +1,78 @@
+/**
+ * Calendar‑day helpers.
+ *
+ * Entries are keyed by a local `YYYY-MM-DD` string.  Unlike
+ * `Date#toDateString()` this is locale‑independent and sorts correctly as
+ * plain text.  Never feed a date key straight into `new Date()` – the
+ * spec parses it as UTC midnight, which lands on the previous day west of
+ * Greenwich.  Use `parseDateKey` instead.
+ */
+
+const DATE_KEY_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Local calendar day of `date` (defaults to now) as `YYYY-MM-DD`. */
+export function toDateKey(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Convenience: today’s date key. */
+export function todayKey(): string {
+  return toDateKey(new Date());
+}
+
+/** True if `value` is already a canonical `YYYY-MM-DD` key. */
+export function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && DATE_KEY_RE.test(value);
+}
+
+/** Local midnight of the given date key. */
+export function parseDateKey(key: string): Date {
+  const match = DATE_KEY_RE.exec(key);
+  if (!match) return new Date(key);
+  const [, y, m, d] = match;
+  return new Date(Number(y), Number(m) - 1, Number(d));
+}
+
+/**
+ * Best‑effort conversion of any stored date representation
+ * (`toDateString()`, ISO timestamp, date key) to a date key.
+ * Returns `null` when the value can’t be understood.
+ */
+export function normalizeDateKey(value: unknown): string | null {
+  if (isDateKey(value)) return value;
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : toDateKey(parsed);
+}
+
+/** Whole calendar days between two date keys (`b - a`). */
+export function daysBetween(a: string, b: string): number {
+  const ms = parseDateKey(b).getTime() - parseDateKey(a).getTime();
+  return Math.round(ms / (1000 * 60 * 60 * 24));
+}
+
+/** Monday of the week `key` falls in – weeks run Monday → Sunday everywhere. */
+export function startOfWeek(key: string): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return toDateKey(date);
+}
+
+/**
+ * Length of the run of consecutive days in `dateKeys` that ends today –
+ * or yesterday, so the streak doesn’t reset before today’s plan is made.
+ */
+export function streakLength(dateKeys: Iterable<string>, today: string = todayKey()): number {
+  const days = new Set(dateKeys);
+  const cursor = parseDateKey(today);
+  if (!days.has(today)) cursor.setDate(cursor.getDate() - 1);
+
+  let streak = 0;
+  while (days.has(toDateKey(cursor))) {
+    streak += 1;
+    cursor.setDate(cursor.getDate() - 1);
+  }
+  return streak;
+}
@@ -0,0 +1,69 @@
+/**
+ * Deadline helpers: overdue checks, time‑to‑deadline pressure for the
+ * prioritization strategies, and short human labels.
+ *
+ * `dueAt` is a full ISO timestamp (date and time); a task without one
+ * has no deadline.  Completed tasks are never overdue.
+ */
+
+import type { Task } from '@/lib/schema';
+import { toDateKey } from '@/lib/dates';
+
+const HOUR = 60 * 60 * 1000;
+
+/** Deadlines further away than this exert no pressure yet. */
+export const DEADLINE_HORIZON_HOURS = 7 * 24;
+
+/** Due within this many hours (or overdue) counts as “due soon”. */
+export const DUE_SOON_HOURS = 24;
+
+type Deadline = Pick<Task, 'dueAt' | 'deadlineType' | 'completed'>;
+
+/** Hours until `task` is due (negative once overdue); `null` without a deadline. */
+export function hoursUntilDue(task: Deadline, now: Date = new Date()): number | null {
+  if (!task.dueAt) return null;
+  return (new Date(task.dueAt).getTime() - now.getTime()) / HOUR;
+}
+
+export function isOverdue(task: Deadline, now: Date = new Date()): boolean {
+  const hours = hoursUntilDue(task, now);
+  return !task.completed && hours !== null && hours < 0;
+}
+
+export function isDueSoon(task: Deadline, now: Date = new Date()): boolean {
+  const hours = hoursUntilDue(task, now);
+  return !task.completed && hours !== null && hours < DUE_SOON_HOURS;
+}
+
+/**
+ * How strongly the deadline pushes a task up, 0–1: rises linearly over
+ * the last `DEADLINE_HORIZON_HOURS` and is 1 once overdue.  Soft
+ * deadlines count half.
+ */
+export function deadlinePressure(task: Deadline, now: Date = new Date()): number {
+  const hours = hoursUntilDue(task, now);
+  if (task.completed || hours === null) return 0;
+  const pressure = Math.min(1, Math.max(0, 1 - hours / DEADLINE_HORIZON_HOURS));
+  return task.deadlineType === 'hard' ? pressure : pressure / 2;
+}
+
+const time = (d: Date) => d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/** e.g. “today 17:00”, “tomorrow 09:30”, “Fri 12 Jul 17:00” */
+export function formatDue(dueAt: string, now: Date = new Date()): string {
+  const due = new Date(dueAt);
+  const tomorrow = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  if (toDateKey(due) === toDateKey(now)) return `today ${time(due)}`;
+  if (toDateKey(due) === toDateKey(tomorrow)) return `tomorrow ${time(due)}`;
+  const day = due.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+  return `${day} ${time(due)}`;
+}
+
+/** e.g. “in 3 h”, “in 2 d”, “2 h overdue” */
+export function formatTimeLeft(task: Deadline, now: Date = new Date()): string | null {
+  const hours = hoursUntilDue(task, now);
+  if (hours === null) return null;
+  const abs = Math.abs(hours);
+  const span = abs < 1 ? `${Math.max(1, Math.round(abs * 60))} min` : abs < 48 ? `${Math.round(abs)} h` : `${Math.round(abs / 24)} d`;
+  return hours < 0 ? `${span} overdue` : `in ${span}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * App‑level controls for encryption at rest.
+ *
+ * Thin wrappers around the active vault (`@/lib/repository/vault`) that
+ * announce every state change through the change feed, so the lock
+ * screen and every data view react – in this tab and in others.
+ */
+
+import { getVault, type EncryptionSettings, type SecretKind, type VaultStatus } from '@/lib/repository';
+import { notifyDataChanged } from '@/lib/changeFeed';
+import { isCryptoAvailable } from '@/lib/crypto';
+
+export type { EncryptionSettings, SecretKind, VaultStatus };
+export { isCryptoAvailable };
+
+/** Length of a PIN entered on the PIN pad. */
+export const PIN_LENGTH = 6;
+
+/** Minimum length for a free‑text passphrase. */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 5;
+
+/** Why `secret` is not acceptable as a new PIN / passphrase, or `null`. */
+export function validateSecret(secret: string, kind: SecretKind): string | null {
+  if (kind === 'pin') {
+    return new RegExp(`^\\d{${PIN_LENGTH}}$`).test(secret) ? null : `Enter all ${PIN_LENGTH} digits`;
+  }
+  return secret.length >= MIN_PASSPHRASE_LENGTH
+    ? null
+    : `Use at least ${MIN_PASSPHRASE_LENGTH} characters`;
+}
+
+export function getEncryptionStatus(): Promise<VaultStatus> {
+  return getVault().status();
+}
+
+export function getEncryptionSettings(): Promise<EncryptionSettings | null> {
+  return getVault().settings();
+}
+
+export async function enableEncryption(secret: string, settings: EncryptionSettings): Promise<void> {
+  const problem = validateSecret(secret, settings.kind);
+  if (problem) throw new Error(`[encryption] ${problem}`);
+  await getVault().enable(secret, settings);
+  notifyDataChanged();
+}
+
+/** Resolves `false` for a wrong PIN / passphrase. */
+export async function unlockStorage(secret: string): Promise<boolean> {
+  const ok = await getVault().unlock(secret);
+  if (ok) notifyDataChanged();
+  return ok;
+}
+
+export function lockStorage(): void {
+  getVault().lock();
+  notifyDataChanged();
+}
+
+export async function changePassphrase(current: string, next: string, kind: SecretKind): Promise<void> {
+  const problem = validateSecret(next, kind);
+  if (problem) throw new Error(`[encryption] ${problem}`);
+  await getVault().changePassphrase(current, next, kind);
+  notifyDataChanged();
+}
+
+export async function disableEncryption(secret: string): Promise<void> {
+  await getVault().disable(secret);
+  notifyDataChanged();
+}
+
+export async function setAutoLockMinutes(minutes: number): Promise<void> {
+  await getVault().setAutoLockMinutes(minutes);
+  notifyDataChanged();
+}
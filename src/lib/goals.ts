@@ -0,0 +1,181 @@
+/**
+ * Long‑term goals and how well daily tasks line up with them.
+ *
+ * A goal is set for a year (`2026`) or a quarter (`2026-Q3`) and may list
+ * OKR‑style key results.  A task serves at most one goal (`Task.goalId`).
+ * The alignment score of a day or week is the share of its planned tasks
+ * that serve a goal; everything else counts as unlinked busywork.
+ *
+ * Goals live in the repository’s meta store under `GOALS_KEY`.  Like
+ * categories they are archived rather than deleted, so old tasks keep
+ * their link.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { parseDateKey, startOfWeek, toDateKey, todayKey } from '@/lib/dates';
+import {
+  GoalSchema,
+  describeIssues,
+  type DailyEntry,
+  type Goal,
+  type GoalHorizon,
+  type Task,
+} from '@/lib/schema';
+import { getMetaValue, setMetaValue } from '@/lib/tasks';
+import { GOALS_KEY } from '@/lib/metaKeys';
+
+export type { Goal, GoalHorizon } from '@/lib/schema';
+export { GOAL_HORIZONS } from '@/lib/schema';
+
+export { GOALS_KEY } from '@/lib/metaKeys';
+
+export const MAX_GOALS = 10;
+
+export type GoalInput = Pick<Goal, 'title' | 'horizon' | 'period'> & Partial<Pick<Goal, 'keyResults'>>;
+
+/** The year or quarter `date` falls in, in `Goal.period` form. */
+export function periodOf(horizon: GoalHorizon, date: string = todayKey()): string {
+  const year = date.slice(0, 4);
+  if (horizon === 'year') return year;
+  return `${year}-Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1}`;
+}
+
+/** “2026” or “Q3 2026”. */
+export const formatPeriod = (period: string) =>
+  period.includes('-Q') ? `${period.slice(5)} ${period.slice(0, 4)}` : period;
+
+/** Every stored goal, archived ones included. */
+export async function getGoals(): Promise<Goal[]> {
+  let stored: unknown;
+  try {
+    stored = JSON.parse((await getMetaValue(GOALS_KEY)) || '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(raw => {
+    const parsed = GoalSchema.safeParse(raw);
+    return parsed.success ? [parsed.data as Goal] : [];
+  });
+}
+
+/** Goals that can be linked to new tasks: not archived, and their period isn’t over. */
+export const activeGoals = (goals: Goal[], date: string = todayKey()) =>
+  goals.filter(g => !g.archived && g.period >= periodOf(g.horizon, date));
+
+/**
+ * The active goal `value` names: by id, by title ignoring case, or – for
+ * three or more characters – the one title that contains it.
+ */
+export function findGoal(goals: Goal[], value: string, date: string = todayKey()): Goal | undefined {
+  const wanted = value.trim().toLowerCase();
+  const active = activeGoals(goals, date);
+  const exact = active.find(g => g.id === value.trim()) ?? active.find(g => g.title.toLowerCase() === wanted);
+  if (exact || wanted.length < 3) return exact;
+  const partial = active.filter(g => g.title.toLowerCase().includes(wanted));
+  return partial.length === 1 ? partial[0] : undefined;
+}
+
+/** Id of the active goal `value` names; throws listing the choices otherwise. */
+export async function resolveGoalId(value: string): Promise<string> {
+  const goals = await getGoals();
+  const match = findGoal(goals, value);
+  if (!match) {
+    const titles = activeGoals(goals).map(g => g.title);
+    throw new Error(
+      titles.length
+        ? `[goals] Unknown goal “${value}” – use one of: ${titles.join(', ')}`
+        : `[goals] Unknown goal “${value}” – no goals have been set yet`,
+    );
+  }
+  return match.id;
+}
+
+async function saveAll(goals: Goal[]): Promise<void> {
+  await setMetaValue(GOALS_KEY, JSON.stringify(goals));
+}
+
+/** Create a goal, or update the one with `id`. */
+export async function saveGoal(input: GoalInput, id?: string): Promise<Goal> {
+  const goals = await getGoals();
+  const existing = id ? goals.find(g => g.id === id) : undefined;
+  if (id && !existing) throw new Error(`[goals] No goal ${id}`);
+  if (!existing && activeGoals(goals).length >= MAX_GOALS) {
+    throw new Error(`[goals] At most ${MAX_GOALS} goals at a time`);
+  }
+
+  const parsed = GoalSchema.safeParse({
+    createdAt: new Date().toISOString(),
+    ...existing,
+    ...input,
+    id: existing?.id ?? uuidv4(),
+    keyResults: (input.keyResults ?? existing?.keyResults ?? []).map(k => k.trim()).filter(Boolean),
+  });
+  if (!parsed.success) throw new Error(`[goals] ${describeIssues(parsed.error)}`);
+  const goal = parsed.data as Goal;
+
+  await saveAll(existing ? goals.map(g => (g.id === id ? goal : g)) : [...goals, goal]);
+  return goal;
+}
+
+/** Set a goal aside (done or abandoned); tasks linked to it keep the link. */
+export async function setGoalArchived(id: string, archived = true): Promise<void> {
+  const goals = await getGoals();
+  if (!goals.some(g => g.id === id)) throw new Error(`[goals] No goal ${id}`);
+  await saveAll(goals.map(g => (g.id === id ? { ...g, archived } : g)));
+}
+
+/** Add `incoming` goals this store doesn’t have yet (by id), e.g. from a merged backup. */
+export async function mergeGoals(incoming: Goal[]): Promise<void> {
+  const goals = await getGoals();
+  const known = new Set(goals.map(g => g.id));
+  const added = incoming.filter(g => !known.has(g.id) && GoalSchema.safeParse(g).success);
+  if (added.length > 0) await saveAll([...goals, ...added]);
+}
+
+/* ------------------------------------------------------------------ *
+ *  Alignment                                                         *
+ * ------------------------------------------------------------------ */
+
+export interface Alignment {
+  /** tasks counted (dropped ones are left out) */
+  total: number;
+  /** of those, tasks linked to a goal */
+  aligned: number;
+  /** aligned / total, 0–1; `null` when there was nothing to count */
+  score: number | null;
+  /** linked tasks per goal id */
+  byGoal: Record<string, number>;
+}
+
+/** How many of `tasks` serve a goal.  Tasks dropped at rollover never took effort. */
+export function alignmentOf(tasks: Task[]): Alignment {
+  const counted = tasks.filter(t => t.rolledOver !== 'dropped');
+  const byGoal: Record<string, number> = {};
+  for (const task of counted) {
+    if (task.goalId) byGoal[task.goalId] = (byGoal[task.goalId] ?? 0) + 1;
+  }
+  const aligned = Object.values(byGoal).reduce((sum, n) => sum + n, 0);
+  return { total: counted.length, aligned, score: counted.length ? aligned / counted.length : null, byGoal };
+}
+
+/** Alignment of one day. */
+export const dayAlignment = (entries: DailyEntry[], date: string = todayKey()) =>
+  alignmentOf(entries.find(e => e.date === date)?.tasks ?? []);
+
+/**
+ * Alignment of the week (Monday → Sunday) `date` falls in.  A task
+ * carried over counts on every day it was planned for – each day it took
+ * a slot.
+ */
+export function weekAlignment(entries: DailyEntry[], date: string = todayKey()): Alignment {
+  const from = startOfWeek(date);
+  const end = parseDateKey(from);
+  end.setDate(end.getDate() + 6);
+  const to = toDateKey(end);
+  return alignmentOf(entries.filter(e => e.date >= from && e.date <= to).flatMap(e => e.tasks));
+}
+
+/** “62%”, or “–” when there is nothing to score. */
+export const formatAlignment = ({ score }: Pick<Alignment, 'score'>) =>
+  score === null ? '–' : `${Math.round(score * 100)}%`;
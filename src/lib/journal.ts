@@ -0,0 +1,104 @@
+/**
+ * Undo / redo journal – data structures only.
+ *
+ * Each mutation made through `@/lib/tasks` records a snapshot of the
+ * affected day (or days – rollover touches two) before and after the change.  Undo restores `before`,
+ * redo restores `after`.  Snapshots (rather than inverse operations) keep
+ * this robust against the many ways a day can be edited: typed form,
+ * voice tools, finalize, restore…
+ *
+ * The journal is persisted as JSON in the repository’s meta store, so it
+ * survives reloads.  The glue that captures and restores snapshots lives
+ * in `@/lib/tasks`.
+ */
+
+import type { DailyEntry } from '@/lib/schema';
+
+export const JOURNAL_KEY = 'journal';
+
+/** How many steps we can go back. */
+export const MAX_JOURNAL_LENGTH = 50;
+
+export type MutationKind =
+  | 'add'
+  | 'edit'
+  | 'remove'
+  | 'reorder'
+  | 'complete'
+  | 'finalize'
+  | 'save'
+  | 'restore'
+  | 'rollover';
+
+/** A day as it looked at one moment (revisions are not part of it). */
+export interface DaySnapshot {
+  /** `null` = the day had no record yet */
+  entry: Omit<DailyEntry, 'revisions' | 'transcripts'> | null;
+  lastCompleted: string | null;
+}
+
+/** How one day looked before and after a mutation. */
+export interface DayChange {
+  date: string;
+  before: DaySnapshot;
+  after: DaySnapshot;
+}
+
+export interface JournalRecord extends DayChange {
+  id: string;
+  kind: MutationKind;
+  /** short human label, e.g. `Remove “Gym”` */
+  label: string;
+  at: string;
+  /** further days the same mutation changed; undone and redone together with `date` */
+  also?: DayChange[];
+}
+
+export interface JournalState {
+  /** oldest → newest; the last item is undone first */
+  undo: JournalRecord[];
+  /** most recently undone last */
+  redo: JournalRecord[];
+}
+
+export const emptyJournal = (): JournalState => ({ undo: [], redo: [] });
+
+/** Every day a record changed, its own `date` first. */
+export const changesOf = (record: JournalRecord): DayChange[] => [record, ...(record.also ?? [])];
+
+/** Parse the stored JSON, falling back to an empty journal. */
+export function parseJournal(raw: string | null): JournalState {
+  try {
+    const parsed = JSON.parse(raw || 'null');
+    if (parsed && Array.isArray(parsed.undo) && Array.isArray(parsed.redo)) return parsed;
+  } catch {
+    // corrupt journal – start over rather than break undo entirely
+  }
+  return emptyJournal();
+}
+
+/** Record a fresh mutation: it becomes undoable and clears the redo stack. */
+export function pushRecord(state: JournalState, record: JournalRecord): JournalState {
+  return { undo: [...state.undo, record].slice(-MAX_JOURNAL_LENGTH), redo: [] };
+}
+
+/** Move the newest undoable record onto the redo stack. */
+export function popUndo(state: JournalState): { record?: JournalRecord; state: JournalState } {
+  const record = state.undo[state.undo.length - 1];
+  if (!record) return { state };
+  return { record, state: { undo: state.undo.slice(0, -1), redo: [...state.redo, record] } };
+}
+
+/** Move the most recently undone record back onto the undo stack. */
+export function popRedo(state: JournalState): { record?: JournalRecord; state: JournalState } {
+  const record = state.redo[state.redo.length - 1];
+  if (!record) return { state };
+  return { record, state: { undo: [...state.undo, record], redo: state.redo.slice(0, -1) } };
+}
+
+/** Strip revisions and transcripts so snapshots stay small (and undo never rewinds a conversation). */
+export function snapshotOf(entry: DailyEntry | undefined, lastCompleted: string | null): DaySnapshot {
+  if (!entry) return { entry: null, lastCompleted };
+  const { revisions: _revisions, transcripts: _transcripts, ...rest } = entry;
+  return { entry: rest, lastCompleted };
+}
@@ -0,0 +1,19 @@
+/**
+ * Meta‑store keys shared by the storage helpers and the migrations.
+ *
+ * They live here, with no imports of their own, so `@/lib/migrations`
+ * can use them without importing `@/lib/tasks` or `@/lib/categories`
+ * (which depend on the migrations themselves).
+ */
+
+/** Day the plan was last locked in (`YYYY-MM-DD`). */
+export const LAST_COMPLETED_KEY = 'lastCompleted';
+
+/** The user’s category list (JSON). */
+export const CATEGORIES_KEY = 'categories';
+
+/** The user’s long‑term goals (JSON). */
+export const GOALS_KEY = 'goals';
+
+/** Records set aside because they failed validation (JSON). */
+export const QUARANTINE_KEY = 'quarantine';
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryRepository } from '@/lib/repository';
+import { DEFAULT_CATEGORIES, partitionEntries } from '@/lib/schema';
+import { CATEGORIES_KEY, LAST_COMPLETED_KEY } from '@/lib/metaKeys';
+import { JOURNAL_KEY } from '@/lib/journal';
+import {
+  SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  ensureMigrated,
+  migrateEntries,
+  migrateEntry,
+  runMigrations,
+} from '@/lib/migrations';
+
+const v1 = (date: string, timestamp: string, tasks: unknown[], extra: object = {}) => ({ date, timestamp, tasks, ...extra });
+
+describe('migrateEntry', () => {
+  it('upgrades an unversioned record to a valid current entry', () => {
+    const entry = migrateEntry(
+      v1('Mon Oct 19 2026', '2026-10-19T08:00:00.000Z', [
+        { id: 'a', text: { text: 'Gym' }, category: 'Personal' },
+        { id: 'b', text: 'Report', category: 'professional', completed: true },
+      ]),
+    );
+
+    expect(entry.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(entry.date).toBe('2026-10-19');
+    expect(entry.tasks[0]).toMatchObject({ text: 'Gym', category: 'personal', priority: 1, completed: false, createdAt: '2026-10-19T08:00:00.000Z' });
+    expect(entry.tasks[1]).toMatchObject({ priority: 2, completed: true, urgent: expect.any(Boolean), important: expect.any(Boolean) });
+    expect(partitionEntries([entry]).rejected).toEqual([]);
+  });
+
+  it('leaves what it cannot repair for validation to quarantine', () => {
+    const entry = migrateEntry({ date: 'not a date', tasks: 'nope' });
+    expect(partitionEntries([entry]).valid).toEqual([]);
+  });
+});
+
+describe('migrateEntries', () => {
+  it('collapses several records for one day, keeping older ones as revisions', () => {
+    const [entry, ...rest] = migrateEntries([
+      v1('2026-10-19', '2026-10-19T08:00:00.000Z', [{ id: 'a', text: 'First plan', category: 'personal' }]),
+      v1('2026-10-19', '2026-10-19T12:00:00.000Z', [{ id: 'b', text: 'Second plan', category: 'personal' }], { reflection: 'busy' }),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(entry.timestamp).toBe('2026-10-19T08:00:00.000Z');
+    expect(entry.reflection).toBe('busy');
+    expect(entry.tasks.map(t => t.text)).toEqual(['Second plan']);
+    expect(entry.revisions?.map(r => r.tasks.map(t => t.text))).toEqual([['First plan']]);
+  });
+});
+
+describe('runMigrations', () => {
+  it('upgrades the store and its meta values once', async () => {
+    const repo = createMemoryRepository();
+    await repo.replaceEntries([v1('2026-10-19', '2026-10-19T08:00:00.000Z', [{ id: 'a', text: 'Gym' }])] as never);
+    await repo.setMeta(LAST_COMPLETED_KEY, 'Mon Oct 19 2026');
+    await repo.setMeta(JOURNAL_KEY, '{"undo":[],"redo":[]}');
+
+    await runMigrations(repo);
+
+    const [entry] = await repo.getEntries();
+    expect(entry.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(await repo.getMeta(LAST_COMPLETED_KEY)).toBe('2026-10-19');
+    expect(await repo.getMeta(JOURNAL_KEY)).toBeNull();
+    expect(JSON.parse((await repo.getMeta(CATEGORIES_KEY)) ?? 'null')).toEqual(DEFAULT_CATEGORIES);
+    expect(await repo.getMeta(SCHEMA_VERSION_KEY)).toBe(String(SCHEMA_VERSION));
+  });
+
+  it('gives task categories outside the defaults a category of their own', async () => {
+    const repo = createMemoryRepository();
+    await repo.replaceEntries([
+      v1('2026-10-19', '2026-10-19T08:00:00.000Z', [
+        { id: 'a', text: 'Standup', category: 'Work' },
+        { id: 'b', text: 'Review', category: 'work' },
+        { id: 'c', text: 'Gym', category: 'Personal' },
+      ]),
+    ] as never);
+
+    await runMigrations(repo);
+
+    const categories = JSON.parse((await repo.getMeta(CATEGORIES_KEY)) ?? 'null');
+    expect(categories.slice(0, DEFAULT_CATEGORIES.length)).toEqual(DEFAULT_CATEGORIES);
+    expect(categories.slice(DEFAULT_CATEGORIES.length)).toEqual([
+      { id: 'Work', name: 'Work', color: expect.any(String), icon: 'folder' },
+    ]);
+    const [entry] = await repo.getEntries();
+    expect(entry.tasks.map(t => t.category)).toEqual(['Work', 'Work', 'personal']);
+    expect(partitionEntries([entry]).rejected).toEqual([]);
+  });
+
+  it('rejects while the store fails, then retries', async () => {
+    const repo = createMemoryRepository();
+    const getMeta = repo.getMeta;
+    repo.getMeta = async () => {
+      throw new Error('locked');
+    };
+
+    await expect(ensureMigrated(repo)).rejects.toThrow(/locked/);
+    repo.getMeta = getMeta;
+    await expect(ensureMigrated(repo)).resolves.toBeUndefined();
+    expect(await repo.getMeta(SCHEMA_VERSION_KEY)).toBe(String(SCHEMA_VERSION));
+  });
+});
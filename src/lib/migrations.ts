@@ -0,0 +1,331 @@
+/**
+ * Schema versioning for stored DailyEntry records.
+ *
+ * Every entry carries a `schemaVersion` stamp.  Records written before
+ * versioning existed are treated as version 1.  On first access the
+ * runner below upgrades every outdated record, one step at a time, and
+ * writes the result back so components only ever see the canonical shape.
+ *
+ * To change the stored shape: bump `SCHEMA_VERSION` and add a step to
+ * `MIGRATIONS` that upgrades a record from the previous version.  Steps
+ * that need to see every record at once (e.g. merging records) go into
+ * `COLLECTION_MIGRATIONS` instead; they run after the per‑record steps.
+ */
+
+import type { EntryRepository } from '@/lib/repository';
+import {
+  CATEGORY_COLORS,
+  DEFAULT_CATEGORIES,
+  DEFAULT_URGENCY,
+  type Category,
+  type DailyEntry,
+} from '@/lib/schema';
+import { CATEGORIES_KEY, LAST_COMPLETED_KEY } from '@/lib/metaKeys';
+import { JOURNAL_KEY } from '@/lib/journal';
+import { normalizeDateKey } from '@/lib/dates';
+
+export const SCHEMA_VERSION = 5;
+
+/** Version assumed for records that predate the stamp. */
+const UNVERSIONED = 1;
+
+/** Meta key holding the version the whole store was last upgraded to. */
+export const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+type RawRecord = Record<string, unknown>;
+
+/** Upgrades a record from `version - 1` to `version`. */
+type Migration = (record: RawRecord) => RawRecord;
+
+const MIGRATIONS: Record<number, Migration> = {
+  /**
+   * v1 → v2
+   *   • `date` becomes a local `YYYY-MM-DD` key instead of `toDateString()`
+   *   • `task.text` saved as `{ text }` objects is flattened to a string
+   *   • missing `completed` / `createdAt` / `priority` are filled in
+   */
+  2: record => {
+    // Only repair what can be repaired – anything else is left as‑is for
+    // validation to quarantine.
+    const timestamp = record.timestamp;
+    const date = normalizeDateKey(record.date) ?? normalizeDateKey(timestamp) ?? record.date;
+    if (!Array.isArray(record.tasks)) return { ...record, date };
+
+    return {
+      ...record,
+      date,
+      tasks: record.tasks.map((raw, idx) => {
+        const task: RawRecord = raw && typeof raw === 'object' ? { ...raw } : { text: raw };
+        return {
+          ...task,
+          text: flattenText(task.text),
+          priority: typeof task.priority === 'number' ? task.priority : idx + 1,
+          completed: task.completed === true,
+          createdAt: typeof task.createdAt === 'string' ? task.createdAt : timestamp,
+        };
+      }),
+    };
+  },
+
+  /**
+   * v3 → v4
+   *   • tasks (current and in revisions) gain `urgent` / `important`,
+   *     defaulting to `DEFAULT_URGENCY` – the old category‑based score
+   *     is not carried over
+   */
+  4: record => {
+    const withUrgency = (tasks: unknown) =>
+      Array.isArray(tasks)
+        ? tasks.map(t =>
+            t && typeof t === 'object'
+              ? {
+                  ...t,
+                  urgent: typeof t.urgent === 'boolean' ? t.urgent : DEFAULT_URGENCY.urgent,
+                  important: typeof t.important === 'boolean' ? t.important : DEFAULT_URGENCY.important,
+                }
+              : t,
+          )
+        : tasks;
+
+    return {
+      ...record,
+      tasks: withUrgency(record.tasks),
+      ...(Array.isArray(record.revisions)
+        ? {
+            revisions: record.revisions.map(r =>
+              r && typeof r === 'object' ? { ...r, tasks: withUrgency(r.tasks) } : r,
+            ),
+          }
+        : {}),
+    };
+  },
+
+  /**
+   * v4 → v5
+   *   • categories become user‑defined ids; the old fixed values already
+   *     are the ids of the two default categories, so only stray spellings
+   *     (“Personal”, missing) are mapped onto them.  Any other value gets
+   *     a category of its own in `runMigrations` (see `adoptCategories`).
+   */
+  5: record => {
+    const defaults = new Set(DEFAULT_CATEGORIES.map(c => c.id));
+    const withCategory = (tasks: unknown) =>
+      Array.isArray(tasks)
+        ? tasks.map(t => {
+            if (!t || typeof t !== 'object') return t;
+            const category = typeof t.category === 'string' ? t.category.trim().toLowerCase() : '';
+            return { ...t, category: defaults.has(category) ? category : t.category ?? DEFAULT_CATEGORIES[0].id };
+          })
+        : tasks;
+
+    return {
+      ...record,
+      tasks: withCategory(record.tasks),
+      ...(Array.isArray(record.revisions)
+        ? {
+            revisions: record.revisions.map(r =>
+              r && typeof r === 'object' ? { ...r, tasks: withCategory(r.tasks) } : r,
+            ),
+          }
+        : {}),
+    };
+  },
+};
+
+/** Upgrades a whole collection of records to `version`. */
+type CollectionMigration = (records: RawRecord[]) => RawRecord[];
+
+const COLLECTION_MIGRATIONS: Record<number, CollectionMigration> = {
+  /**
+   * v2 → v3
+   *   Several records for the same calendar day are collapsed into one.
+   *   The newest record’s content wins; older ones become `revisions`.
+   *   The oldest record’s `timestamp` stays the day’s identity.
+   */
+  3: records => {
+    const byDate = new Map<unknown, RawRecord[]>();
+    for (const r of records) byDate.set(r.date, [...(byDate.get(r.date) ?? []), r]);
+
+    const collapsed: RawRecord[] = [];
+    for (const group of byDate.values()) {
+      if (group.length === 1) {
+        collapsed.push(group[0]);
+        continue;
+      }
+      const sorted = [...group].sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)));
+      const latest = sorted[sorted.length - 1];
+      collapsed.push({
+        ...latest,
+        timestamp: sorted[0].timestamp,
+        updatedAt: latest.timestamp,
+        revisions: sorted.slice(0, -1).map(r => ({
+          savedAt: r.timestamp,
+          tasks: r.tasks,
+          ...(r.reflection ? { reflection: r.reflection } : {}),
+        })),
+      });
+    }
+    return collapsed;
+  },
+};
+
+/**
+ * Give every task category that names no known category (“Work”) one of
+ * its own, so those tasks still show up in pickers and stats.  A value
+ * matching a category’s name (ignoring case) is pointed at that category;
+ * spellings that differ only in case share one new category.  Revisions
+ * are updated too.  Returns `null` when nothing needed adopting.
+ */
+function adoptCategories(
+  entries: DailyEntry[],
+  categories: Category[],
+): { entries: DailyEntry[]; categories: Category[] } | null {
+  const ids = new Set(categories.map(c => c.id));
+  const byName = new Map(categories.map(c => [c.name.toLowerCase(), c.id]));
+  const added: Category[] = [];
+  const colors = CATEGORY_COLORS.filter(c => c !== 'gray');
+
+  const idFor = (value: string): string => {
+    if (ids.has(value)) return value;
+    const name = value.trim().slice(0, 32);
+    const known = byName.get(name.toLowerCase());
+    if (known) return known;
+    const category: Category = { id: value, name, color: colors[added.length % colors.length], icon: 'folder' };
+    added.push(category);
+    ids.add(value);
+    byName.set(name.toLowerCase(), value);
+    return value;
+  };
+
+  let changed = false;
+  const remap = <T extends { tasks: DailyEntry['tasks'] }>(holder: T): T => {
+    if (!Array.isArray(holder?.tasks)) return holder;
+    const tasks = holder.tasks.map(t => {
+      if (!t || typeof t.category !== 'string' || !t.category.trim()) return t;
+      const id = idFor(t.category);
+      if (id === t.category) return t;
+      changed = true;
+      return { ...t, category: id };
+    });
+    return { ...holder, tasks };
+  };
+
+  const remapped = entries.map(entry => {
+    const next = remap(entry);
+    return Array.isArray(entry.revisions) ? { ...next, revisions: entry.revisions.map(remap) } : next;
+  });
+  if (added.length === 0 && !changed) return null;
+  return { entries: changed ? remapped : entries, categories: [...categories, ...added] };
+}
+
+/** Older sessions sometimes stored `{ text: '…' }` (or worse) as the text. */
+function flattenText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && 'text' in value) {
+    return flattenText((value as { text: unknown }).text);
+  }
+  return value == null ? '' : String(value);
+}
+
+/** Version stamp of a raw record (unversioned → 1). */
+export function recordVersion(raw: unknown): number {
+  const v = (raw as RawRecord | null)?.schemaVersion;
+  return typeof v === 'number' ? v : UNVERSIONED;
+}
+
+/** Apply the per‑record steps only (no stamp). */
+function upgradeRecord(raw: unknown): RawRecord {
+  let record: RawRecord = raw && typeof raw === 'object' ? { ...(raw as RawRecord) } : {};
+  for (let v = recordVersion(raw) + 1; v <= SCHEMA_VERSION; v++) {
+    if (MIGRATIONS[v]) record = MIGRATIONS[v](record);
+  }
+  return record;
+}
+
+/**
+ * Upgrade a single raw record to the current schema.  Collection steps
+ * are skipped – use `migrateEntries` when you have the full set.
+ */
+export function migrateEntry(raw: unknown): DailyEntry {
+  return { ...upgradeRecord(raw), schemaVersion: SCHEMA_VERSION } as unknown as DailyEntry;
+}
+
+/** Upgrade a full set of raw records, collection steps included. */
+export function migrateEntries(raw: unknown[]): DailyEntry[] {
+  const oldest = Math.min(SCHEMA_VERSION, ...raw.map(recordVersion));
+  let records = raw.map(upgradeRecord);
+  for (let v = oldest + 1; v <= SCHEMA_VERSION; v++) {
+    if (COLLECTION_MIGRATIONS[v]) records = COLLECTION_MIGRATIONS[v](records);
+  }
+  return records.map(r => ({ ...r, schemaVersion: SCHEMA_VERSION }) as unknown as DailyEntry);
+}
+
+/**
+ * Upgrade everything in `repo` that is older than `SCHEMA_VERSION`,
+ * including meta values whose format changed along the way.
+ */
+export async function runMigrations(repo: EntryRepository): Promise<void> {
+  const stored = Number(await repo.getMeta(SCHEMA_VERSION_KEY)) || UNVERSIONED;
+  const entries: unknown[] = await repo.getEntries();
+  const outdated = entries.some(e => recordVersion(e) < SCHEMA_VERSION);
+
+  if (outdated) {
+    await repo.replaceEntries(migrateEntries(entries));
+  }
+
+  if (stored < 2) {
+    const lastCompleted = await repo.getMeta(LAST_COMPLETED_KEY);
+    const key = lastCompleted && normalizeDateKey(lastCompleted);
+    if (key) await repo.setMeta(LAST_COMPLETED_KEY, key);
+  }
+
+  if (stored < 4) {
+    // Journal snapshots hold tasks without urgency; undoing into them would fail validation
+    await repo.removeMeta(JOURNAL_KEY);
+  }
+
+  if (stored < 5) {
+    // Seed the category list so the defaults become the user’s own to edit,
+    // and give stray task categories (“Work”) entries of their own
+    const saved = await repo.getMeta(CATEGORIES_KEY);
+    let categories: Category[] | null = saved ? null : DEFAULT_CATEGORIES;
+    try {
+      const parsed = saved && JSON.parse(saved);
+      if (Array.isArray(parsed)) categories = parsed;
+    } catch {
+      // unreadable: left for the category store to report
+    }
+    const current = await repo.getEntries();
+    const adopted = categories && adoptCategories(current, categories);
+    if (adopted && adopted.entries !== current) {
+      await repo.replaceEntries(adopted.entries);
+    }
+    if (adopted || !saved) {
+      await repo.setMeta(CATEGORIES_KEY, JSON.stringify(adopted ? adopted.categories : categories));
+    }
+  }
+
+  if (stored !== SCHEMA_VERSION) {
+    await repo.setMeta(SCHEMA_VERSION_KEY, String(SCHEMA_VERSION));
+  }
+}
+
+const migrated = new WeakMap<EntryRepository, Promise<void>>();
+
+/**
+ * Run the migrations for `repo` at most once per session.  A failed run
+ * (e.g. while the store is locked) rejects – so nothing reads records
+ * that were never upgraded – and is retried on the next call.
+ */
+export function ensureMigrated(repo: EntryRepository): Promise<void> {
+  let pending = migrated.get(repo);
+  if (!pending) {
+    pending = runMigrations(repo).catch(err => {
+      console.warn('[migrations] Could not upgrade stored entries', err);
+      migrated.delete(repo);
+      throw new Error(`[migrations] Could not upgrade stored entries: ${(err as Error)?.message ?? err}`);
+    });
+    migrated.set(repo, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,100 @@
+/**
+ * Prioritization strategies and the user’s choice between them.
+ *
+ *   • `./types`      – the strategy contract and score breakdowns
+ *   • `./strategies` – Eisenhower, MoSCoW, RICE, ICE, weighted, manual
+ *
+ * `rankTasks` applies the chosen strategy; `finalizeEntry` uses it to
+ * renumber the day’s priorities.  The choice is stored per profile in the
+ * meta store under `PRIORITIZATION_KEY`.
+ */
+
+import { getMetaValue, setMetaValue, type Task } from '@/lib/tasks';
+import { eisenhower, ice, manual, moscow, rice, weighted } from './strategies';
+import type { Criterion, PrioritizationSettings, PrioritizationStrategy, RankedTask, StrategyId } from './types';
+
+export type {
+  Criterion,
+  PrioritizationSettings,
+  PrioritizationStrategy,
+  RankedTask,
+  ScoreFactor,
+  StrategyId,
+  TaskScore,
+} from './types';
+export { MOSCOW_LABELS } from './strategies';
+
+/** Every strategy, in the order the settings list them. */
+export const STRATEGIES: PrioritizationStrategy[] = [eisenhower, moscow, rice, ice, weighted, manual];
+
+export const PRIORITIZATION_KEY = 'prioritization';
+
+export const MAX_CRITERIA = 6;
+
+export const DEFAULT_CRITERIA: Criterion[] = [
+  { id: 'importance', label: 'Importance', weight: 3 },
+  { id: 'urgency', label: 'Urgency', weight: 2 },
+  { id: 'ease', label: 'Ease', weight: 1 },
+];
+
+/** Criterion weights run 1–5, as offered in the settings. */
+export const MIN_WEIGHT = 1;
+export const MAX_WEIGHT = 5;
+
+const clampWeight = (weight: number) =>
+  Math.max(MIN_WEIGHT, Math.min(MAX_WEIGHT, Math.round(weight) || MIN_WEIGHT));
+
+export const DEFAULT_PRIORITIZATION: PrioritizationSettings = {
+  strategy: 'eisenhower',
+  criteria: DEFAULT_CRITERIA,
+};
+
+export function getStrategy(id: StrategyId): PrioritizationStrategy {
+  return STRATEGIES.find(s => s.id === id) ?? eisenhower;
+}
+
+export async function getPrioritizationSettings(): Promise<PrioritizationSettings> {
+  try {
+    const stored = JSON.parse((await getMetaValue(PRIORITIZATION_KEY)) || 'null');
+    if (!stored) return DEFAULT_PRIORITIZATION;
+    return {
+      strategy: STRATEGIES.some(s => s.id === stored.strategy) ? stored.strategy : DEFAULT_PRIORITIZATION.strategy,
+      criteria: Array.isArray(stored.criteria)
+        ? stored.criteria.map((c: Criterion) => ({ ...c, weight: clampWeight(Number(c.weight)) }))
+        : DEFAULT_CRITERIA,
+    };
+  } catch {
+    return DEFAULT_PRIORITIZATION;
+  }
+}
+
+export async function setPrioritizationSettings(settings: PrioritizationSettings): Promise<void> {
+  const labels = settings.criteria.map(c => c.label.trim());
+  if (labels.some(l => !l)) throw new Error('[prioritization] Every criterion needs a name');
+  if (settings.criteria.length > MAX_CRITERIA) {
+    throw new Error(`[prioritization] At most ${MAX_CRITERIA} criteria`);
+  }
+  const criteria = settings.criteria.map((c, i) => ({
+    ...c,
+    label: labels[i],
+    weight: clampWeight(c.weight),
+  }));
+  await setMetaValue(PRIORITIZATION_KEY, JSON.stringify({ ...settings, criteria }));
+}
+
+/**
+ * Rank `tasks` with the chosen strategy: highest score first; ties keep
+ * the user’s order (`priority`), then the earlier‑captured task wins.
+ * Strategies that don’t reorder return the tasks by `priority`.
+ */
+export function rankTasks(tasks: Task[], settings: PrioritizationSettings, now: Date = new Date()): RankedTask[] {
+  const strategy = getStrategy(settings.strategy);
+  const scored = tasks.map(task => ({ task, score: strategy.score(task, settings, now) }));
+  scored.sort(
+    (a, b) =>
+      (strategy.reorders ? b.score.score - a.score.score : 0) ||
+      a.task.priority - b.task.priority ||
+      a.task.createdAt.localeCompare(b.task.createdAt),
+  );
+  return scored.map((s, idx) => ({ ...s, rank: idx + 1 }));
+}
@@ -0,0 +1,183 @@
+/**
+ * The built‑in strategies.  Inputs a task doesn’t carry (see
+ * `TaskScoring`) are derived from its urgency / importance, and the
+ * breakdown marks them as assumed.
+ *
+ * Deadlines count everywhere a strategy reorders: within an Eisenhower
+ * quadrant or MoSCoW bucket the nearer deadline goes first, RICE and ICE
+ * scores are boosted up to ×2, and the weighted model rates urgency from
+ * the time left.  See `deadlinePressure` in `@/lib/deadlines`.
+ */
+
+import { MOSCOW_LEVELS, type MoscowLevel, type Task } from '@/lib/schema';
+import { QUADRANTS, QUADRANT_ORDER, quadrantOf, type Quadrant } from '@/lib/tasks';
+import { deadlinePressure, formatTimeLeft, hoursUntilDue, isDueSoon } from '@/lib/deadlines';
+import type { PrioritizationStrategy, ScoreFactor } from './types';
+
+const fmt = (n: number) => String(Number(n.toFixed(2)));
+const yesNo = (b: boolean) => (b ? 'Yes' : 'No');
+
+/** `value` if set, else `fallback`, plus whether the fallback was used. */
+const pick = <T>(value: T | undefined, fallback: T): [T, boolean] =>
+  value === undefined ? [fallback, true] : [value, false];
+
+const factor = (label: string, [value, assumed]: [unknown, boolean], display = String(value)): ScoreFactor =>
+  assumed ? { label, value: display, assumed } : { label, value: display };
+
+/** Breakdown line for the deadline, if the task has one. */
+const deadlineFactor = (task: Task, now: Date): ScoreFactor[] => {
+  const left = formatTimeLeft(task, now);
+  return left ? [{ label: `Deadline (${task.deadlineType ?? 'soft'})`, value: task.completed ? 'done' : left }] : [];
+};
+
+/** Keeps a deadline tie‑breaker below the step between two buckets. */
+const WITHIN_BUCKET = 0.9;
+
+export const eisenhower: PrioritizationStrategy = {
+  id: 'eisenhower',
+  name: 'Eisenhower matrix',
+  description: 'Do → Schedule → Delegate → Eliminate, from each task’s urgency and importance.',
+  reorders: true,
+  score(task, _settings, now) {
+    const quadrant = quadrantOf(task);
+    return {
+      score: QUADRANT_ORDER.length - QUADRANT_ORDER.indexOf(quadrant) + WITHIN_BUCKET * deadlinePressure(task, now),
+      summary: `Quadrant: ${QUADRANTS[quadrant].label}`,
+      factors: [
+        { label: 'Urgent', value: yesNo(task.urgent) },
+        { label: 'Important', value: yesNo(task.important) },
+        ...deadlineFactor(task, now),
+      ],
+    };
+  },
+};
+
+export const MOSCOW_LABELS: Record<MoscowLevel, string> = {
+  must: 'Must have',
+  should: 'Should have',
+  could: 'Could have',
+  wont: 'Won’t have today',
+};
+
+const MOSCOW_FROM_QUADRANT: Record<Quadrant, MoscowLevel> = {
+  do: 'must',
+  schedule: 'should',
+  delegate: 'could',
+  eliminate: 'wont',
+};
+
+export const moscow: PrioritizationStrategy = {
+  id: 'moscow',
+  name: 'MoSCoW',
+  description: 'Must, Should, Could, Won’t – a bucket per task.',
+  reorders: true,
+  score(task, _settings, now) {
+    const level = pick(task.scoring?.moscow, MOSCOW_FROM_QUADRANT[quadrantOf(task)]);
+    return {
+      score: MOSCOW_LEVELS.length - MOSCOW_LEVELS.indexOf(level[0]) + WITHIN_BUCKET * deadlinePressure(task, now),
+      summary: MOSCOW_LABELS[level[0]],
+      factors: [factor('Bucket', level, MOSCOW_LABELS[level[0]]), ...deadlineFactor(task, now)],
+    };
+  },
+};
+
+export const rice: PrioritizationStrategy = {
+  id: 'rice',
+  name: 'RICE',
+  description: 'Reach × Impact × Confidence ÷ Effort, boosted as a deadline nears.',
+  reorders: true,
+  score(task, _settings, now) {
+    const input = task.scoring?.rice ?? {};
+    const reach = pick(input.reach, 1);
+    const impact = pick(input.impact, task.important ? 2 : 1);
+    const confidence = pick(input.confidence, 80);
+    const effort = pick(input.effort, 1);
+    const boost = 1 + deadlinePressure(task, now);
+    const score = ((reach[0] * impact[0] * (confidence[0] / 100)) / effort[0]) * boost;
+    return {
+      score,
+      summary: `RICE ${fmt(score)}`,
+      factors: [
+        factor('Reach', reach),
+        factor('Impact', impact),
+        factor('Confidence', confidence, `${confidence[0]} %`),
+        factor('Effort', effort, `${effort[0]} day${effort[0] !== 1 ? 's' : ''}`),
+        ...deadlineFactor(task, now).map(f => ({ ...f, value: `${f.value} · ×${fmt(boost)}` })),
+      ],
+    };
+  },
+};
+
+export const ice: PrioritizationStrategy = {
+  id: 'ice',
+  name: 'ICE',
+  description: 'Impact × Confidence × Ease, each out of 10, boosted as a deadline nears.',
+  reorders: true,
+  score(task, _settings, now) {
+    const input = task.scoring?.ice ?? {};
+    const impact = pick(input.impact, task.important ? 7 : 4);
+    const confidence = pick(input.confidence, 7);
+    const ease = pick(input.ease, 5);
+    const boost = 1 + deadlinePressure(task, now);
+    const score = impact[0] * confidence[0] * ease[0] * boost;
+    return {
+      score,
+      summary: `ICE ${fmt(score)}`,
+      factors: [
+        factor('Impact', impact, `${impact[0]} / 10`),
+        factor('Confidence', confidence, `${confidence[0]} / 10`),
+        factor('Ease', ease, `${ease[0]} / 10`),
+        ...deadlineFactor(task, now).map(f => ({ ...f, value: `${f.value} · ×${fmt(boost)}` })),
+      ],
+    };
+  },
+};
+
+/** Ratings assumed for unrated tasks on the built‑in criteria. */
+const derivedRating = (task: Task, criterionId: string, now: Date): number => {
+  if (criterionId === 'importance') return task.important ? 4 : 2;
+  if (criterionId === 'urgency') {
+    if (isDueSoon(task, now)) return 5;
+    const hours = hoursUntilDue(task, now);
+    if (hours !== null && hours < 72) return 4;
+    return task.urgent ? 4 : 2;
+  }
+  return 3;
+};
+
+export const weighted: PrioritizationStrategy = {
+  id: 'weighted',
+  name: 'Weighted criteria',
+  description: 'Rate each task 1–5 on your own criteria; weights set how much each counts.',
+  reorders: true,
+  score(task, settings, now) {
+    const { criteria } = settings;
+    const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+    const ratings = criteria.map(c => pick(task.scoring?.ratings?.[c.id], derivedRating(task, c.id, now)));
+    const score = totalWeight
+      ? criteria.reduce((sum, c, i) => sum + c.weight * ratings[i][0], 0) / totalWeight
+      : 0;
+    return {
+      score,
+      summary: `Weighted ${score.toFixed(1)} / 5`,
+      factors: [
+        ...criteria.map((c, i) => factor(`${c.label} (×${c.weight})`, ratings[i], `${ratings[i][0]} / 5`)),
+        ...deadlineFactor(task, now),
+      ],
+    };
+  },
+};
+
+export const manual: PrioritizationStrategy = {
+  id: 'manual',
+  name: 'Manual order',
+  description: 'Keep tasks exactly in the order you put them.',
+  reorders: false,
+  score(task, _settings, now) {
+    return {
+      score: 0,
+      summary: 'Your order',
+      factors: [{ label: 'Position', value: `#${task.priority}` }, ...deadlineFactor(task, now)],
+    };
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Contract shared by every prioritization strategy.
+ *
+ * A strategy scores one task at a time and explains the score, so the UI
+ * can answer “why is this ranked #1?”.  Ranking itself (sorting, ties,
+ * renumbering `priority`) happens once, in `./index.ts`.
+ */
+
+import type { Task } from '@/lib/schema';
+
+export type StrategyId = 'eisenhower' | 'moscow' | 'rice' | 'ice' | 'weighted' | 'manual';
+
+/** One line of a score breakdown. */
+export interface ScoreFactor {
+  label: string;
+  /** display value, e.g. “Yes”, “8 / 10”, “80 %” */
+  value: string;
+  /** true when the value wasn’t set on the task and a default was used */
+  assumed?: boolean;
+}
+
+export interface TaskScore {
+  /** higher ranks first */
+  score: number;
+  /** the score as the strategy would word it, e.g. “RICE 12.5” */
+  summary: string;
+  factors: ScoreFactor[];
+}
+
+/** A user‑defined criterion for the weighted model. */
+export interface Criterion {
+  id: string;
+  label: string;
+  /** relative weight, 1–5 */
+  weight: number;
+}
+
+export interface PrioritizationSettings {
+  strategy: StrategyId;
+  criteria: Criterion[];
+}
+
+export interface PrioritizationStrategy {
+  id: StrategyId;
+  name: string;
+  description: string;
+  /** false for strategies that leave the user’s order alone */
+  reorders: boolean;
+  /** `now` is the moment deadlines are measured from. */
+  score(task: Task, settings: PrioritizationSettings, now: Date): TaskScore;
+}
+
+export interface RankedTask {
+  task: Task;
+  /** 1‑based position after ranking */
+  rank: number;
+  score: TaskScore;
+}
@@ -0,0 +1,146 @@
+/**
+ * Named profiles with isolated data.
+ *
+ * Each profile has its own repository (see `@/lib/repository`), so
+ * entries, reflections, settings, streaks, the undo journal and even
+ * encryption are per profile.  Switching points every storage helper at
+ * the other profile and announces the change so all views reload.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DEFAULT_PROFILE_ID,
+  createDefaultRepository,
+  forgetVault,
+  getEntryRepository,
+  getVault,
+  readProfileRegistry,
+  setActiveProfileId,
+  writeProfileRegistry,
+  type Profile,
+  type ProfileRegistry,
+} from '@/lib/repository';
+import { notifyDataChanged } from '@/lib/changeFeed';
+import { SCHEMA_VERSION, ensureMigrated } from '@/lib/migrations';
+import { assertValidEntry, partitionEntries } from '@/lib/schema';
+import { BACKUP_FORMAT, BACKUP_VERSION, buildImportPreview, mergeEntries } from '@/lib/backup';
+import { getDailyEntries, replaceDailyEntries } from '@/lib/tasks';
+
+export type { Profile, ProfileRegistry };
+export { DEFAULT_PROFILE_ID };
+
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+export type TransferMode = 'copy' | 'move';
+
+/** Every profile on this device plus the active one’s id. */
+export function getProfiles(): ProfileRegistry {
+  return readProfileRegistry();
+}
+
+export function getActiveProfile(): Profile {
+  const { activeId, profiles } = readProfileRegistry();
+  return profiles.find(p => p.id === activeId) ?? profiles[0];
+}
+
+function cleanName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('[profiles] A profile needs a name');
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) {
+    throw new Error(`[profiles] Keep the name under ${MAX_PROFILE_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
+
+export function createProfile(name: string): Profile {
+  const registry = readProfileRegistry();
+  const profile: Profile = { id: uuidv4(), name: cleanName(name), createdAt: new Date().toISOString() };
+  writeProfileRegistry({ ...registry, profiles: [...registry.profiles, profile] });
+  notifyDataChanged();
+  return profile;
+}
+
+export function renameProfile(id: string, name: string): void {
+  const registry = readProfileRegistry();
+  const clean = cleanName(name);
+  writeProfileRegistry({
+    ...registry,
+    profiles: registry.profiles.map(p => (p.id === id ? { ...p, name: clean } : p)),
+  });
+  notifyDataChanged();
+}
+
+/** Make `id` the profile every storage helper uses. */
+export function switchProfile(id: string): void {
+  const registry = readProfileRegistry();
+  if (!registry.profiles.some(p => p.id === id)) {
+    throw new Error(`[profiles] No profile ${id}`);
+  }
+  writeProfileRegistry({ ...registry, activeId: id });
+  setActiveProfileId(id);
+  notifyDataChanged();
+}
+
+/**
+ * Delete a profile and everything stored in it.  The default profile
+ * can’t be deleted; deleting the active one switches to the default.
+ */
+export async function deleteProfile(id: string): Promise<void> {
+  if (id === DEFAULT_PROFILE_ID) throw new Error('[profiles] The default profile can’t be deleted');
+  const registry = readProfileRegistry();
+  if (!registry.profiles.some(p => p.id === id)) return;
+
+  // Straight to the backend: a locked profile can still be deleted.
+  forgetVault(id);
+  await createDefaultRepository(id).clear();
+
+  const activeId = registry.activeId === id ? DEFAULT_PROFILE_ID : registry.activeId;
+  writeProfileRegistry({ activeId, profiles: registry.profiles.filter(p => p.id !== id) });
+  setActiveProfileId(activeId);
+  notifyDataChanged();
+}
+
+/**
+ * Copy (or move) the active profile’s entries for `dates` into another
+ * profile.  Days the target already has are merged the same way a backup
+ * import merges them.  Resolves to the number of days transferred.
+ */
+export async function transferEntries(
+  dates: string[],
+  targetId: string,
+  mode: TransferMode,
+): Promise<number> {
+  if (!readProfileRegistry().profiles.some(p => p.id === targetId)) {
+    throw new Error(`[profiles] No profile ${targetId}`);
+  }
+
+  const wanted = new Set(dates);
+  const all = await getDailyEntries();
+  const selected = all.filter(e => wanted.has(e.date));
+  if (selected.length === 0) return 0;
+
+  if ((await getVault(targetId).status()) === 'locked') {
+    throw new Error('[profiles] That profile is locked – unlock it once, then try again');
+  }
+  // Tracked, so the transfer reaches the target’s sync outbox.
+  const target = getEntryRepository(targetId);
+  await ensureMigrated(target);
+  const { valid: existing } = partitionEntries(await target.getEntries());
+
+  const preview = buildImportPreview(existing, {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: selected,
+    meta: {},
+  });
+  const merged = mergeEntries(existing, preview);
+  await target.replaceEntries(merged.map(e => assertValidEntry({ ...e, schemaVersion: SCHEMA_VERSION })));
+
+  if (mode === 'move') {
+    await replaceDailyEntries(all.filter(e => !wanted.has(e.date)));
+  }
+  notifyDataChanged();
+  return selected.length;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { describeRRule, formatRRule, occurrences, occursOn, parseRRule } from '@/lib/recurrence';
+
+const next = (rule: string, start: string, limit: number) => occurrences(parseRRule(rule), start, { limit });
+
+describe('parseRRule', () => {
+  it('round‑trips and describes supported rules', () => {
+    const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU');
+    expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU');
+    expect(describeRRule(rule)).toBe('Every 2 weeks on Tue');
+  });
+
+  it('rejects what it does not support', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow(/FREQ/);
+    expect(() => parseRRule('FREQ=DAILY;BYSETPOS=1')).toThrow(/BYSETPOS/);
+    expect(() => parseRRule('FREQ=DAILY;COUNT=2;UNTIL=20270101')).toThrow(/COUNT and UNTIL/);
+    expect(() => parseRRule('FREQ=DAILY;INTERVAL=0')).toThrow(/INTERVAL/);
+  });
+});
+
+describe('occurrences', () => {
+  it('expands weekly rules on Monday‑start weeks', () => {
+    expect(next('FREQ=WEEKLY;BYDAY=MO,WE,FR', '2026-10-19', 4)).toEqual(['2026-10-19', '2026-10-21', '2026-10-23', '2026-10-26']);
+    expect(next('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,SU', '2026-10-19', 4)).toEqual(['2026-10-20', '2026-10-25', '2026-11-03', '2026-11-08']);
+  });
+
+  it('expands monthly and yearly rules, skipping days a month lacks', () => {
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-10-19', 3)).toEqual(['2026-10-31', '2026-11-30', '2026-12-31']);
+    expect(next('FREQ=MONTHLY;BYDAY=-1FR', '2026-10-19', 2)).toEqual(['2026-10-30', '2026-11-27']);
+    expect(next('FREQ=MONTHLY', '2026-01-31', 3)).toEqual(['2026-01-31', '2026-03-31', '2026-05-31']);
+    expect(next('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29', '2024-01-01', 2)).toEqual(['2024-02-29', '2028-02-29']);
+  });
+
+  it('stops at COUNT and UNTIL', () => {
+    expect(next('FREQ=DAILY;COUNT=3', '2026-10-19', 5)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+    expect(next('FREQ=DAILY;UNTIL=20261020', '2026-10-19', 5)).toEqual(['2026-10-19', '2026-10-20']);
+    expect(occursOn(parseRRule('FREQ=DAILY;COUNT=3'), '2026-10-19', '2026-10-21')).toBe(true);
+    expect(occursOn(parseRRule('FREQ=DAILY;COUNT=3'), '2026-10-19', '2026-10-22')).toBe(false);
+  });
+
+  it('counts skipped days towards COUNT', () => {
+    const rule = parseRRule('FREQ=DAILY;COUNT=3');
+    expect(occurrences(rule, '2026-10-19', { limit: 5, exceptions: ['2026-10-20'] })).toEqual(['2026-10-19', '2026-10-21']);
+  });
+});
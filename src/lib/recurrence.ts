@@ -0,0 +1,272 @@
+/**
+ * A subset of iCalendar (RFC 5545) recurrence rules, evaluated on local
+ * calendar days.
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL,
+ * BYDAY (with ordinals such as `1MO` or `-1FR` for monthly / yearly
+ * rules), BYMONTHDAY (negative counts from the month’s end), BYMONTH,
+ * COUNT and UNTIL.  Weeks start on Monday.  Anything else is rejected
+ * rather than silently ignored, so a rule never means less than it says.
+ *
+ * Rules only decide *which days* a task recurs on – times of day are not
+ * part of the model.
+ */
+
+import { daysBetween, isDateKey, parseDateKey, startOfWeek, toDateKey } from '@/lib/dates';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/** Monday first, matching WKST=MO. */
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun',
+};
+
+/** A BYDAY entry; `n` picks the n‑th (negative: from the end) in the month. */
+export interface ByDay {
+  weekday: Weekday;
+  n?: number;
+}
+
+export interface RRule {
+  freq: Frequency;
+  interval: number;
+  byDay?: ByDay[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  count?: number;
+  /** Last day the rule may produce (inclusive), as a date key. */
+  until?: string;
+}
+
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Longest stretch `occurrences` will scan before giving up. */
+const MAX_SCAN_DAYS = 366 * 5;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const weekdayOf = (date: Date): Weekday => WEEKDAYS[(date.getDay() + 6) % 7];
+
+const daysInMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+
+const intList = (value: string, part: string, min: number, max: number): number[] =>
+  value.split(',').map(raw => {
+    const n = Number(raw);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`[recurrence] Invalid ${part} value “${raw}”`);
+    }
+    return n;
+  });
+
+/** Accepts `20261231`, `20261231T235959Z` or a date key. */
+const parseUntil = (value: string): string => {
+  const compact = /^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/.exec(value);
+  const key = compact ? `${compact[1]}-${compact[2]}-${compact[3]}` : value;
+  if (!isDateKey(key)) throw new Error(`[recurrence] Invalid UNTIL “${value}”`);
+  return key;
+};
+
+/** Parse `FREQ=WEEKLY;BYDAY=MO,WE,FR` (an `RRULE:` prefix is allowed). */
+export function parseRRule(text: string): RRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('[recurrence] Empty rule');
+
+  const parts = new Map<string, string>();
+  for (const pair of body.split(';').filter(Boolean)) {
+    const [key, value] = pair.split('=');
+    if (!key || value === undefined || value === '') {
+      throw new Error(`[recurrence] Malformed part “${pair}”`);
+    }
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as Frequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new Error(`[recurrence] FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  }
+  const rule: RRule = { freq, interval: 1 };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = intList(value, key, 1, 999)[0];
+        if (rule.interval < 1) throw new Error('[recurrence] INTERVAL must be positive');
+        break;
+      case 'COUNT':
+        rule.count = intList(value, key, 1, 9999)[0];
+        if (rule.count < 1) throw new Error('[recurrence] COUNT must be positive');
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = intList(value, key, 1, 31);
+        break;
+      case 'BYMONTH':
+        rule.byMonth = intList(value, key, 1, 12);
+        if (rule.byMonth.some(m => m < 0)) throw new Error('[recurrence] BYMONTH must be positive');
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(raw => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(raw);
+          if (!match) throw new Error(`[recurrence] Invalid BYDAY value “${raw}”`);
+          const n = match[1] ? Number(match[1]) : undefined;
+          if (n !== undefined && (n === 0 || Math.abs(n) > 5)) {
+            throw new Error(`[recurrence] Invalid BYDAY value “${raw}”`);
+          }
+          return n === undefined ? { weekday: match[2] as Weekday } : { weekday: match[2] as Weekday, n };
+        });
+        break;
+      default:
+        throw new Error(`[recurrence] ${key} is not supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) {
+    throw new Error('[recurrence] COUNT and UNTIL cannot be combined');
+  }
+  if (rule.byDay?.some(d => d.n !== undefined) && (freq === 'DAILY' || freq === 'WEEKLY')) {
+    throw new Error('[recurrence] Numbered BYDAY values need FREQ=MONTHLY or YEARLY');
+  }
+  return rule;
+}
+
+/** Serialise back to canonical RRULE text (without the `RRULE:` prefix). */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${d.weekday}`).join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  return parts.join(';');
+}
+
+/** Does `date` satisfy a BYDAY entry, ordinals counted within its month? */
+const matchesByDay = (date: Date, { weekday, n }: ByDay) => {
+  if (weekdayOf(date) !== weekday) return false;
+  if (n === undefined) return true;
+  const day = date.getDate();
+  return n > 0 ? Math.ceil(day / 7) === n : Math.ceil((daysInMonth(date) - day + 1) / 7) === -n;
+};
+
+const matchesMonthDay = (date: Date, monthDay: number) =>
+  date.getDate() === (monthDay > 0 ? monthDay : daysInMonth(date) + monthDay + 1);
+
+/** The rule’s day pattern, ignoring COUNT and UNTIL. */
+function matchesPattern(rule: RRule, start: Date, date: Date): boolean {
+  const byDay = rule.byDay?.length ? rule.byDay : undefined;
+  const byMonthDay = rule.byMonthDay?.length ? rule.byMonthDay : undefined;
+  const byMonth = rule.byMonth?.length ? rule.byMonth : undefined;
+
+  if (byMonth && !byMonth.includes(date.getMonth() + 1)) return false;
+  if (byMonthDay && !byMonthDay.some(md => matchesMonthDay(date, md))) return false;
+  if (byDay && !byDay.some(d => matchesByDay(date, d))) return false;
+
+  const months = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysBetween(toDateKey(start), toDateKey(date)) % rule.interval === 0;
+
+    case 'WEEKLY': {
+      const weeks = daysBetween(startOfWeek(toDateKey(start)), startOfWeek(toDateKey(date))) / 7;
+      if (weeks % rule.interval !== 0) return false;
+      return byDay ? true : weekdayOf(date) === weekdayOf(start);
+    }
+
+    case 'MONTHLY':
+      if (months % rule.interval !== 0) return false;
+      return byDay || byMonthDay ? true : date.getDate() === start.getDate();
+
+    case 'YEARLY': {
+      if ((date.getFullYear() - start.getFullYear()) % rule.interval !== 0) return false;
+      if (!byMonth && date.getMonth() !== start.getMonth()) return false;
+      return byDay || byMonthDay ? true : date.getDate() === start.getDate();
+    }
+  }
+}
+
+/**
+ * Days from `start` on which `rule` fires, in order, beginning at `from`
+ * (inclusive).  Days listed in `exceptions` still count towards COUNT –
+ * as in iCalendar, EXDATE removes instances rather than shifting them.
+ */
+export function occurrences(
+  rule: RRule,
+  start: string,
+  { from = start, limit = 1, exceptions = [] }: { from?: string; limit?: number; exceptions?: string[] } = {},
+): string[] {
+  const startDate = parseDateKey(start);
+  const skipped = new Set(exceptions);
+  const found: string[] = [];
+  let produced = 0;
+
+  const cursor = new Date(startDate);
+  for (let i = 0; i < MAX_SCAN_DAYS + Math.max(0, daysBetween(start, from)) && found.length < limit; i++) {
+    const key = toDateKey(cursor);
+    if (rule.until && key > rule.until) break;
+    if (matchesPattern(rule, startDate, cursor)) {
+      produced += 1;
+      if (rule.count !== undefined && produced > rule.count) break;
+      if (key >= from && !skipped.has(key)) found.push(key);
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  return found;
+}
+
+/** Does the rule, anchored at `start`, produce `date`? */
+export function occursOn(rule: RRule, start: string, date: string, exceptions: string[] = []): boolean {
+  if (date < start || exceptions.includes(date)) return false;
+  if (rule.until && date > rule.until) return false;
+  if (rule.count === undefined) return matchesPattern(rule, parseDateKey(start), parseDateKey(date));
+  return occurrences(rule, start, { from: date })[0] === date;
+}
+
+const ordinal = (n: number) => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 100 > 10 && n % 100 < 14 ? 0 : Math.min(n % 10, 4) % 4]}`;
+};
+
+/** Plain‑English summary, e.g. “Every 2 weeks on Mon, Wed”. */
+export function describeRRule(rule: RRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  const every = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  const on: string[] = [];
+  if (rule.byDay?.length) {
+    on.push(
+      rule.byDay
+        .map(d => (d.n === undefined ? WEEKDAY_LABELS[d.weekday] : `the ${ordinal(d.n)} ${WEEKDAY_LABELS[d.weekday]}`))
+        .join(', '),
+    );
+  }
+  if (rule.byMonthDay?.length) {
+    on.push(rule.byMonthDay.map(md => (md > 0 ? `day ${md}` : `the ${ordinal(md)} day`)).join(', '));
+  }
+  const inMonths = rule.byMonth?.length ? ` in ${rule.byMonth.map(m => MONTH_NAMES[m - 1]).join(', ')}` : '';
+
+  let text = `${every}${on.length ? ` on ${on.join(' and ')}` : ''}${inMonths}`;
+  if (rule.count !== undefined) text += `, ${rule.count} time${rule.count !== 1 ? 's' : ''}`;
+  if (rule.until) {
+    text += `, until ${parseDateKey(rule.until).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return text;
+}
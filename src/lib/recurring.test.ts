@@ -0,0 +1,35 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryRepository, setEntryRepository } from '@/lib/repository';
+import { todayKey } from '@/lib/dates';
+import { addTask, getTodayTasks, redo, undo } from '@/lib/tasks';
+import { generateRecurringTasks, getRecurringTasks, saveRecurringTask } from '@/lib/recurring';
+
+const texts = async () => (await getTodayTasks()).map(t => t.text);
+
+beforeEach(async () => {
+  setEntryRepository(createMemoryRepository());
+  await saveRecurringTask({ text: 'Stand-up', category: 'professional', rrule: 'FREQ=DAILY', start: todayKey() });
+});
+
+describe('generateRecurringTasks', () => {
+  it('adds each instance once, however often it runs', async () => {
+    const [first, second] = await Promise.all([generateRecurringTasks(), generateRecurringTasks()]);
+    expect([...first, ...second].map(t => t.text)).toEqual(['Stand-up']);
+    expect(await generateRecurringTasks()).toEqual([]);
+    expect((await getRecurringTasks())[0].lastGenerated).toBe(todayKey());
+  });
+
+  it('journals the instances, so undoing later changes keeps them', async () => {
+    await addTask('Gym', 'personal');
+    await generateRecurringTasks();
+    await addTask('Report', 'professional');
+
+    await undo();
+    expect(await texts()).toEqual(['Gym', 'Stand-up']);
+    expect((await undo())?.label).toBe('Add recurring “Stand-up”');
+    expect(await texts()).toEqual(['Gym']);
+
+    await redo();
+    expect(await texts()).toEqual(['Gym', 'Stand-up']);
+  });
+});
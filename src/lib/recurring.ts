@@ -0,0 +1,213 @@
+/**
+ * Recurring task templates.
+ *
+ * A template holds a task’s text, category and urgency plus an RRULE
+ * (see `./recurrence`) anchored at a start day.  Each day the template
+ * fires on, `generateRecurringTasks` copies it into that day’s DailyEntry
+ * as an ordinary task tagged with `recurrenceId`; from then on the
+ * instance is edited, completed or removed like any other task and the
+ * template is left alone.  `lastGenerated` makes generation idempotent,
+ * so removing an instance does not bring it back.
+ *
+ * Templates live in the repository’s meta store under `RECURRING_KEY`.
+ * Template edits and generation run through `queueMutation`, so runs
+ * started by several tabs or events at once can’t add an instance twice
+ * or write back a template list read before an edit.  Generated instances
+ * are journaled like any other addition, so undo and redo see them.
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { todayKey } from '@/lib/dates';
+import { TaskCategorySchema, describeIssues } from '@/lib/schema';
+import { occurrences, occursOn, parseRRule } from '@/lib/recurrence';
+import { resolveCategoryId } from '@/lib/categories';
+import {
+  DEFAULT_URGENCY,
+  appendTasks,
+  getEntryForDate,
+  getLastCompletedDate,
+  getMetaValue,
+  journaled,
+  queueMutation,
+  setMetaValue,
+  type Task,
+  type TaskCategory,
+} from '@/lib/tasks';
+
+export const RECURRING_KEY = 'recurring';
+
+export interface RecurringTask {
+  id: string;
+  text: string;
+  category: TaskCategory;
+  urgent: boolean;
+  important: boolean;
+  /** RRULE text, e.g. `FREQ=WEEKLY;BYDAY=MO,WE,FR` */
+  rrule: string;
+  /** First day the rule may fire (date key); anchors INTERVAL and COUNT. */
+  start: string;
+  /** Days skipped on purpose (iCalendar EXDATE). */
+  exceptions: string[];
+  createdAt: string;
+  /** Most recent day an instance was generated for. */
+  lastGenerated?: string;
+}
+
+export type RecurringTaskInput = Pick<RecurringTask, 'text' | 'category' | 'rrule' | 'start'> &
+  Partial<Pick<RecurringTask, 'urgent' | 'important' | 'exceptions'>>;
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD');
+
+const RecurringTaskSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().trim().min(1, 'task text is required'),
+  category: TaskCategorySchema,
+  urgent: z.boolean(),
+  important: z.boolean(),
+  rrule: z.string().min(1),
+  start: dateKey,
+  exceptions: z.array(dateKey),
+  createdAt: z.string().datetime({ offset: true }),
+  lastGenerated: dateKey.optional(),
+});
+
+/** Every stored template; unreadable ones are skipped. */
+export async function getRecurringTasks(): Promise<RecurringTask[]> {
+  let stored: unknown;
+  try {
+    stored = JSON.parse((await getMetaValue(RECURRING_KEY)) || '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap(raw => {
+    const parsed = RecurringTaskSchema.safeParse(raw);
+    return parsed.success ? [parsed.data as RecurringTask] : [];
+  });
+}
+
+async function saveAll(templates: RecurringTask[]): Promise<void> {
+  await setMetaValue(RECURRING_KEY, JSON.stringify(templates));
+}
+
+async function update(id: string, change: (t: RecurringTask) => RecurringTask): Promise<RecurringTask> {
+  return queueMutation(async () => {
+    const templates = await getRecurringTasks();
+    const idx = templates.findIndex(t => t.id === id);
+    if (idx === -1) throw new Error(`[recurring] No recurring task ${id}`);
+    templates[idx] = change(templates[idx]);
+    await saveAll(templates);
+    return templates[idx];
+  });
+}
+
+/**
+ * Create a template, or replace the one with `id`.  The rule is parsed
+ * up front so a bad RRULE is reported instead of never firing.
+ */
+export async function saveRecurringTask(input: RecurringTaskInput, id?: string): Promise<RecurringTask> {
+  parseRRule(input.rrule);
+  const category = await resolveCategoryId(input.category);
+  return queueMutation(async () => {
+    const templates = await getRecurringTasks();
+    const existing = id ? templates.find(t => t.id === id) : undefined;
+    if (id && !existing) throw new Error(`[recurring] No recurring task ${id}`);
+
+    const parsed = RecurringTaskSchema.safeParse({
+      id: existing?.id ?? uuidv4(),
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+      urgent: existing?.urgent ?? DEFAULT_URGENCY.urgent,
+      important: existing?.important ?? DEFAULT_URGENCY.important,
+      exceptions: existing?.exceptions ?? [],
+      ...(existing?.lastGenerated ? { lastGenerated: existing.lastGenerated } : {}),
+      ...input,
+      text: input.text.trim(),
+      category,
+    });
+    if (!parsed.success) throw new Error(`[recurring] ${describeIssues(parsed.error)}`);
+
+    const template = parsed.data as RecurringTask;
+    await saveAll(existing ? templates.map(t => (t.id === id ? template : t)) : [...templates, template]);
+    return template;
+  });
+}
+
+export async function removeRecurringTask(id: string): Promise<void> {
+  await queueMutation(async () => saveAll((await getRecurringTasks()).filter(t => t.id !== id)));
+}
+
+/** Skip (or, with `skip = false`, restore) one day of a template. */
+export async function setOccurrenceSkipped(id: string, date: string, skip = true): Promise<RecurringTask> {
+  return update(id, t => ({
+    ...t,
+    exceptions: skip
+      ? [...new Set([...t.exceptions, date])].sort()
+      : t.exceptions.filter(d => d !== date),
+  }));
+}
+
+/** The next `limit` days (from `from`, inclusive) the template fires on. */
+export function nextOccurrences(template: RecurringTask, from: string = todayKey(), limit = 3): string[] {
+  try {
+    return occurrences(parseRRule(template.rrule), template.start, {
+      from: from > template.start ? from : template.start,
+      limit,
+      exceptions: template.exceptions,
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add an instance of every template that fires on `date` and has not been
+ * generated for it yet.  A day whose plan is already locked in is left
+ * alone, and a template that already has a task on the day (say one
+ * carried over) is not added twice.  Resolves to the new tasks.
+ */
+export async function generateRecurringTasks(date: string = todayKey()): Promise<Task[]> {
+  return queueMutation(async () => {
+    const templates = await getRecurringTasks();
+    if (templates.length === 0 || (await getLastCompletedDate()) === date) return [];
+
+    const due = templates.filter(t => {
+      if (t.lastGenerated && t.lastGenerated >= date) return false;
+      try {
+        return occursOn(parseRRule(t.rrule), t.start, date, t.exceptions);
+      } catch {
+        return false;
+      }
+    });
+    if (due.length === 0) return [];
+
+    // Read inside the queue, so an instance added by an earlier run counts
+    const present = new Set((await getEntryForDate(date))?.tasks.map(t => t.recurrenceId));
+    const now = new Date().toISOString();
+    const instances = due
+      .filter(t => !present.has(t.id))
+      .map(t => ({
+        id: uuidv4(),
+        text: t.text,
+        category: t.category,
+        priority: 1,
+        completed: false,
+        createdAt: now,
+        urgent: t.urgent,
+        important: t.important,
+        recurrenceId: t.id,
+      }));
+    const added = await journaled(
+      'add',
+      date,
+      tasks => (tasks.length === 1 ? `Add recurring “${tasks[0].text}”` : `Add ${tasks.length} recurring tasks`),
+      () => appendTasks(date, instances),
+    );
+
+    // Only `lastGenerated` changes – applied to the templates as stored now
+    const generated = new Set(due.map(t => t.id));
+    const current = await getRecurringTasks();
+    await saveAll(current.map(t => (generated.has(t.id) ? { ...t, lastGenerated: date } : t)));
+    return added;
+  });
+}
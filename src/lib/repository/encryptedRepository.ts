@@ -0,0 +1,84 @@
+/**
+ * Encrypting decorator – seals everything before it reaches `inner`.
+ *
+ * Entries are stored as `{ timestamp, sealed }`: only the record’s
+ * identity stays readable, the rest (date, tasks, reflection, revisions,
+ * transcripts) is one AES‑GCM blob.  Meta values are stored as `enc1:<iv>:<data>`.
+ *
+ * Plaintext records are passed through on read, so a store that is half
+ * way through being encrypted (or decrypted) stays readable.
+ */
+
+import type { DailyEntry } from '@/lib/schema';
+import { decryptText, encryptText, type Sealed } from '@/lib/crypto';
+import type { EntryRepository } from './types';
+
+const META_PREFIX = 'enc1:';
+
+interface SealedEntry {
+  timestamp: string;
+  sealed: Sealed;
+}
+
+export function isSealedEntry(record: unknown): record is SealedEntry {
+  return !!record && typeof record === 'object' && 'sealed' in record;
+}
+
+export function isSealedMeta(value: string | null): boolean {
+  return !!value && value.startsWith(META_PREFIX);
+}
+
+export function createEncryptedRepository(inner: EntryRepository, key: CryptoKey): EntryRepository {
+  const sealEntry = async (entry: DailyEntry): Promise<DailyEntry> => {
+    const sealed: SealedEntry = {
+      timestamp: entry.timestamp,
+      sealed: await encryptText(key, JSON.stringify(entry)),
+    };
+    // The inner backend only needs `timestamp`; it never looks inside.
+    return sealed as unknown as DailyEntry;
+  };
+
+  const openEntry = async (record: DailyEntry): Promise<DailyEntry> =>
+    isSealedEntry(record) ? JSON.parse(await decryptText(key, record.sealed)) : record;
+
+  const sealMeta = async (value: string) => {
+    const { iv, data } = await encryptText(key, value);
+    return `${META_PREFIX}${iv}:${data}`;
+  };
+
+  const openMeta = async (value: string | null) => {
+    if (!isSealedMeta(value)) return value;
+    const [iv, data] = value.slice(META_PREFIX.length).split(':');
+    return decryptText(key, { iv, data });
+  };
+
+  return {
+    async getEntries() {
+      return Promise.all((await inner.getEntries()).map(openEntry));
+    },
+    async putEntry(entry) {
+      await inner.putEntry(await sealEntry(entry));
+    },
+    async deleteEntry(timestamp) {
+      await inner.deleteEntry(timestamp);
+    },
+    async replaceEntries(entries) {
+      await inner.replaceEntries(await Promise.all(entries.map(sealEntry)));
+    },
+    async getMeta(name) {
+      return openMeta(await inner.getMeta(name));
+    },
+    async setMeta(name, value) {
+      await inner.setMeta(name, await sealMeta(value));
+    },
+    async removeMeta(name) {
+      await inner.removeMeta(name);
+    },
+    async getMetaKeys() {
+      return inner.getMetaKeys();
+    },
+    async clear() {
+      await inner.clear();
+    },
+  };
+}
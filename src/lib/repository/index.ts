@@ -0,0 +1,190 @@
+/**
+ * Repository selection.
+ *
+ * The app uses IndexedDB when the browser offers it, falls back to
+ * localStorage, and finally to an in‑memory store (private mode, SSR,
+ * tests).  Data written by the original localStorage‑only code is copied
+ * into IndexedDB on first use.  Whatever the backend, it is wrapped in a
+ * vault (see `./vault.ts`) that adds opt‑in encryption and locking.
+ *
+ * Every profile (see `./profileRegistry.ts`) gets its own backend: its own
+ * IndexedDB database, or its own key namespace in localStorage.  On top
+ * sits sync change tracking (see `@/lib/sync/tracker`).
+ */
+
+import type { EntryRepository } from './types';
+import { createMemoryRepository } from './memoryRepository';
+import {
+  LEGACY_ENTRIES_KEY,
+  createLocalStorageRepository,
+  readLegacyEntries,
+  readLegacyMeta,
+} from './localStorageRepository';
+import {
+  DEFAULT_DB_NAME,
+  createIndexedDbRepository,
+  isIndexedDbAvailable,
+} from './indexedDbRepository';
+import { createVault, type Vault } from './vault';
+import { DEFAULT_PROFILE_ID, readProfileRegistry } from './profileRegistry';
+import { createTrackedRepository } from '@/lib/sync/tracker';
+import { LAST_COMPLETED_KEY, QUARANTINE_KEY } from '@/lib/metaKeys';
+import type { QuarantinedRecord } from '@/lib/schema';
+
+export type { EntryRepository } from './types';
+export { createMemoryRepository } from './memoryRepository';
+export { createLocalStorageRepository } from './localStorageRepository';
+export { createIndexedDbRepository } from './indexedDbRepository';
+export { createEncryptedRepository } from './encryptedRepository';
+export type { EncryptionSettings, SecretKind, Vault, VaultStatus } from './vault';
+export {
+  DEFAULT_PROFILE_ID,
+  readProfileRegistry,
+  writeProfileRegistry,
+  type Profile,
+  type ProfileRegistry,
+} from './profileRegistry';
+
+/** Meta keys copied from localStorage into IndexedDB on first use. */
+const IMPORTED_META_KEYS = [LAST_COMPLETED_KEY];
+
+function isLocalStorageAvailable(): boolean {
+  try {
+    return typeof localStorage !== 'undefined';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wrap an IndexedDB repository so the first call moves any legacy
+ * localStorage data across before anything else touches the store.
+ *
+ * The localStorage copy is only removed once everything has been
+ * written; a failed import rejects and is retried on the next call.
+ * Legacy data that can’t be imported – a `dailyEntries` payload that
+ * cannot be parsed, or entries for a store that already has its own –
+ * is kept, as is, in the quarantine.
+ */
+function withLegacyImport(repo: EntryRepository): EntryRepository {
+  let ready: Promise<void> | null = null;
+
+  const quarantine = async (records: unknown[], reason: string) => {
+    const quarantinedAt = new Date().toISOString();
+    const existing: QuarantinedRecord[] = JSON.parse((await repo.getMeta(QUARANTINE_KEY)) || '[]');
+    const added = records.map((record): QuarantinedRecord => ({ kind: 'entry', record, reason, quarantinedAt }));
+    await repo.setMeta(QUARANTINE_KEY, JSON.stringify([...existing, ...added]));
+  };
+
+  const importLegacy = async () => {
+    if (!isLocalStorageAvailable()) return;
+    const { entries: legacy, unreadable } = readLegacyEntries();
+    if (unreadable !== undefined) {
+      await quarantine([unreadable], `legacy import: ${LEGACY_ENTRIES_KEY} is not a JSON array`);
+    }
+    if (legacy.length > 0) {
+      if ((await repo.getEntries()).length === 0) await repo.replaceEntries(legacy);
+      else await quarantine(legacy, 'legacy import: the store already had entries');
+    }
+    for (const key of IMPORTED_META_KEYS) {
+      const value = readLegacyMeta(key);
+      if (value !== null && (await repo.getMeta(key)) === null) {
+        await repo.setMeta(key, value);
+      }
+    }
+
+    for (const key of IMPORTED_META_KEYS) localStorage.removeItem(key);
+    localStorage.removeItem(LEGACY_ENTRIES_KEY);
+  };
+
+  const wrap =
+    <A extends unknown[], R>(fn: (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> => {
+      await (ready ??= importLegacy().catch(err => {
+        console.warn('[repository] Legacy import failed', err);
+        ready = null;
+        throw new Error(`[repository] Legacy import failed: ${(err as Error)?.message ?? err}`);
+      }));
+      return fn(...args);
+    };
+
+  return {
+    getEntries: wrap(repo.getEntries),
+    putEntry: wrap(repo.putEntry),
+    deleteEntry: wrap(repo.deleteEntry),
+    replaceEntries: wrap(repo.replaceEntries),
+    getMeta: wrap(repo.getMeta),
+    setMeta: wrap(repo.setMeta),
+    removeMeta: wrap(repo.removeMeta),
+    getMetaKeys: wrap(repo.getMetaKeys),
+    clear: wrap(repo.clear),
+  };
+}
+
+/** Pick the best backend for the current runtime and `profileId`. */
+export function createDefaultRepository(profileId: string = DEFAULT_PROFILE_ID): EntryRepository {
+  const isDefault = profileId === DEFAULT_PROFILE_ID;
+  if (isIndexedDbAvailable()) {
+    return isDefault
+      ? withLegacyImport(createIndexedDbRepository())
+      : createIndexedDbRepository(`${DEFAULT_DB_NAME}.${profileId}`);
+  }
+  if (isLocalStorageAvailable()) {
+    return createLocalStorageRepository(localStorage, isDefault ? '' : `compass.p.${profileId}.`);
+  }
+  return createMemoryRepository();
+}
+
+/** One vault per profile, created on first use and kept for the session. */
+const vaults = new Map<string, Vault>();
+let activeProfileId: string | null = null;
+
+/** The profile storage helpers currently read from and write to. */
+export function getActiveProfileId(): string {
+  return (activeProfileId ??= readProfileRegistry().activeId);
+}
+
+/** Point every storage helper at another profile. */
+export function setActiveProfileId(profileId: string): void {
+  activeProfileId = profileId;
+}
+
+/** The vault guarding `profileId`’s backend (default: the active profile). */
+export function getVault(profileId: string = getActiveProfileId()): Vault {
+  let vault = vaults.get(profileId);
+  if (!vault) {
+    vault = createVault(createDefaultRepository(profileId));
+    vaults.set(profileId, vault);
+  }
+  return vault;
+}
+
+/**
+ * Lock `profileId`’s vault and drop it from the session, e.g. once the
+ * profile is deleted.  The next `getVault` starts from a fresh backend.
+ */
+export function forgetVault(profileId: string): void {
+  vaults.get(profileId)?.lock();
+  vaults.delete(profileId);
+}
+
+const tracked = new WeakMap<Vault, EntryRepository>();
+
+/**
+ * The repository every storage helper goes through (default: the active
+ * profile’s).  Writes are change‑tracked for sync.
+ */
+export function getEntryRepository(profileId: string = getActiveProfileId()): EntryRepository {
+  const vault = getVault(profileId);
+  let repo = tracked.get(vault);
+  if (!repo) {
+    repo = createTrackedRepository(vault.repository);
+    tracked.set(vault, repo);
+  }
+  return repo;
+}
+
+/** Swap the active profile’s backend (tests, demos, alternative stores). */
+export function setEntryRepository(repo: EntryRepository): void {
+  vaults.set(getActiveProfileId(), createVault(repo));
+}
@@ -0,0 +1,111 @@
+/**
+ * IndexedDB backend – one record per entry instead of a single JSON blob,
+ * so reads and writes stay cheap as the history grows.
+ *
+ * Stores:
+ *   • `entries` – DailyEntry records keyed by `timestamp`
+ *   • `meta`    – plain string values keyed by name
+ */
+
+import type { DailyEntry } from '@/lib/schema';
+import type { EntryRepository } from './types';
+
+export const DEFAULT_DB_NAME = 'task-alignment-compass';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const META_STORE = 'meta';
+
+/** Wrap an IDBRequest in a promise. */
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Resolve once a transaction has fully committed. */
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'timestamp' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** True when the current runtime exposes a usable IndexedDB. */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+export function createIndexedDbRepository(name: string = DEFAULT_DB_NAME): EntryRepository {
+  // Open lazily and share the connection between calls.
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const db = () => (dbPromise ??= openDatabase(name));
+
+  return {
+    async getEntries() {
+      const tx = (await db()).transaction(ENTRIES_STORE, 'readonly');
+      return promisify<DailyEntry[]>(tx.objectStore(ENTRIES_STORE).getAll());
+    },
+    async putEntry(entry) {
+      const tx = (await db()).transaction(ENTRIES_STORE, 'readwrite');
+      tx.objectStore(ENTRIES_STORE).put(entry);
+      await done(tx);
+    },
+    async deleteEntry(timestamp) {
+      const tx = (await db()).transaction(ENTRIES_STORE, 'readwrite');
+      tx.objectStore(ENTRIES_STORE).delete(timestamp);
+      await done(tx);
+    },
+    async replaceEntries(entries) {
+      const tx = (await db()).transaction(ENTRIES_STORE, 'readwrite');
+      const store = tx.objectStore(ENTRIES_STORE);
+      store.clear();
+      entries.forEach(e => store.put(e));
+      await done(tx);
+    },
+    async getMeta(key) {
+      const tx = (await db()).transaction(META_STORE, 'readonly');
+      const value = await promisify(tx.objectStore(META_STORE).get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    async setMeta(key, value) {
+      const tx = (await db()).transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).put(value, key);
+      await done(tx);
+    },
+    async removeMeta(key) {
+      const tx = (await db()).transaction(META_STORE, 'readwrite');
+      tx.objectStore(META_STORE).delete(key);
+      await done(tx);
+    },
+    async getMetaKeys() {
+      const tx = (await db()).transaction(META_STORE, 'readonly');
+      const keys = await promisify(tx.objectStore(META_STORE).getAllKeys());
+      return keys.map(String);
+    },
+    async clear() {
+      const tx = (await db()).transaction([ENTRIES_STORE, META_STORE], 'readwrite');
+      tx.objectStore(ENTRIES_STORE).clear();
+      tx.objectStore(META_STORE).clear();
+      await done(tx);
+    },
+  };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyEntry } from '@/lib/schema';
+import { createLocalStorageRepository } from './localStorageRepository';
+
+/** A `Storage` backed by a Map. */
+function memoryStorage(initial: Record<string, string> = {}): Storage {
+  const items = new Map(Object.entries(initial));
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: key => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+const entry = { date: '2026-10-19', tasks: [], timestamp: '2026-10-19T08:00:00.000Z' } as DailyEntry;
+
+describe('createLocalStorageRepository', () => {
+  it('quarantines an unreadable entries payload instead of overwriting it', async () => {
+    const storage = memoryStorage({ dailyEntries: '[{"date": "2026-10-18", broken' });
+    const repo = createLocalStorageRepository(storage);
+
+    expect(await repo.getEntries()).toEqual([]);
+    await repo.putEntry(entry);
+
+    expect(await repo.getEntries()).toEqual([entry]);
+    const quarantined = JSON.parse((await repo.getMeta('quarantine')) ?? '[]');
+    expect(quarantined).toMatchObject([{ kind: 'entry', record: '[{"date": "2026-10-18", broken' }]);
+  });
+
+  it('keeps the payload aside when the quarantine is encrypted', async () => {
+    const storage = memoryStorage({ dailyEntries: '{"not": "an array"}', 'compass.meta.quarantine': 'enc1:iv:data' });
+    const repo = createLocalStorageRepository(storage);
+
+    await repo.putEntry(entry);
+
+    expect(storage.getItem('dailyEntries.unreadable')).toBe('{"not": "an array"}');
+    expect(storage.getItem('compass.meta.quarantine')).toBe('enc1:iv:data');
+  });
+});
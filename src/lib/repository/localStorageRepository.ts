@@ -0,0 +1,146 @@
+/**
+ * localStorage backend – the original storage format of the app.
+ *
+ * All entries live in a single JSON array under `dailyEntries`.  Meta
+ * values are stored one key each under the `compass.meta.` prefix so
+ * `clear()` can find them again without touching unrelated keys.
+ *
+ * Profiles other than the default one pass a `namespace` that prefixes
+ * both (e.g. `compass.p.<id>.dailyEntries`).
+ */
+
+import type { DailyEntry, QuarantinedRecord } from '@/lib/schema';
+import { QUARANTINE_KEY } from '@/lib/metaKeys';
+import type { EntryRepository } from './types';
+
+export const LEGACY_ENTRIES_KEY = 'dailyEntries';
+const META_PREFIX = 'compass.meta.';
+
+/** Meta keys written without a prefix before the repository existed. */
+const LEGACY_META_KEYS = ['lastCompleted'];
+
+/**
+ * Parse a stored entries array.  A payload that is not a JSON array
+ * yields no entries and is handed back as `unreadable`, so the caller
+ * can keep it instead of dropping it.
+ */
+function parseEntries(raw: string | null, key: string): { entries: DailyEntry[]; unreadable?: string } {
+  if (raw === null) return { entries: [] };
+  try {
+    const parsed = JSON.parse(raw);
+    if (Array.isArray(parsed)) return { entries: parsed };
+  } catch {
+    // fall through
+  }
+  console.warn(`[repository] Could not parse localStorage ${key}`);
+  return { entries: [], unreadable: raw };
+}
+
+/** Read the raw `dailyEntries` array (see `parseEntries`). */
+export function readLegacyEntries(storage: Storage = localStorage): {
+  entries: DailyEntry[];
+  unreadable?: string;
+} {
+  return parseEntries(storage.getItem(LEGACY_ENTRIES_KEY), LEGACY_ENTRIES_KEY);
+}
+
+/** Read a meta value written by the pre‑repository code (unprefixed). */
+export function readLegacyMeta(key: string, storage: Storage = localStorage): string | null {
+  return LEGACY_META_KEYS.includes(key) ? storage.getItem(key) : null;
+}
+
+export function createLocalStorageRepository(
+  storage: Storage = localStorage,
+  namespace: string = '',
+): EntryRepository {
+  const entriesKey = namespace + LEGACY_ENTRIES_KEY;
+  const metaPrefix = namespace + META_PREFIX;
+
+  /**
+   * Move an unreadable entries payload to the quarantine, so the next
+   * write can’t overwrite it.  An encrypted quarantine can’t be appended
+   * to down here; the payload then moves to `<entries key>.unreadable`.
+   */
+  const setAside = (raw: string) => {
+    const quarantineKey = metaPrefix + QUARANTINE_KEY;
+    let existing: QuarantinedRecord[] | null;
+    try {
+      existing = JSON.parse(storage.getItem(quarantineKey) || '[]');
+    } catch {
+      existing = null;
+    }
+    if (Array.isArray(existing)) {
+      const record: QuarantinedRecord = {
+        kind: 'entry',
+        record: raw,
+        reason: `${entriesKey} is not a JSON array`,
+        quarantinedAt: new Date().toISOString(),
+      };
+      storage.setItem(quarantineKey, JSON.stringify([...existing, record]));
+    } else {
+      storage.setItem(`${entriesKey}.unreadable`, raw);
+    }
+    storage.removeItem(entriesKey);
+  };
+
+  const read = (): DailyEntry[] => {
+    const { entries, unreadable } = parseEntries(storage.getItem(entriesKey), entriesKey);
+    if (unreadable !== undefined) setAside(unreadable);
+    return entries;
+  };
+  const write = (entries: DailyEntry[]) =>
+    storage.setItem(entriesKey, JSON.stringify(entries));
+
+  const prefixedMetaKeys = () => {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key?.startsWith(metaPrefix)) keys.push(key);
+    }
+    return keys;
+  };
+
+  // Adopt unprefixed legacy meta values once (default profile only).
+  for (const key of namespace ? [] : LEGACY_META_KEYS) {
+    const value = storage.getItem(key);
+    if (value !== null) {
+      storage.setItem(META_PREFIX + key, value);
+      storage.removeItem(key);
+    }
+  }
+
+  return {
+    async getEntries() {
+      return read();
+    },
+    async putEntry(entry) {
+      const entries = read();
+      const idx = entries.findIndex(e => e.timestamp === entry.timestamp);
+      if (idx > -1) entries[idx] = entry;
+      else entries.push(entry);
+      write(entries);
+    },
+    async deleteEntry(timestamp) {
+      write(read().filter(e => e.timestamp !== timestamp));
+    },
+    async replaceEntries(entries) {
+      write(entries);
+    },
+    async getMeta(key) {
+      return storage.getItem(metaPrefix + key);
+    },
+    async setMeta(key, value) {
+      storage.setItem(metaPrefix + key, value);
+    },
+    async removeMeta(key) {
+      storage.removeItem(metaPrefix + key);
+    },
+    async getMetaKeys() {
+      return prefixedMetaKeys().map(key => key.slice(metaPrefix.length));
+    },
+    async clear() {
+      storage.removeItem(entriesKey);
+      prefixedMetaKeys().forEach(key => storage.removeItem(key));
+    },
+  };
+}
@@ -0,0 +1,47 @@
+/**
+ * Volatile repository – keeps everything in plain JS structures.
+ * Used as a fallback when no browser storage is available and handy
+ * for tests or throw‑away demo sessions.
+ */
+
+import type { DailyEntry } from '@/lib/schema';
+import type { EntryRepository } from './types';
+
+export function createMemoryRepository(seed: DailyEntry[] = []): EntryRepository {
+  let entries: DailyEntry[] = seed.map(e => structuredClone(e));
+  const meta = new Map<string, string>();
+
+  return {
+    async getEntries() {
+      return entries.map(e => structuredClone(e));
+    },
+    async putEntry(entry) {
+      const copy = structuredClone(entry);
+      const idx = entries.findIndex(e => e.timestamp === entry.timestamp);
+      if (idx > -1) entries[idx] = copy;
+      else entries.push(copy);
+    },
+    async deleteEntry(timestamp) {
+      entries = entries.filter(e => e.timestamp !== timestamp);
+    },
+    async replaceEntries(next) {
+      entries = next.map(e => structuredClone(e));
+    },
+    async getMeta(key) {
+      return meta.get(key) ?? null;
+    },
+    async setMeta(key, value) {
+      meta.set(key, value);
+    },
+    async removeMeta(key) {
+      meta.delete(key);
+    },
+    async getMetaKeys() {
+      return [...meta.keys()];
+    },
+    async clear() {
+      entries = [];
+      meta.clear();
+    },
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Which profiles exist on this device, and which one is active.
+ *
+ * The registry is device‑wide (it can’t live inside any one profile’s
+ * store), so it is kept as a single JSON value in localStorage – or in
+ * memory where localStorage is unavailable.  The `default` profile owns
+ * the original, un‑namespaced storage so existing data stays where it is.
+ */
+
+export const DEFAULT_PROFILE_ID = 'default';
+const REGISTRY_KEY = 'compass.profiles';
+
+export interface Profile {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface ProfileRegistry {
+  activeId: string;
+  profiles: Profile[];
+}
+
+const defaultRegistry = (): ProfileRegistry => ({
+  activeId: DEFAULT_PROFILE_ID,
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Me', createdAt: new Date(0).toISOString() }],
+});
+
+let memoryRegistry: ProfileRegistry | null = null;
+
+function storage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+export function readProfileRegistry(): ProfileRegistry {
+  const store = storage();
+  if (!store) return (memoryRegistry ??= defaultRegistry());
+  try {
+    const parsed = JSON.parse(store.getItem(REGISTRY_KEY) || 'null');
+    if (parsed && Array.isArray(parsed.profiles) && parsed.profiles.length > 0) {
+      const activeExists = parsed.profiles.some((p: Profile) => p.id === parsed.activeId);
+      return activeExists ? parsed : { ...parsed, activeId: parsed.profiles[0].id };
+    }
+  } catch {
+    console.warn('[repository] Could not parse the profile registry');
+  }
+  return defaultRegistry();
+}
+
+export function writeProfileRegistry(registry: ProfileRegistry): void {
+  const store = storage();
+  if (store) store.setItem(REGISTRY_KEY, JSON.stringify(registry));
+  else memoryRegistry = registry;
+}
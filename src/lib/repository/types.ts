@@ -0,0 +1,33 @@
+/**
+ * Storage contract shared by every persistence backend.
+ *
+ * `src/lib/tasks.ts` only ever talks to an `EntryRepository`, so swapping
+ * localStorage for IndexedDB (or an in‑memory store in tests) is a
+ * one‑line change in `./index.ts`.
+ */
+
+import type { DailyEntry } from '@/lib/schema';
+
+export interface EntryRepository {
+  /** Every stored entry, oldest → newest. */
+  getEntries(): Promise<DailyEntry[]>;
+  /**
+   * Insert or replace a single entry.  Entries are identified by their
+   * `timestamp` (the moment the record was first created).
+   */
+  putEntry(entry: DailyEntry): Promise<void>;
+  /** Remove the entry with the given `timestamp` (no‑op if missing). */
+  deleteEntry(timestamp: string): Promise<void>;
+  /** Replace the whole collection in one go (imports, resets). */
+  replaceEntries(entries: DailyEntry[]): Promise<void>;
+
+  /** Small key/value store for flags such as `lastCompleted`. */
+  getMeta(key: string): Promise<string | null>;
+  setMeta(key: string, value: string): Promise<void>;
+  removeMeta(key: string): Promise<void>;
+  /** Names of every stored meta value. */
+  getMetaKeys(): Promise<string[]>;
+
+  /** Wipe entries *and* meta values. */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,238 @@
+/**
+ * Opt‑in encryption at rest, and the lock that goes with it.
+ *
+ * A vault sits between the storage helpers and the real backend:
+ *
+ *   • encryption off → calls go straight to the backend
+ *   • locked         → every call rejects until `unlock()` succeeds
+ *   • unlocked       → calls go through `createEncryptedRepository`
+ *
+ * The vault’s own settings (salt, KDF parameters, a verifier blob and the
+ * auto‑lock delay) live unencrypted under the `encryption` meta key of the
+ * backend.  Nothing secret is stored there; the key itself only ever
+ * exists in memory.  The settings are re‑read on every call, so a vault
+ * notices when another tab turns encryption on or changes the passphrase.
+ *
+ * Re‑encrypting (enable / change / disable) rewrites every record and
+ * meta value in place.  It is not transactional: closing the tab half way
+ * through a passphrase change can leave records sealed with either key.
+ */
+
+import {
+  KDF_ITERATIONS,
+  decryptText,
+  deriveKey,
+  encryptText,
+  isCryptoAvailable,
+  randomSalt,
+  type Sealed,
+} from '@/lib/crypto';
+import type { DailyEntry } from '@/lib/schema';
+import type { EntryRepository } from './types';
+import { createEncryptedRepository } from './encryptedRepository';
+
+export const ENCRYPTION_META_KEY = 'encryption';
+
+/** Plaintext sealed into the verifier; decrypting it proves the passphrase. */
+const VERIFIER_TEXT = 'task-alignment-compass';
+
+export type VaultStatus = 'off' | 'locked' | 'unlocked';
+
+/** `pin` = digits only, entered on the PIN pad; `passphrase` = free text. */
+export type SecretKind = 'pin' | 'passphrase';
+
+export interface EncryptionSettings {
+  kind: SecretKind;
+  /** Lock after this many minutes without interaction; 0 = never. */
+  autoLockMinutes: number;
+}
+
+interface EncryptionConfig extends EncryptionSettings {
+  version: 1;
+  salt: string;
+  iterations: number;
+  verifier: Sealed;
+}
+
+export interface Vault {
+  /** The repository storage helpers should use. */
+  readonly repository: EntryRepository;
+  status(): Promise<VaultStatus>;
+  /** `null` while encryption is off. */
+  settings(): Promise<EncryptionSettings | null>;
+  /** Encrypt everything with a new passphrase; leaves the vault unlocked. */
+  enable(passphrase: string, settings: EncryptionSettings): Promise<void>;
+  /** Resolves `false` for a wrong passphrase. */
+  unlock(passphrase: string): Promise<boolean>;
+  lock(): void;
+  changePassphrase(current: string, next: string, kind?: SecretKind): Promise<void>;
+  /** Decrypt everything and turn encryption off again. */
+  disable(passphrase: string): Promise<void>;
+  setAutoLockMinutes(minutes: number): Promise<void>;
+}
+
+function parseConfig(raw: string | null): EncryptionConfig | null {
+  try {
+    const config = JSON.parse(raw || 'null');
+    return config?.version === 1 ? config : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Everything a repository holds, read through `repo`. */
+interface StoreContents {
+  entries: DailyEntry[];
+  meta: [string, string][];
+}
+
+async function readContents(repo: EntryRepository): Promise<StoreContents> {
+  const keys = (await repo.getMetaKeys()).filter(k => k !== ENCRYPTION_META_KEY);
+  const meta: [string, string][] = [];
+  for (const key of keys) {
+    const value = await repo.getMeta(key);
+    if (value !== null) meta.push([key, value]);
+  }
+  return { entries: await repo.getEntries(), meta };
+}
+
+async function writeContents(repo: EntryRepository, contents: StoreContents): Promise<void> {
+  await repo.replaceEntries(contents.entries);
+  for (const [key, value] of contents.meta) await repo.setMeta(key, value);
+}
+
+export function createVault(base: EntryRepository): Vault {
+  let session: { salt: string; repo: EntryRepository } | null = null;
+
+  const readConfig = async () => parseConfig(await base.getMeta(ENCRYPTION_META_KEY));
+
+  /** Key + verifier for `passphrase`, or `null` if it doesn’t match `config`. */
+  const openWith = async (config: EncryptionConfig, passphrase: string) => {
+    const key = await deriveKey(passphrase, config.salt, config.iterations);
+    try {
+      return (await decryptText(key, config.verifier)) === VERIFIER_TEXT ? key : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const requireConfig = async () => {
+    const config = await readConfig();
+    if (!config) throw new Error('[repository] Encryption is not enabled');
+    return config;
+  };
+
+  const requireKey = async (config: EncryptionConfig, passphrase: string) => {
+    const key = await openWith(config, passphrase);
+    if (!key) throw new Error('[repository] Wrong passphrase');
+    return key;
+  };
+
+  /** Seal everything in `contents` under a fresh key for `passphrase`. */
+  const encryptAll = async (contents: StoreContents, passphrase: string, settings: EncryptionSettings) => {
+    if (!isCryptoAvailable()) {
+      throw new Error('[repository] Encryption needs a secure (https) context');
+    }
+    const salt = randomSalt();
+    const key = await deriveKey(passphrase, salt);
+    const config: EncryptionConfig = {
+      version: 1,
+      ...settings,
+      salt,
+      iterations: KDF_ITERATIONS,
+      verifier: await encryptText(key, VERIFIER_TEXT),
+    };
+    const repo = createEncryptedRepository(base, key);
+    await writeContents(repo, contents);
+    await base.setMeta(ENCRYPTION_META_KEY, JSON.stringify(config));
+    session = { salt, repo };
+  };
+
+  /** The backend to use right now; rejects while locked. */
+  const active = async (): Promise<EntryRepository> => {
+    const config = await readConfig();
+    if (!config) {
+      session = null;
+      return base;
+    }
+    // Passphrase changed in another tab – our key is stale.
+    if (session && session.salt !== config.salt) session = null;
+    if (!session) throw new Error('[repository] Storage is locked');
+    return session.repo;
+  };
+
+  const forward =
+    <A extends unknown[], R>(pick: (repo: EntryRepository) => (...args: A) => Promise<R>) =>
+    async (...args: A): Promise<R> =>
+      pick(await active())(...args);
+
+  const repository: EntryRepository = {
+    getEntries: forward(r => r.getEntries),
+    putEntry: forward(r => r.putEntry),
+    deleteEntry: forward(r => r.deleteEntry),
+    replaceEntries: forward(r => r.replaceEntries),
+    getMeta: forward(r => r.getMeta),
+    setMeta: forward(r => r.setMeta),
+    removeMeta: forward(r => r.removeMeta),
+    async getMetaKeys() {
+      return (await (await active()).getMetaKeys()).filter(k => k !== ENCRYPTION_META_KEY);
+    },
+    clear: forward(r => r.clear),
+  };
+
+  return {
+    repository,
+
+    async status() {
+      const config = await readConfig();
+      if (!config) return 'off';
+      return session?.salt === config.salt ? 'unlocked' : 'locked';
+    },
+
+    async settings() {
+      const config = await readConfig();
+      return config && { kind: config.kind, autoLockMinutes: config.autoLockMinutes };
+    },
+
+    async enable(passphrase, settings) {
+      if (await readConfig()) throw new Error('[repository] Encryption is already enabled');
+      await encryptAll(await readContents(base), passphrase, settings);
+    },
+
+    async unlock(passphrase) {
+      const config = await requireConfig();
+      const key = await openWith(config, passphrase);
+      if (!key) return false;
+      session = { salt: config.salt, repo: createEncryptedRepository(base, key) };
+      return true;
+    },
+
+    lock() {
+      session = null;
+    },
+
+    async changePassphrase(current, next, kind) {
+      const config = await requireConfig();
+      const key = await requireKey(config, current);
+      const contents = await readContents(createEncryptedRepository(base, key));
+      await encryptAll(contents, next, {
+        kind: kind ?? config.kind,
+        autoLockMinutes: config.autoLockMinutes,
+      });
+    },
+
+    async disable(passphrase) {
+      const config = await requireConfig();
+      const key = await requireKey(config, passphrase);
+      const contents = await readContents(createEncryptedRepository(base, key));
+      await writeContents(base, contents);
+      await base.removeMeta(ENCRYPTION_META_KEY);
+      session = null;
+    },
+
+    async setAutoLockMinutes(minutes) {
+      const config = await requireConfig();
+      await base.setMeta(ENCRYPTION_META_KEY, JSON.stringify({ ...config, autoLockMinutes: minutes }));
+    },
+  };
+}
@@ -0,0 +1,445 @@
+/**
+ * The Task / DailyEntry data model – declared exactly once.
+ *
+ * Each interface has a matching zod schema used to validate records at
+ * the storage boundary (every read and every write in `@/lib/tasks`) and
+ * untrusted input such as voice‑agent tool calls.  Components should keep
+ * importing the types via `@/lib/tasks`, which re‑exports them.
+ *
+ * The interfaces are written out by hand rather than `z.infer`‑ed because
+ * the project compiles without `strictNullChecks`, where zod’s inference
+ * marks every property optional.
+ */
+
+import { z } from 'zod';
+
+/** Id of one of the user’s categories (see `Category`). */
+export type TaskCategory = string;
+
+/** Palette and icon set a category can pick from; components map them to styles. */
+export const CATEGORY_COLORS = ['gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'] as const;
+export type CategoryColor = (typeof CATEGORY_COLORS)[number];
+
+export const CATEGORY_ICONS = ['user', 'briefcase', 'heart', 'home', 'dumbbell', 'book', 'wallet', 'users', 'star', 'folder'] as const;
+export type CategoryIcon = (typeof CATEGORY_ICONS)[number];
+
+/** A user‑managed category.  Archived ones stay resolvable for old tasks. */
+export interface Category {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: CategoryIcon;
+  archived?: boolean;
+}
+
+/** What every store starts with; the ids match the old fixed categories. */
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'personal', name: 'Personal', color: 'blue', icon: 'user' },
+  { id: 'professional', name: 'Professional', color: 'purple', icon: 'briefcase' },
+];
+
+/** A goal is set for a calendar year or for one quarter of it. */
+export type GoalHorizon = 'year' | 'quarter';
+
+/**
+ * A long‑term goal (or OKR objective) that daily tasks can serve.
+ * `period` is `2026` for a yearly goal and `2026-Q3` for a quarterly one.
+ */
+export interface Goal {
+  id: string;
+  title: string;
+  horizon: GoalHorizon;
+  period: string;
+  /** measurable outcomes, OKR style; may be empty */
+  keyResults: string[];
+  createdAt: string;
+  archived?: boolean;
+}
+
+export type MoscowLevel = 'must' | 'should' | 'could' | 'wont';
+
+/** A hard deadline can’t slip; a soft one is a target. */
+export type DeadlineType = 'hard' | 'soft';
+
+/** What happened to an unfinished task when its day was rolled over. */
+export type RolloverOutcome = 'carried' | 'dropped';
+
+/** One step of a task’s checklist. */
+export interface Subtask {
+  id: string;
+  text: string;
+  completed: boolean;
+}
+
+/**
+ * Optional inputs for the prioritization strategies (see
+ * `@/lib/prioritization`).  Anything left out is derived from the task’s
+ * urgency / importance when it is scored.
+ */
+export interface TaskScoring {
+  moscow?: MoscowLevel;
+  /** RICE: reach (people / occasions), impact 0.25–3, confidence %, effort (days) */
+  rice?: { reach?: number; impact?: number; confidence?: number; effort?: number };
+  /** ICE: each 1–10 */
+  ice?: { impact?: number; confidence?: number; ease?: number };
+  /** weighted criteria: rating 1–5 per criterion id */
+  ratings?: Record<string, number>;
+}
+
+export interface Task {
+  id: string;                          // uuid‑v4
+  text: string;                        // the raw task text
+  category: TaskCategory;              // id of one of the user’s categories
+  priority: number;                    // 1‑based priority order
+  completed: boolean;                  // track completion in UI
+  completedAt?: string;                // ISO timestamp it was ticked off (only while completed)
+  createdAt: string;                   // ISO timestamp of capture
+  urgent: boolean;                     // Eisenhower axis: needs doing soon
+  important: boolean;                  // Eisenhower axis: matters to your goals
+  scoring?: TaskScoring;               // extra inputs for other strategies
+  dueAt?: string;                      // ISO timestamp the task is due by
+  deadlineType?: DeadlineType;         // hard | soft (only with dueAt)
+  carryCount?: number;                 // times carried over from an earlier day
+  carriedFrom?: string;                // date key of the day it was carried from
+  rolledOver?: RolloverOutcome;        // set on the earlier day’s copy at rollover
+  dropReason?: string;                 // why it was dropped (rolledOver = dropped)
+  recurrenceId?: string;               // id of the recurring task it was generated from
+  subtasks?: Subtask[];                // ordered checklist of steps
+  tags?: string[];                     // free‑form labels, lower‑case, no “#”
+  goalId?: string;                     // id of the long‑term goal it serves
+}
+
+/** Snapshot of a day’s content before a later save replaced it. */
+export interface EntryRevision {
+  /** when this version had been saved (ISO) */
+  savedAt: string;
+  tasks: Task[];
+  reflection?: string;
+}
+
+/** One line of a voice session: something said, or a client tool the agent called. */
+export type TranscriptEvent =
+  | { at: string; source: 'user' | 'agent'; text: string }
+  | { at: string; source: 'tool'; tool: string; parameters: Record<string, unknown>; result: string };
+
+/** Everything said and done in one voice session. */
+export interface Transcript {
+  id: string;
+  /** voice provider that ran the session, e.g. `elevenlabs` */
+  provider: string;
+  startedAt: string;
+  /** set once the session has ended */
+  endedAt?: string;
+  events: TranscriptEvent[];
+}
+
+/**
+ * Entry representing a single day’s focus list + optional reflection.
+ * There is exactly one entry per calendar day; saving again updates it
+ * and pushes the previous content onto `revisions`.
+ */
+export interface DailyEntry {
+  date: string;                        // local calendar day, YYYY-MM-DD
+  tasks: Task[];
+  reflection?: string;
+  /** moment the day’s record was first created (ISO); its storage identity */
+  timestamp: string;
+  /** moment of the most recent save (ISO) */
+  updatedAt?: string;
+  /** earlier versions of the day, oldest first */
+  revisions?: EntryRevision[];
+  /** voice sessions held that day, oldest first */
+  transcripts?: Transcript[];
+  /** storage schema version; stamped automatically on write */
+  schemaVersion?: number;
+}
+
+/* ------------------------------------------------------------------ *
+ *  Runtime schemas                                                   *
+ * ------------------------------------------------------------------ */
+
+export const TaskCategorySchema = z.string().trim().min(1, 'category is required');
+
+export const CategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'category name is required').max(32),
+  color: z.enum(CATEGORY_COLORS),
+  icon: z.enum(CATEGORY_ICONS),
+  archived: z.boolean().optional(),
+});
+
+export const GOAL_HORIZONS = ['year', 'quarter'] as const;
+
+export const GoalSchema = z
+  .object({
+    id: z.string().min(1),
+    title: z.string().trim().min(1, 'goal title is required').max(120),
+    horizon: z.enum(GOAL_HORIZONS),
+    period: z.string(),
+    keyResults: z.array(z.string().trim().min(1).max(120)).max(5, 'at most 5 key results'),
+    createdAt: z.string().datetime({ offset: true }),
+    archived: z.boolean().optional(),
+  })
+  .refine(g => (g.horizon === 'year' ? /^\d{4}$/ : /^\d{4}-Q[1-4]$/).test(g.period), {
+    message: 'period must be YYYY for a yearly goal and YYYY-Qn for a quarterly one',
+    path: ['period'],
+  });
+
+export const MAX_TAGS = 10;
+
+const TagsSchema = z.array(z.string().trim().min(1).max(32)).max(MAX_TAGS, `at most ${MAX_TAGS} tags`);
+
+const isoTimestamp = z.string().datetime({ offset: true });
+
+export const MOSCOW_LEVELS = ['must', 'should', 'could', 'wont'] as const;
+
+export const DEADLINE_TYPES = ['hard', 'soft'] as const;
+
+export const DeadlineTypeSchema = z.enum(DEADLINE_TYPES);
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'date must be YYYY-MM-DD');
+
+const tenPoint = z.number().min(1).max(10);
+
+export const SubtaskSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().trim().min(1, 'step text is required'),
+  completed: z.boolean(),
+});
+
+export const TaskScoringSchema = z.object({
+  moscow: z.enum(MOSCOW_LEVELS).optional(),
+  rice: z
+    .object({
+      reach: z.number().nonnegative().optional(),
+      impact: z.number().min(0.25).max(3).optional(),
+      confidence: z.number().min(0).max(100).optional(),
+      effort: z.number().positive().optional(),
+    })
+    .optional(),
+  ice: z
+    .object({ impact: tenPoint.optional(), confidence: tenPoint.optional(), ease: tenPoint.optional() })
+    .optional(),
+  ratings: z.record(z.number().min(1).max(5)).optional(),
+});
+
+export const TaskSchema = z.object({
+  id: z.string().min(1),
+  text: z.string().trim().min(1, 'task text is required'),
+  category: TaskCategorySchema,
+  priority: z.number().int().positive(),
+  completed: z.boolean(),
+  completedAt: isoTimestamp.optional(),
+  createdAt: isoTimestamp,
+  urgent: z.boolean(),
+  important: z.boolean(),
+  scoring: TaskScoringSchema.optional(),
+  dueAt: isoTimestamp.optional(),
+  deadlineType: DeadlineTypeSchema.optional(),
+  carryCount: z.number().int().positive().optional(),
+  carriedFrom: dateKey.optional(),
+  rolledOver: z.enum(['carried', 'dropped']).optional(),
+  dropReason: z.string().optional(),
+  recurrenceId: z.string().min(1).optional(),
+  subtasks: z.array(SubtaskSchema).optional(),
+  tags: TagsSchema.optional(),
+  goalId: z.string().min(1).optional(),
+});
+
+/** The part of a task a user (or the voice agent) actually supplies. */
+export const TaskInputSchema = z.object({
+  text: z.string().trim().min(1, 'task text is required'),
+  category: TaskCategorySchema,
+  urgent: z.boolean().optional(),
+  important: z.boolean().optional(),
+  dueAt: isoTimestamp.optional(),
+  deadlineType: DeadlineTypeSchema.optional(),
+  tags: TagsSchema.optional(),
+  /** the goal the task serves, by id or title */
+  goal: z.string().trim().min(1).optional(),
+});
+
+export type TaskInput = {
+  text: string;
+  category: TaskCategory;
+  urgent?: boolean;
+  important?: boolean;
+  dueAt?: string;
+  deadlineType?: DeadlineType;
+  tags?: string[];
+  goal?: string;
+};
+
+/** A step to add to an existing task, named the way the user said it. */
+export const SubtaskInputSchema = z.object({
+  task: z.string().trim().min(1, 'task name is required'),
+  text: z.string().trim().min(1, 'step text is required'),
+});
+
+export type SubtaskInput = { task: string; text: string };
+
+/**
+ * Urgency / importance assumed when none was given (tasks saved before
+ * the fields existed, voice calls that leave them out): worth doing, but
+ * not on fire – the “Schedule” quadrant.
+ */
+export const DEFAULT_URGENCY = { urgent: false, important: true } as const;
+
+export const EntryRevisionSchema = z.object({
+  savedAt: isoTimestamp,
+  tasks: z.array(TaskSchema),
+  reflection: z.string().optional(),
+});
+
+export const TranscriptEventSchema = z.union([
+  z.object({
+    at: isoTimestamp,
+    source: z.enum(['user', 'agent']),
+    text: z.string(),
+  }),
+  z.object({
+    at: isoTimestamp,
+    source: z.literal('tool'),
+    tool: z.string().min(1),
+    parameters: z.record(z.unknown()),
+    result: z.string(),
+  }),
+]);
+
+export const TranscriptSchema = z.object({
+  id: z.string().min(1),
+  provider: z.string().min(1),
+  startedAt: isoTimestamp,
+  endedAt: isoTimestamp.optional(),
+  events: z.array(TranscriptEventSchema),
+});
+
+/** Entry‑level fields only; tasks, revisions and transcripts are validated one by one. */
+const EntryShellSchema = z.object({
+  date: dateKey,
+  tasks: z.array(z.unknown()),
+  reflection: z.string().optional(),
+  timestamp: isoTimestamp,
+  updatedAt: isoTimestamp.optional(),
+  revisions: z.array(z.unknown()).optional(),
+  transcripts: z.array(z.unknown()).optional(),
+  schemaVersion: z.number().int().optional(),
+});
+
+export const DailyEntrySchema = EntryShellSchema.extend({
+  tasks: z.array(TaskSchema),
+  revisions: z.array(EntryRevisionSchema).optional(),
+  transcripts: z.array(TranscriptSchema).optional(),
+});
+
+/* ------------------------------------------------------------------ *
+ *  Validation helpers                                                *
+ * ------------------------------------------------------------------ */
+
+/** A record that failed validation, kept aside instead of rendered. */
+export interface QuarantinedRecord {
+  kind: 'entry' | 'task' | 'revision' | 'transcript';
+  /** the offending record exactly as it was stored */
+  record: unknown;
+  /** human‑readable summary of what was wrong */
+  reason: string;
+  /** entry date the record belonged to, when known */
+  date?: string;
+  quarantinedAt: string;
+}
+
+/** Flatten zod issues into one readable line. */
+export function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .map(i => (i.path.length ? `${i.path.join('.')}: ${i.message}` : i.message))
+    .join('; ');
+}
+
+/**
+ * Split raw stored records into valid entries and quarantined records.
+ * An entry with a broken shell is rejected whole; an entry with only
+ * some broken tasks is kept with those tasks removed.
+ */
+export function partitionEntries(raw: unknown[]): {
+  valid: DailyEntry[];
+  rejected: QuarantinedRecord[];
+} {
+  const valid: DailyEntry[] = [];
+  const rejected: QuarantinedRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+
+  for (const record of raw) {
+    const shell = EntryShellSchema.safeParse(record);
+    if (!shell.success) {
+      rejected.push({ kind: 'entry', record, reason: describeIssues(shell.error), quarantinedAt });
+      continue;
+    }
+
+    const tasks: Task[] = [];
+    for (const task of shell.data.tasks) {
+      const parsed = TaskSchema.safeParse(task);
+      if (parsed.success) {
+        tasks.push(parsed.data as Task);
+      } else {
+        rejected.push({
+          kind: 'task',
+          record: task,
+          reason: describeIssues(parsed.error),
+          date: shell.data.date,
+          quarantinedAt,
+        });
+      }
+    }
+
+    let revisions: EntryRevision[] | undefined;
+    if (shell.data.revisions) {
+      revisions = [];
+      for (const revision of shell.data.revisions) {
+        const parsed = EntryRevisionSchema.safeParse(revision);
+        if (parsed.success) {
+          revisions.push(parsed.data as EntryRevision);
+        } else {
+          rejected.push({
+            kind: 'revision',
+            record: revision,
+            reason: describeIssues(parsed.error),
+            date: shell.data.date,
+            quarantinedAt,
+          });
+        }
+      }
+    }
+
+    let transcripts: Transcript[] | undefined;
+    if (shell.data.transcripts) {
+      transcripts = [];
+      for (const transcript of shell.data.transcripts) {
+        const parsed = TranscriptSchema.safeParse(transcript);
+        if (parsed.success) {
+          transcripts.push(parsed.data as Transcript);
+        } else {
+          rejected.push({
+            kind: 'transcript',
+            record: transcript,
+            reason: describeIssues(parsed.error),
+            date: shell.data.date,
+            quarantinedAt,
+          });
+        }
+      }
+    }
+
+    valid.push({ ...(shell.data as DailyEntry), tasks, revisions, transcripts });
+  }
+
+  return { valid, rejected };
+}
+
+/** Validate an entry about to be written; throws with a readable message. */
+export function assertValidEntry(entry: DailyEntry): DailyEntry {
+  const parsed = DailyEntrySchema.safeParse(entry);
+  if (!parsed.success) {
+    throw new Error(`[tasks] Invalid daily entry: ${describeIssues(parsed.error)}`);
+  }
+  return parsed.data as DailyEntry;
+}
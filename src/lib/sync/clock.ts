@@ -0,0 +1,55 @@
+/**
+ * Hybrid logical clock for sync stamps.
+ *
+ * A stamp is `<wall ms>-<counter>-<device>` with fixed‑width base‑36
+ * parts, so comparing two stamps as plain strings orders them by time,
+ * then counter, then device.  Observing remote stamps keeps our clock
+ * ahead of anything we have seen, even if this device’s wall clock lags.
+ */
+
+const DEVICE_KEY = 'compass.deviceId';
+
+let lastWall = 0;
+let counter = 0;
+let deviceId: string | null = null;
+
+/** A stable random id for this device (per browser storage). */
+export function getDeviceId(): string {
+  if (deviceId) return deviceId;
+  try {
+    deviceId = localStorage.getItem(DEVICE_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID().slice(0, 8);
+      localStorage.setItem(DEVICE_KEY, deviceId);
+    }
+  } catch {
+    deviceId = Math.random().toString(36).slice(2, 10);
+  }
+  return deviceId;
+}
+
+const format = (wall: number, count: number) =>
+  `${wall.toString(36).padStart(9, '0')}-${count.toString(36).padStart(4, '0')}-${getDeviceId()}`;
+
+/** A stamp greater than every stamp issued or observed so far. */
+export function nextStamp(now: number = Date.now()): string {
+  if (now > lastWall) {
+    lastWall = now;
+    counter = 0;
+  } else {
+    counter += 1;
+  }
+  return format(lastWall, counter);
+}
+
+/** Move the clock past a stamp received from another device. */
+export function observeStamp(stamp: string): void {
+  const [wallPart, counterPart] = stamp.split('-');
+  const wall = parseInt(wallPart, 36);
+  const count = parseInt(counterPart, 36);
+  if (Number.isNaN(wall) || Number.isNaN(count)) return;
+  if (wall > lastWall || (wall === lastWall && count > counter)) {
+    lastWall = wall;
+    counter = count;
+  }
+}
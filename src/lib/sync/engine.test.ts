@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryRepository, getEntryRepository, setEntryRepository } from '@/lib/repository';
+import { todayKey } from '@/lib/dates';
+import { addTask, getTodayTasks, setTaskCompleted } from '@/lib/tasks';
+import { setSyncConfig, syncNow } from './engine';
+import { taskKey } from './records';
+import { OUTBOX_KEY, type Outbox } from './tracker';
+import type { ExchangeResponse, SyncTransport } from './transport';
+
+const config = { url: 'http://sync.test', space: 'test', intervalMinutes: 5 };
+
+/** A transport whose single exchange answers with `response` once `release()` is called. */
+function heldTransport(response: ExchangeResponse) {
+  let release!: () => void;
+  let exchanged!: () => void;
+  const released = new Promise<void>(resolve => (release = resolve));
+  const started = new Promise<void>(resolve => (exchanged = resolve));
+  const transport: SyncTransport = {
+    async exchange() {
+      exchanged();
+      await released;
+      return response;
+    },
+  };
+  return { transport, started, release };
+}
+
+const outbox = async (): Promise<Outbox> => JSON.parse((await getEntryRepository().getMeta(OUTBOX_KEY)) || '{}');
+
+beforeEach(() => {
+  setEntryRepository(createMemoryRepository());
+});
+
+describe('syncNow', () => {
+  it('pushes local changes and clears them from the outbox', async () => {
+    await setSyncConfig(config);
+    await addTask('Write report', 'professional');
+    expect(Object.keys(await outbox()).length).toBeGreaterThan(0);
+
+    const sent: number[] = [];
+    await syncNow({
+      async exchange({ changes }) {
+        sent.push(changes.length);
+        return { cursor: 1, records: [] };
+      },
+    });
+    expect(sent[0]).toBeGreaterThan(0);
+    expect(await outbox()).toEqual({});
+  });
+
+  it('does not let a local edit in flight revert a merged remote edit', async () => {
+    await setSyncConfig(config);
+    const report = await addTask('Write report', 'professional');
+    await syncNow({ exchange: async () => ({ cursor: 1, records: [] }) });
+
+    const remoteStamp = `${(Date.now() + 60_000).toString(36).padStart(9, '0')}-0000-remote`;
+    const { transport, started, release } = heldTransport({
+      cursor: 2,
+      records: [{ key: taskKey(todayKey(), report.id), fields: { text: { value: 'Write Q3 report', stamp: remoteStamp } } }],
+    });
+
+    const syncing = syncNow(transport);
+    await started;
+    const completing = setTaskCompleted(report.id, true);
+    release();
+    await Promise.all([syncing, completing]);
+
+    expect((await getTodayTasks()).map(t => [t.text, t.completed])).toEqual([['Write Q3 report', true]]);
+    const queuedText = Object.values(await outbox()).filter(c => c.field === 'text');
+    expect(queuedText.map(c => c.value)).not.toContain('Write report');
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * The sync engine: one `syncNow()` = push the outbox, pull what changed
+ * remotely, merge field by field (later stamp wins), write the result.
+ *
+ * Sync is configured per profile (`sync.config` in the profile’s meta
+ * store); each profile syncs into its own space on the server.
+ */
+
+import { getEntryRepository, getVault } from '@/lib/repository';
+import type { EntryRepository } from '@/lib/repository';
+import { notifyDataChanged } from '@/lib/changeFeed';
+import { SCHEMA_VERSION, ensureMigrated } from '@/lib/migrations';
+import { partitionEntries } from '@/lib/schema';
+import { queueMutation } from '@/lib/tasks';
+import { nextStamp, observeStamp } from './clock';
+import {
+  SYNCED_META_KEYS,
+  applyRemoteFields,
+  applyRemoteMeta,
+  diffEntries,
+  diffMeta,
+  type Fields,
+  type StampMap,
+} from './records';
+import {
+  OUTBOX_KEY,
+  STAMPS_KEY,
+  SYNC_CONFIG_KEY,
+  exclusive,
+  outboxId,
+  readJson,
+  recordChanges,
+  type Outbox,
+} from './tracker';
+import { SyncOfflineError, createHttpTransport, type SyncTransport } from './transport';
+
+const CURSOR_KEY = 'sync.cursor';
+const LAST_SYNCED_KEY = 'sync.lastSyncedAt';
+
+export const DEFAULT_SYNC_INTERVAL_MINUTES = 5;
+
+export interface SyncConfig {
+  url: string;
+  space: string;
+  token?: string;
+  /** Pull this often while the app is open. */
+  intervalMinutes: number;
+}
+
+export type SyncState = 'disabled' | 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  /** Local changes not yet accepted by the server. */
+  pending: number;
+  lastSyncedAt: string | null;
+  error?: string;
+}
+
+let running: Promise<void> | null = null;
+let lastFailure: { state: 'offline' | 'error'; message: string } | null = null;
+
+type StatusListener = () => void;
+const statusListeners = new Set<StatusListener>();
+
+/** A run started or finished – separate from data changes, so it can’t trigger another run. */
+const emitStatus = () => statusListeners.forEach(l => l());
+
+/** Hear when `getSyncStatus()` may have changed; returns an unsubscribe function. */
+export function subscribeToSyncStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+/** The active profile’s vault repository – below change tracking, so
+ *  merged remote data isn’t queued for upload again. */
+const store = (): EntryRepository => getVault().repository;
+
+export async function getSyncConfig(): Promise<SyncConfig | null> {
+  return readJson<SyncConfig | null>(store(), SYNC_CONFIG_KEY, null);
+}
+
+/**
+ * Turn sync on (or update its settings) for the active profile.  A new
+ * server or space starts over from scratch: everything local is queued
+ * again and the next exchange pulls the full remote state.
+ */
+export async function setSyncConfig(config: SyncConfig): Promise<void> {
+  const repo = store();
+  const previous = await getSyncConfig();
+  const sameRemote = previous && previous.url === config.url && previous.space === config.space;
+
+  // Existing data is upgraded before we queue it
+  await ensureMigrated(getEntryRepository());
+  await exclusive(repo, async () => {
+    if (!sameRemote) {
+      for (const key of [OUTBOX_KEY, STAMPS_KEY, CURSOR_KEY, LAST_SYNCED_KEY]) await repo.removeMeta(key);
+      await recordChanges(repo, diffEntries([], await repo.getEntries(), () => nextStamp()));
+      for (const key of SYNCED_META_KEYS) {
+        await recordChanges(repo, diffMeta(key, null, await repo.getMeta(key), () => nextStamp()));
+      }
+    }
+    await repo.setMeta(SYNC_CONFIG_KEY, JSON.stringify(config));
+  });
+  lastFailure = null;
+  notifyDataChanged();
+}
+
+/** Stop syncing the active profile and forget all sync bookkeeping. */
+export async function disableSync(): Promise<void> {
+  const repo = store();
+  await exclusive(repo, async () => {
+    for (const key of [SYNC_CONFIG_KEY, OUTBOX_KEY, STAMPS_KEY, CURSOR_KEY, LAST_SYNCED_KEY]) {
+      await repo.removeMeta(key);
+    }
+  });
+  lastFailure = null;
+  notifyDataChanged();
+}
+
+export async function getSyncStatus(): Promise<SyncStatus> {
+  const repo = store();
+  if (!(await getSyncConfig())) return { state: 'disabled', pending: 0, lastSyncedAt: null };
+
+  const pending = Object.keys(await readJson<Outbox>(repo, OUTBOX_KEY, {})).length;
+  const lastSyncedAt = await repo.getMeta(LAST_SYNCED_KEY);
+  if (running) return { state: 'syncing', pending, lastSyncedAt };
+  if (lastFailure) return { state: lastFailure.state, pending, lastSyncedAt, error: lastFailure.message };
+  return { state: 'idle', pending, lastSyncedAt };
+}
+
+/**
+ * Run one exchange with the configured remote.  Concurrent calls share
+ * the run in progress.  Failures are reported through `getSyncStatus()`
+ * rather than thrown, so callers can fire and forget.
+ *
+ * Only a run that merged remote changes announces a data change (as
+ * `sync`, which auto‑sync doesn’t answer); start and end of a run go to
+ * `subscribeToSyncStatus` listeners.
+ */
+export function syncNow(transport?: SyncTransport): Promise<void> {
+  return (running ??= runSync(transport)
+    .then(applied => {
+      if (applied) notifyDataChanged('sync');
+    })
+    .finally(() => {
+      running = null;
+      emitStatus();
+    }));
+}
+
+/** Resolves to whether remote changes were written locally. */
+async function runSync(transportOverride?: SyncTransport): Promise<boolean> {
+  const repo = store();
+  const config = await getSyncConfig();
+  if (!config) return false;
+  emitStatus();
+
+  let applied = false;
+  try {
+    const { outbox, since } = await exclusive(repo, async () => ({
+      outbox: await readJson<Outbox>(repo, OUTBOX_KEY, {}),
+      since: Number(await repo.getMeta(CURSOR_KEY)) || 0,
+    }));
+
+    const transport = transportOverride ?? createHttpTransport(config);
+    const sent = Object.values(outbox);
+    const response = await transport.exchange({ since, changes: sent });
+
+    // On the mutation queue, so the merge can’t land between a storage
+    // helper’s read and its write – the write would revert what we merged
+    await queueMutation(() => exclusive(repo, async () => {
+      // Sent changes are done – unless the field was edited again meanwhile
+      const current = await readJson<Outbox>(repo, OUTBOX_KEY, {});
+      for (const change of sent) {
+        if (current[outboxId(change)]?.stamp === change.stamp) delete current[outboxId(change)];
+      }
+
+      const stamps = await readJson<StampMap>(repo, STAMPS_KEY, {});
+      const incoming = new Map<string, Fields>();
+      const complete = new Map<string, Fields>();
+      for (const record of response.records) {
+        const values: Fields = {};
+        for (const [field, { value, stamp }] of Object.entries(record.fields)) {
+          observeStamp(stamp);
+          values[field] = value;
+          const local = stamps[record.key]?.[field];
+          if (!local || stamp > local) {
+            incoming.set(record.key, { ...incoming.get(record.key), [field]: value });
+            (stamps[record.key] ??= {})[field] = stamp;
+          }
+        }
+        complete.set(record.key, values);
+      }
+
+      applied = incoming.size > 0;
+      if (applied) {
+        const local = await repo.getEntries();
+        const merged = applyRemoteFields(local, incoming, complete, stamps);
+        const { valid, rejected } = partitionEntries(merged);
+        // A day that doesn’t validate after merging keeps its local version
+        const broken = new Set(
+          rejected.filter(r => r.kind === 'entry').map(r => (r.record as { date?: string })?.date),
+        );
+        const keep = local.filter(e => broken.has(e.date));
+        rejected.forEach(r => console.warn(`[sync] Skipped remote ${r.kind}: ${r.reason}`, r.record));
+        await repo.replaceEntries(
+          [...valid, ...keep]
+            .map(e => ({ ...e, schemaVersion: SCHEMA_VERSION }))
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+        );
+        for (const key of SYNCED_META_KEYS) {
+          const value = applyRemoteMeta(key, await repo.getMeta(key), incoming, complete);
+          if (value !== null) await repo.setMeta(key, value);
+        }
+      }
+
+      await repo.setMeta(OUTBOX_KEY, JSON.stringify(current));
+      await repo.setMeta(STAMPS_KEY, JSON.stringify(stamps));
+      await repo.setMeta(CURSOR_KEY, String(response.cursor));
+      await repo.setMeta(LAST_SYNCED_KEY, new Date().toISOString());
+    }));
+    lastFailure = null;
+  } catch (err) {
+    const offline = err instanceof SyncOfflineError;
+    if (!offline) console.error('[sync] Sync failed', err);
+    lastFailure = { state: offline ? 'offline' : 'error', message: (err as Error).message };
+  }
+  return applied;
+}
@@ -0,0 +1,27 @@
+/**
+ * Sync between devices through a self‑hostable HTTP endpoint.
+ *
+ *   • `./records`   – entries as field‑level records, diff and merge
+ *   • `./clock`     – hybrid logical clock stamps
+ *   • `./tracker`   – local change capture + offline outbox
+ *   • `./transport` – the remote contract and its HTTP implementation
+ *   • `./engine`    – configuration, status and `syncNow()`
+ *
+ * The reference server lives in `server/sync-server.mjs`.
+ */
+
+export {
+  DEFAULT_SYNC_INTERVAL_MINUTES,
+  disableSync,
+  getSyncConfig,
+  getSyncStatus,
+  setSyncConfig,
+  subscribeToSyncStatus,
+  syncNow,
+  type SyncConfig,
+  type SyncState,
+  type SyncStatus,
+} from './engine';
+export { createTrackedRepository } from './tracker';
+export { SyncOfflineError, createHttpTransport, type SyncTransport } from './transport';
+export type { Change, RemoteRecord } from './records';
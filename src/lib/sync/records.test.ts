@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import type { DailyEntry, Task } from '@/lib/schema';
+import { CATEGORIES_KEY } from '@/lib/metaKeys';
+import { nextStamp, observeStamp } from './clock';
+import {
+  applyRemoteFields,
+  applyRemoteMeta,
+  dayKey,
+  diffEntries,
+  diffMeta,
+  taskKey,
+  toRecords,
+  type Fields,
+} from './records';
+
+const task = (id: string, text: string, extra: Partial<Task> = {}): Task => ({
+  id,
+  text,
+  category: 'personal',
+  priority: 1,
+  completed: false,
+  createdAt: '2026-10-19T08:00:00.000Z',
+  urgent: false,
+  important: true,
+  ...extra,
+});
+
+const day = (date: string, tasks: Task[], extra: Partial<DailyEntry> = {}): DailyEntry => ({
+  date,
+  tasks,
+  timestamp: `${date}T08:00:00.000Z`,
+  ...extra,
+});
+
+let counter = 0;
+const stamp = () => `s${String(++counter).padStart(4, '0')}`;
+
+describe('diffEntries', () => {
+  it('emits only the fields that changed', () => {
+    const before = [day('2026-10-19', [task('a', 'Gym')])];
+    const after = [day('2026-10-19', [task('a', 'Gym', { completed: true })])];
+    expect(diffEntries(before, after, stamp).map(c => [c.key, c.field, c.value])).toEqual([
+      [taskKey('2026-10-19', 'a'), 'completed', true],
+    ]);
+  });
+
+  it('tombstones removed tasks and days', () => {
+    const before = [day('2026-10-19', [task('a', 'Gym')])];
+    const changes = diffEntries(before, [], stamp).map(c => [c.key, c.field, c.value]);
+    expect(changes).toEqual([
+      [dayKey('2026-10-19'), 'deleted', true],
+      [taskKey('2026-10-19', 'a'), 'deleted', true],
+    ]);
+  });
+});
+
+describe('applyRemoteFields', () => {
+  const complete = (entries: DailyEntry[]) => toRecords(entries);
+
+  it('merges a remote edit of one field into the local task', () => {
+    const local = [day('2026-10-19', [task('a', 'Write report', { completed: true })])];
+    const incoming = new Map<string, Fields>([[taskKey('2026-10-19', 'a'), { text: 'Write Q3 report' }]]);
+    const [merged] = applyRemoteFields(local, incoming, complete(local));
+    expect(merged.tasks[0]).toMatchObject({ text: 'Write Q3 report', completed: true });
+  });
+
+  it('adds tasks and days it does not have yet from the full record', () => {
+    const remote = [day('2026-10-20', [task('b', 'Dentist', { dueAt: '2026-10-20T15:00:00.000Z', tags: ['health'] })])];
+    const records = complete(remote);
+    const merged = applyRemoteFields([], records, records);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].tasks[0]).toEqual(remote[0].tasks[0]);
+  });
+
+  it('drops remotely removed tasks and days left empty', () => {
+    const local = [day('2026-10-19', [task('a', 'Gym')])];
+    const incoming = new Map<string, Fields>([
+      [taskKey('2026-10-19', 'a'), { deleted: true }],
+      [dayKey('2026-10-19'), { deleted: true }],
+    ]);
+    expect(applyRemoteFields(local, incoming, complete(local))).toEqual([]);
+  });
+
+  it('keeps a local removal when a remote edit of another field wins', () => {
+    const key = taskKey('2026-10-19', 'a');
+    const incoming = new Map<string, Fields>([[key, { text: 'Gym (edited elsewhere)' }]]);
+    const remote = complete([day('2026-10-19', [task('a', 'Gym (edited elsewhere)')])]);
+    const merged = applyRemoteFields([day('2026-10-19', [])], incoming, remote, { [key]: { deleted: 's9999' } });
+    expect(merged[0].tasks).toEqual([]);
+  });
+});
+
+describe('category and goal records', () => {
+  const personal = { id: 'personal', name: 'Personal', color: 'blue', icon: 'user' };
+  const fitness = { id: 'fit', name: 'Fitness', color: 'green', icon: 'heart' };
+
+  it('diffs the stored list item by item', () => {
+    const changes = diffMeta(CATEGORIES_KEY, JSON.stringify([personal]), JSON.stringify([{ ...personal, name: 'Home' }, fitness]), stamp);
+    expect(changes.map(c => [c.key, c.field, c.value])).toEqual([
+      ['category/personal', 'name', 'Home'],
+      ['category/fit', 'name', 'Fitness'],
+      ['category/fit', 'color', 'green'],
+      ['category/fit', 'icon', 'heart'],
+      ['category/fit', 'archived', null],
+    ]);
+  });
+
+  it('applies remote items onto the stored list', () => {
+    const remote = new Map<string, Fields>([
+      ['category/personal', { name: 'Home' }],
+      ['category/fit', { name: 'Fitness', color: 'green', icon: 'heart', archived: null }],
+    ]);
+    const value = applyRemoteMeta(CATEGORIES_KEY, JSON.stringify([personal]), remote, remote);
+    expect(JSON.parse(value ?? 'null')).toEqual([{ ...personal, name: 'Home' }, fitness]);
+    expect(applyRemoteMeta(CATEGORIES_KEY, '[]', new Map([[taskKey('2026-10-19', 'a'), { text: 'x' }]]), new Map())).toBeNull();
+  });
+});
+
+describe('clock', () => {
+  it('issues increasing stamps and stays ahead of observed ones', () => {
+    const first = nextStamp(1000);
+    const second = nextStamp(1000);
+    expect(second > first).toBe(true);
+
+    const remote = `${(10_000_000).toString(36).padStart(9, '0')}-0005-remote`;
+    observeStamp(remote);
+    expect(nextStamp(1000) > remote).toBe(true);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * The sync data model: DailyEntries flattened into field‑level records.
+ *
+ *   day/<date>            reflection, timestamp, deleted
+ *   task/<date>/<taskId>  text, category, priority, completed, completedAt,
+ *                         createdAt, urgent, important, scoring (JSON), dueAt,
+ *                         deadlineType, carryCount, carriedFrom,
+ *                         rolledOver, dropReason, recurrenceId,
+ *                         subtasks (JSON), tags (JSON), goalId,
+ *                         deleted
+ *   category/<id>         name, color, icon, archived
+ *   goal/<id>             title, horizon, period, keyResults (JSON),
+ *                         createdAt, archived
+ *
+ * Every field carries its own stamp (see `./clock`), so concurrent edits
+ * to different fields of the same task both survive, and for the same
+ * field the later stamp wins.  Removing a task or day leaves a
+ * `deleted: true` tombstone so the removal syncs too.  Categories and
+ * goals come from the meta store (`SYNCED_META_KEYS`); they are archived,
+ * never removed, so they need no tombstones.  Revisions, voice
+ * transcripts and the undo journal stay local.
+ */
+
+import type { DailyEntry, Task } from '@/lib/schema';
+import { CATEGORIES_KEY, GOALS_KEY } from '@/lib/metaKeys';
+
+export type FieldValue = string | number | boolean | null;
+export type Fields = Record<string, FieldValue>;
+
+/** One field of one record, as pushed by a device. */
+export interface Change {
+  key: string;
+  field: string;
+  value: FieldValue;
+  stamp: string;
+}
+
+/** A whole record as the server returns it: every field with its stamp. */
+export interface RemoteRecord {
+  key: string;
+  fields: Record<string, { value: FieldValue; stamp: string }>;
+}
+
+/** Stamp of every field we hold locally: `stamps[key][field]`. */
+export type StampMap = Record<string, Record<string, string>>;
+
+const TASK_FIELDS = [
+  'text',
+  'category',
+  'priority',
+  'completed',
+  'completedAt',
+  'createdAt',
+  'urgent',
+  'important',
+  'dueAt',
+  'deadlineType',
+  'carryCount',
+  'carriedFrom',
+  'rolledOver',
+  'dropReason',
+  'recurrenceId',
+  'goalId',
+] as const;
+
+type ListKind = 'category' | 'goal';
+
+/** Meta‑store lists that sync item by item, and the fields each item carries. */
+const LISTS: Record<string, { kind: ListKind; fields: readonly string[] }> = {
+  [CATEGORIES_KEY]: { kind: 'category', fields: ['name', 'color', 'icon', 'archived'] },
+  [GOALS_KEY]: { kind: 'goal', fields: ['title', 'horizon', 'period', 'keyResults', 'createdAt', 'archived'] },
+};
+
+export const SYNCED_META_KEYS = Object.keys(LISTS);
+
+export const dayKey = (date: string) => `day/${date}`;
+export const taskKey = (date: string, id: string) => `task/${date}/${id}`;
+
+/** Parse a record key back into its parts (`null` for unknown kinds). */
+export function parseKey(
+  key: string,
+):
+  | { kind: 'day'; date: string }
+  | { kind: 'task'; date: string; id: string }
+  | { kind: ListKind; id: string }
+  | null {
+  const [kind, date, id] = key.split('/');
+  if (kind === 'day' && date) return { kind, date };
+  if (kind === 'task' && date && id) return { kind, date, id };
+  if ((kind === 'category' || kind === 'goal') && date) return { kind, id: date };
+  return null;
+}
+
+/**
+ * Flatten entries into `key → fields`.  Raw records that aren’t even
+ * shaped like an entry (pre‑migration, about to be quarantined) are skipped.
+ */
+export function toRecords(entries: DailyEntry[]): Map<string, Fields> {
+  const records = new Map<string, Fields>();
+  for (const entry of entries) {
+    if (typeof entry?.date !== 'string' || !Array.isArray(entry.tasks)) continue;
+    records.set(dayKey(entry.date), {
+      reflection: entry.reflection ?? '',
+      timestamp: entry.timestamp,
+      deleted: false,
+    });
+    for (const task of entry.tasks) {
+      if (typeof task?.id !== 'string') continue;
+      const fields: Fields = { deleted: false };
+      // Optional fields travel as `null` when unset, so clearing them syncs too
+      TASK_FIELDS.forEach(f => (fields[f] = task[f] ?? null));
+      fields.scoring = task.scoring ? JSON.stringify(task.scoring) : null;
+      fields.subtasks = task.subtasks ? JSON.stringify(task.subtasks) : null;
+      fields.tags = task.tags ? JSON.stringify(task.tags) : null;
+      records.set(taskKey(entry.date, task.id), fields);
+    }
+  }
+  return records;
+}
+
+/** `scoring`, `subtasks` and `tags` travel as JSON strings; anything unreadable is dropped. */
+function decodeJson<T>(value: unknown): T | undefined {
+  if (typeof value !== 'string') return (value as T) ?? undefined;
+  try {
+    return JSON.parse(value) ?? undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The items of a stored meta list (`null` or unreadable: none). */
+function readList(stored: string | null): Record<string, unknown>[] {
+  try {
+    const list = JSON.parse(stored || '[]');
+    return Array.isArray(list) ? list.filter(item => typeof item?.id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Flatten the stored value of the synced meta key `name` into `key → fields`. */
+function listRecords(name: string, stored: string | null): Map<string, Fields> {
+  const { kind, fields } = LISTS[name];
+  const records = new Map<string, Fields>();
+  for (const item of readList(stored)) {
+    const values: Fields = {};
+    fields.forEach(f => {
+      const value = item[f] ?? null;
+      values[f] = Array.isArray(value) ? JSON.stringify(value) : (value as FieldValue);
+    });
+    records.set(`${kind}/${item.id}`, values);
+  }
+  return records;
+}
+
+/** Item‑level differences between two stored values of the synced meta key `name`. */
+export function diffMeta(name: string, before: string | null, after: string | null, stamp: () => string): Change[] {
+  const prev = listRecords(name, before);
+  const changes: Change[] = [];
+  for (const [key, fields] of listRecords(name, after)) {
+    const old = prev.get(key);
+    for (const [field, value] of Object.entries(fields)) {
+      if (!old || old[field] !== value) changes.push({ key, field, value, stamp: stamp() });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Apply winning remote fields to the stored value of the synced meta key
+ * `name`.  Returns the new value, or `null` when nothing in `incoming`
+ * belongs to it.  Items we don’t have yet are appended.
+ */
+export function applyRemoteMeta(
+  name: string,
+  stored: string | null,
+  incoming: Map<string, Fields>,
+  complete: Map<string, Fields>,
+): string | null {
+  const { kind } = LISTS[name];
+  const list = readList(stored);
+  let touched = false;
+
+  for (const [key, fields] of incoming) {
+    const parsed = parseKey(key);
+    if (parsed?.kind !== kind) continue;
+    touched = true;
+    const idx = list.findIndex(item => item.id === parsed.id);
+    const item: Record<string, unknown> = {
+      ...(idx > -1 ? list[idx] : { ...complete.get(key) }),
+      ...fields,
+      id: parsed.id,
+    };
+    if ('keyResults' in item) item.keyResults = decodeJson(item.keyResults);
+    for (const field of Object.keys(item)) {
+      if (item[field] === null || item[field] === undefined) delete item[field];
+    }
+    if (idx > -1) list[idx] = item;
+    else list.push(item);
+  }
+  return touched ? JSON.stringify(list) : null;
+}
+
+/** Field‑level differences between two snapshots, stamped with `stamp()`. */
+export function diffEntries(before: DailyEntry[], after: DailyEntry[], stamp: () => string): Change[] {
+  const prev = toRecords(before);
+  const next = toRecords(after);
+  const changes: Change[] = [];
+
+  for (const [key, fields] of next) {
+    const old = prev.get(key);
+    for (const [field, value] of Object.entries(fields)) {
+      if (!old || old[field] !== value) changes.push({ key, field, value, stamp: stamp() });
+    }
+  }
+  for (const key of prev.keys()) {
+    if (!next.has(key)) changes.push({ key, field: 'deleted', value: true, stamp: stamp() });
+  }
+  return changes;
+}
+
+/**
+ * Apply winning remote fields to local entries.  `incoming` holds, per
+ * key, only the fields that beat the local stamp; `stamps` are the local
+ * stamps (already advanced for those winners).  Returns new entries;
+ * days that end up deleted with no live tasks are dropped.
+ *
+ * `deleted` is decided like any other field: a record we removed here
+ * stays removed unless the remote `deleted: false` is the later one, so
+ * a newer edit to another field doesn’t bring it back on this device only.
+ */
+export function applyRemoteFields(
+  entries: DailyEntry[],
+  incoming: Map<string, Fields>,
+  complete: Map<string, Fields>,
+  stamps: StampMap = {},
+): DailyEntry[] {
+  const byDate = new Map(entries.map(e => [e.date, { ...e, tasks: [...e.tasks] }]));
+  const deletedDays = new Set<string>();
+
+  // Missing here but stamped: our tombstone, and the remote `deleted` didn’t beat it
+  const tombstoned = (key: string, present: boolean, fields: Fields) =>
+    !present && !('deleted' in fields) && !!stamps[key]?.deleted;
+
+  const dayFor = (date: string, fields?: Fields): DailyEntry => {
+    let day = byDate.get(date);
+    if (!day) {
+      const timestamp = typeof fields?.timestamp === 'string' ? fields.timestamp : new Date().toISOString();
+      day = { date, tasks: [], timestamp };
+      byDate.set(date, day);
+    }
+    return day;
+  };
+
+  for (const [key, fields] of incoming) {
+    const parsed = parseKey(key);
+    if (!parsed || (parsed.kind !== 'day' && parsed.kind !== 'task')) continue;
+
+    if (parsed.kind === 'day') {
+      if (fields.deleted === true) {
+        deletedDays.add(parsed.date);
+        continue;
+      }
+      if (fields.deleted === false) deletedDays.delete(parsed.date);
+      if (tombstoned(key, byDate.has(parsed.date), fields)) continue;
+      const day = dayFor(parsed.date, complete.get(key));
+      if ('reflection' in fields) day.reflection = (fields.reflection as string) || undefined;
+      continue;
+    }
+
+    const idx = byDate.get(parsed.date)?.tasks.findIndex(t => t.id === parsed.id) ?? -1;
+    if (fields.deleted === true) {
+      if (idx > -1) byDate.get(parsed.date).tasks.splice(idx, 1);
+      continue;
+    }
+    if (tombstoned(key, idx > -1, fields)) continue;
+    const day = dayFor(parsed.date, complete.get(dayKey(parsed.date)));
+
+    // A task we don’t have yet needs every field; take them from the full record
+    const base: Partial<Task> = idx > -1 ? day.tasks[idx] : { id: parsed.id, ...(complete.get(key) as Partial<Task>) };
+    const task = { ...base, ...fields, id: parsed.id } as Task & { deleted?: boolean };
+    delete task.deleted;
+    task.scoring = decodeJson(task.scoring);
+    task.subtasks = decodeJson(task.subtasks);
+    task.tags = decodeJson(task.tags);
+    for (const key of Object.keys(task) as (keyof Task)[]) {
+      if (task[key] === null || task[key] === undefined) delete task[key];
+    }
+    if (idx > -1) day.tasks[idx] = task;
+    else day.tasks.push(task);
+  }
+
+  return [...byDate.values()]
+    .filter(day => !(deletedDays.has(day.date) && day.tasks.length === 0))
+    .map(day => ({ ...day, tasks: day.tasks.sort((a, b) => a.priority - b.priority) }));
+}
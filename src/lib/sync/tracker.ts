@@ -0,0 +1,93 @@
+/**
+ * Local change tracking for sync.
+ *
+ * `createTrackedRepository` wraps a profile’s repository.  While sync is
+ * configured, every entry write is diffed field by field (see
+ * `./records`) and the changes are stamped and queued in the outbox –
+ * the offline queue that survives reloads until a push succeeds.  Later
+ * edits of the same field replace the queued change, so the outbox stays
+ * small however long the device is offline.
+ *
+ * All bookkeeping lives in the wrapped repository’s meta store, so it is
+ * per profile and encrypted along with everything else.
+ */
+
+import type { EntryRepository } from '@/lib/repository/types';
+import { nextStamp } from './clock';
+import { SYNCED_META_KEYS, diffEntries, diffMeta, type Change, type StampMap } from './records';
+
+export const SYNC_CONFIG_KEY = 'sync.config';
+export const OUTBOX_KEY = 'sync.outbox';
+export const STAMPS_KEY = 'sync.stamps';
+
+/** Pending changes keyed by `<key>|<field>`. */
+export type Outbox = Record<string, Change>;
+
+export const outboxId = (change: Change) => `${change.key}|${change.field}`;
+
+export async function readJson<T>(repo: EntryRepository, key: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse((await repo.getMeta(key)) || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/** Queue `changes` and remember their stamps as the local ones. */
+export async function recordChanges(repo: EntryRepository, changes: Change[]): Promise<void> {
+  const outbox = await readJson<Outbox>(repo, OUTBOX_KEY, {});
+  const stamps = await readJson<StampMap>(repo, STAMPS_KEY, {});
+  for (const change of changes) {
+    outbox[outboxId(change)] = change;
+    (stamps[change.key] ??= {})[change.field] = change.stamp;
+  }
+  await repo.setMeta(OUTBOX_KEY, JSON.stringify(outbox));
+  await repo.setMeta(STAMPS_KEY, JSON.stringify(stamps));
+}
+
+const queues = new WeakMap<EntryRepository, Promise<unknown>>();
+
+/**
+ * Run `task` after every earlier exclusive task on `repo` has finished,
+ * so a local write can’t interleave with a sync merging into the same data.
+ */
+export function exclusive<T>(repo: EntryRepository, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(repo) ?? Promise.resolve();
+  const run = previous.catch(() => undefined).then(task);
+  queues.set(repo, run);
+  return run;
+}
+
+export function createTrackedRepository(inner: EntryRepository): EntryRepository {
+  const track = (write: () => Promise<void>) =>
+    exclusive(inner, async () => {
+      if (!(await inner.getMeta(SYNC_CONFIG_KEY))) return write();
+
+      const before = await inner.getEntries();
+      await write();
+      const changes = diffEntries(before, await inner.getEntries(), () => nextStamp());
+      if (changes.length > 0) await recordChanges(inner, changes);
+    });
+
+  // Categories and goals sync too; other meta values stay on this device
+  const trackMeta = (key: string, write: () => Promise<void>) =>
+    !SYNCED_META_KEYS.includes(key)
+      ? write()
+      : exclusive(inner, async () => {
+          if (!(await inner.getMeta(SYNC_CONFIG_KEY))) return write();
+
+          const before = await inner.getMeta(key);
+          await write();
+          const changes = diffMeta(key, before, await inner.getMeta(key), () => nextStamp());
+          if (changes.length > 0) await recordChanges(inner, changes);
+        });
+
+  return {
+    ...inner,
+    putEntry: entry => track(() => inner.putEntry(entry)),
+    deleteEntry: timestamp => track(() => inner.deleteEntry(timestamp)),
+    replaceEntries: entries => track(() => inner.replaceEntries(entries)),
+    setMeta: (key, value) => trackMeta(key, () => inner.setMeta(key, value)),
+    removeMeta: key => trackMeta(key, () => inner.removeMeta(key)),
+  };
+}
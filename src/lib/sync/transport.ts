@@ -0,0 +1,76 @@
+/**
+ * How sync talks to a remote.
+ *
+ * A transport performs one exchange: it sends our pending changes plus
+ * the cursor of the last exchange, and receives every record that changed
+ * on the remote since then (our own pushes included) and a new cursor.
+ * Anything that speaks this contract can be plugged in; the HTTP
+ * transport below matches `server/sync-server.mjs`.
+ */
+
+import type { Change, RemoteRecord } from './records';
+
+export interface ExchangeRequest {
+  /** `0` on first sync = “send me everything” */
+  since: number;
+  changes: Change[];
+}
+
+export interface ExchangeResponse {
+  cursor: number;
+  records: RemoteRecord[];
+}
+
+export interface SyncTransport {
+  exchange(request: ExchangeRequest): Promise<ExchangeResponse>;
+}
+
+/** The remote could not be reached (offline, DNS, CORS, timeout). */
+export class SyncOfflineError extends Error {}
+
+export interface HttpTransportOptions {
+  /** Server base URL, e.g. `http://192.168.1.20:8787` */
+  url: string;
+  /** Data space on the server – one per profile. */
+  space: string;
+  /** Sent as `Authorization: Bearer …` when set. */
+  token?: string;
+  timeoutMs?: number;
+}
+
+export function createHttpTransport({ url, space, token, timeoutMs = 15_000 }: HttpTransportOptions): SyncTransport {
+  const endpoint = `${url.replace(/\/+$/, '')}/spaces/${encodeURIComponent(space)}/sync`;
+
+  return {
+    async exchange(request) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
+          body: JSON.stringify(request),
+          signal: controller.signal,
+        });
+      } catch (err) {
+        throw new SyncOfflineError(`[sync] ${endpoint} is unreachable: ${(err as Error).message}`);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        throw new Error(`[sync] Server answered ${response.status}${detail ? `: ${detail}` : ''}`);
+      }
+      const body = (await response.json()) as ExchangeResponse;
+      if (typeof body?.cursor !== 'number' || !Array.isArray(body.records)) {
+        throw new Error('[sync] Unexpected response from the server');
+      }
+      return body;
+    },
+  };
+}
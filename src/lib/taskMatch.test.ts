@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { Task } from '@/lib/schema';
+import { matchTask } from '@/lib/taskMatch';
+
+const task = (id: string, text: string, priority: number): Task => ({
+  id,
+  text,
+  category: 'personal',
+  priority,
+  completed: false,
+  createdAt: '2026-10-19T08:00:00.000Z',
+  urgent: false,
+  important: true,
+});
+
+const tasks = [task('a', 'Finish proposal', 1), task('b', 'Gym', 2), task('c', 'Call the bank', 3), task('d', 'Call mom', 4)];
+const found = (reference: string) => {
+  const match = matchTask(tasks, reference);
+  return match.kind === 'found' ? match.task.id : match.kind;
+};
+
+describe('matchTask', () => {
+  it('finds tasks by words, typos and position', () => {
+    expect(found('proposal')).toBe('a');
+    expect(found('the gym one')).toBe('b');
+    expect(found('propsal')).toBe('a');
+    expect(found('the second one')).toBe('b');
+    expect(found('number 3')).toBe('c');
+  });
+
+  it('asks when two tasks fit equally well', () => {
+    const match = matchTask(tasks, 'call');
+    expect(match.kind).toBe('ambiguous');
+    expect(match.kind === 'ambiguous' && match.candidates.map(t => t.id).sort()).toEqual(['c', 'd']);
+  });
+
+  it('reports no match for unrelated words', () => {
+    expect(found('dentist')).toBe('none');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Find the task a spoken or typed reference means.
+ *
+ * People rarely repeat a task word for word: “the gym”, “drop the second
+ * one”, “the report thing”, or a speech‑to‑text slip like “jim”.  The
+ * matcher tries, in order:
+ *
+ *   1. position words – “first”, “the second one”, “number 3”, “last”
+ *   2. the exact text, ignoring case and punctuation
+ *   3. a fuzzy score: the share of the reference’s words found in the task
+ *      (allowing a typo, a sound‑alike or a word prefix), blended with how
+ *      much of the whole text the reference covers
+ *
+ * and reports `ambiguous` rather than guess when two tasks score alike.
+ */
+
+import type { Task } from '@/lib/schema';
+
+export type TaskMatch =
+  | { kind: 'found'; task: Task }
+  | { kind: 'ambiguous'; candidates: Task[] }
+  | { kind: 'none' };
+
+/** Fuzzy scores below this are not a match. */
+const MIN_SCORE = 0.5;
+
+/** The best score must beat the runner‑up by this much to count as found. */
+const CLEAR_LEAD = 0.15;
+
+const FILLER = new Set(['the', 'a', 'an', 'my', 'that', 'this', 'one', 'task', 'thing', 'item', 'to', 'for', 'of', 'on']);
+
+const ORDINALS: Record<string, number> = {
+  first: 1, '1st': 1,
+  second: 2, '2nd': 2,
+  third: 3, '3rd': 3,
+  fourth: 4, '4th': 4,
+  fifth: 5, '5th': 5,
+};
+
+/** Only after “number” / “task”: “number two”. */
+const CARDINALS: Record<string, number> = { one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[’']/g, '').replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Crude singular: “groceries” → “grocery”, “emails” → “email”. */
+const stem = (word: string) => (word.length > 4 ? word.replace(/ies$/, 'y').replace(/([^s])s$/, '$1') : word);
+
+const words = (text: string) =>
+  normalize(text)
+    .split(' ')
+    .filter(w => w && !FILLER.has(w))
+    .map(stem);
+
+/** Rough sound‑alike key, so speech‑to‑text slips (“jim” / “gym”, “mum” / “mom”) still match. */
+const soundKey = (word: string) => {
+  const spelled = word
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/g(?=[eiy])/g, 'j')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/[cq]/g, 'k')
+    .replace(/z/g, 's')
+    .replace(/y/g, 'i');
+  return (spelled[0] + spelled.slice(1).replace(/[aeiouh]/g, '')).replace(/(.)\1+/g, '$1');
+};
+
+/** Levenshtein distance, stopping early once it exceeds `max`. */
+function distance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** How well one spoken word matches one task word, 0–1. */
+function wordScore(spoken: string, word: string): number {
+  if (spoken === word) return 1;
+  if (spoken.length >= 3 && (word.startsWith(spoken) || spoken.startsWith(word))) return 0.8;
+  const allowed = spoken.length >= 7 ? 2 : spoken.length >= 3 ? 1 : 0;
+  if (allowed && distance(spoken, word, allowed) <= allowed) return 0.7;
+  return spoken.length >= 3 && soundKey(spoken) === soundKey(word) ? 0.7 : 0;
+}
+
+/** 0–1: how well `reference` describes `text`. */
+export function matchScore(reference: string, text: string): number {
+  const spoken = words(reference);
+  const target = words(text);
+  if (spoken.length === 0 || target.length === 0) return 0;
+  const per = spoken.map(s => Math.max(...target.map(t => wordScore(s, t))));
+  const recall = per.reduce((sum, n) => sum + n, 0) / spoken.length;
+  const coverage = Math.min(1, per.filter(n => n > 0).length / target.length);
+  return recall * 0.8 + coverage * 0.2;
+}
+
+/** 1‑based position a reference like “the second one” or “number 3” names, if any. */
+function position(reference: string, count: number): number | undefined {
+  const text = normalize(reference).replace(/^the\s+/, '').replace(/\s+(one|task)$/, '');
+  if (text === 'last') return count;
+  if (ORDINALS[text]) return ORDINALS[text];
+  const numbered = text.match(/^(?:(?:number|task|no)\s+)?(\d+)$/);
+  if (numbered) return Number(numbered[1]);
+  const named = text.match(/^(?:number|task)\s+(\w+)$/);
+  return named ? CARDINALS[named[1]] : undefined;
+}
+
+/** Resolve `reference` against `tasks` (in list order). */
+export function matchTask(tasks: Task[], reference: string): TaskMatch {
+  const wanted = normalize(reference);
+  if (!wanted || tasks.length === 0) return { kind: 'none' };
+
+  const pos = position(reference, tasks.length);
+  if (pos !== undefined) {
+    return pos >= 1 && pos <= tasks.length ? { kind: 'found', task: tasks[pos - 1] } : { kind: 'none' };
+  }
+
+  const exact = tasks.filter(t => normalize(t.text) === wanted);
+  if (exact.length === 1) return { kind: 'found', task: exact[0] };
+  if (exact.length > 1) return { kind: 'ambiguous', candidates: exact };
+
+  const scored = tasks
+    .map(task => ({ task, score: matchScore(reference, task.text) }))
+    .filter(s => s.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+  if (scored.length === 0) return { kind: 'none' };
+  const close = scored.filter(s => scored[0].score - s.score < CLEAR_LEAD);
+  return close.length === 1
+    ? { kind: 'found', task: close[0].task }
+    : { kind: 'ambiguous', candidates: close.map(s => s.task) };
+}
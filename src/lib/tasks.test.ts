@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createMemoryRepository, setEntryRepository } from '@/lib/repository';
+import { toDateKey, todayKey } from '@/lib/dates';
+import {
+  addTask,
+  editTask,
+  getEntryForDate,
+  getJournal,
+  getPendingRollover,
+  getTodayTasks,
+  redo,
+  removeTask,
+  resolveRollover,
+  saveDailyEntry,
+  setTaskCompleted,
+  undo,
+  type Task,
+} from '@/lib/tasks';
+
+const texts = async () => (await getTodayTasks()).map(t => `${t.text}${t.completed ? ' ✓' : ''}`);
+
+beforeEach(() => {
+  setEntryRepository(createMemoryRepository());
+});
+
+describe('undo / redo', () => {
+  it('steps back and forth through recorded mutations', async () => {
+    const gym = await addTask('Gym', 'personal');
+    await addTask('Report', 'professional');
+    await setTaskCompleted(gym.id, true);
+    expect(await texts()).toEqual(['Gym ✓', 'Report']);
+
+    expect((await undo())?.kind).toBe('complete');
+    expect(await texts()).toEqual(['Gym', 'Report']);
+    await undo();
+    expect(await texts()).toEqual(['Gym']);
+
+    await redo();
+    await redo();
+    expect(await texts()).toEqual(['Gym ✓', 'Report']);
+    expect(await redo()).toBeUndefined();
+  });
+
+  it('forgets the redo stack after a new mutation', async () => {
+    const gym = await addTask('Gym', 'personal');
+    await editTask(gym.id, { text: 'Evening run' });
+    await undo();
+    await removeTask(gym.id);
+
+    expect(await texts()).toEqual([]);
+    expect((await getJournal()).redo).toEqual([]);
+    await undo();
+    expect(await texts()).toEqual(['Gym']);
+  });
+
+  it('records concurrent mutations one by one', async () => {
+    const gym = await addTask('Gym', 'personal');
+    await Promise.all([addTask('Report', 'professional'), setTaskCompleted(gym.id, true)]);
+
+    expect((await getJournal()).undo.map(r => r.kind).sort()).toEqual(['add', 'add', 'complete']);
+    await undo();
+    await undo();
+    expect(await texts()).toEqual(['Gym']);
+  });
+});
+
+describe('rollover', () => {
+  const today = todayKey();
+  const yesterday = (() => {
+    const date = new Date();
+    date.setDate(date.getDate() - 1);
+    return toDateKey(date);
+  })();
+  const open = (id: string, text: string): Task => ({
+    id,
+    text,
+    category: 'personal',
+    priority: 1,
+    completed: false,
+    createdAt: `${yesterday}T08:00:00.000Z`,
+    urgent: false,
+    important: true,
+  });
+
+  beforeEach(async () => {
+    await saveDailyEntry({
+      date: yesterday,
+      tasks: [open('00000000-0000-4000-8000-000000000001', 'Proposal'), open('00000000-0000-4000-8000-000000000002', 'Filing')],
+      timestamp: `${yesterday}T08:00:00.000Z`,
+    });
+  });
+
+  it('carries and drops the loose ends of the previous day', async () => {
+    const pending = await getPendingRollover(today);
+    expect(pending?.tasks.map(t => t.text)).toEqual(['Proposal', 'Filing']);
+    const [proposal, filing] = pending!.tasks;
+
+    await expect(resolveRollover(yesterday, [{ id: filing.id, action: 'drop', reason: ' ' }], today)).rejects.toThrow(/reason/);
+    const carried = await resolveRollover(
+      yesterday,
+      [{ id: proposal.id, action: 'carry' }, { id: filing.id, action: 'drop', reason: 'no longer needed' }],
+      today,
+    );
+
+    expect(carried.map(t => [t.text, t.carryCount, t.carriedFrom])).toEqual([['Proposal', 1, yesterday]]);
+    expect((await getEntryForDate(yesterday))?.tasks.map(t => [t.rolledOver, t.dropReason])).toEqual([
+      ['carried', undefined],
+      ['dropped', 'no longer needed'],
+    ]);
+    expect(await getPendingRollover(today)).toBeNull();
+  });
+
+  it('undoes both days in one step', async () => {
+    const pending = await getPendingRollover(today);
+    await resolveRollover(yesterday, pending!.tasks.map(t => ({ id: t.id, action: 'carry' as const })), today);
+
+    await undo();
+    expect(await getEntryForDate(today)).toBeUndefined();
+    expect((await getPendingRollover(today))?.tasks).toHaveLength(2);
+
+    await redo();
+    expect(await texts()).toEqual(['Proposal', 'Filing']);
+  });
+});
@@ -2,135 +2,478 @@
  * Shared task and storage utilities for the Task‑Alignment Compass app.
  *
  * All components should import types and helpers from this module
- * instead of redeclaring `Task` locally.  This keeps the data model
- * in a single place and guarantees that localStorage access remains
- * consistent across VoiceAgent, DailyTaskEntry, dashboards, etc.
+ * instead of redeclaring `Task` locally.  The model itself (interfaces +
+ * zod schemas) lives in `./schema` and is re‑exported here; storage access
+ * stays consistent across VoiceAgent, DailyTaskEntry, dashboards, etc.
+ * Every record is validated on its way in and out of storage.
+ *
+ * Every storage helper is async: persistence is delegated to the active
+ * `EntryRepository` (see `src/lib/repository`).  Every write announces
+ * itself through `@/lib/changeFeed` so open views (and other tabs) refresh.
+ * Task mutations are recorded in an undo/redo journal (see `@/lib/journal`).
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { getEntryRepository, type EntryRepository } from '@/lib/repository';
+import { SCHEMA_VERSION, ensureMigrated } from '@/lib/migrations';
+import { todayKey } from '@/lib/dates';
+import { notifyDataChanged } from '@/lib/changeFeed';
+import { LAST_COMPLETED_KEY, QUARANTINE_KEY } from '@/lib/metaKeys';
+import { getPrioritizationSettings, rankTasks } from '@/lib/prioritization';
+import { normalizeTags, resolveCategoryId } from '@/lib/categories';
+import { resolveGoalId } from '@/lib/goals';
+import { matchTask } from '@/lib/taskMatch';
+import {
+  JOURNAL_KEY,
+  changesOf,
+  parseJournal,
+  popRedo,
+  popUndo,
+  pushRecord,
+  snapshotOf,
+  type DayChange,
+  type DaySnapshot,
+  type JournalRecord,
+  type JournalState,
+  type MutationKind,
+} from '@/lib/journal';
+import {
+  DEFAULT_URGENCY,
+  SubtaskSchema,
+  TaskInputSchema,
+  TaskScoringSchema,
+  assertValidEntry,
+  describeIssues,
+  partitionEntries,
+  type DailyEntry,
+  type EntryRevision,
+  type QuarantinedRecord,
+  type RolloverOutcome,
+  type Subtask,
+  type Task,
+  type TaskCategory,
+  type TaskInput,
+  type TaskScoring,
+  type Transcript,
+} from '@/lib/schema';
+
+export type {
+  DailyEntry,
+  EntryRevision,
+  DeadlineType,
+  MoscowLevel,
+  RolloverOutcome,
+  QuarantinedRecord,
+  Subtask,
+  SubtaskInput,
+  Task,
+  TaskCategory,
+  TaskInput,
+  TaskScoring,
+  Transcript,
+  TranscriptEvent,
+} from '@/lib/schema';
+export type { JournalRecord, JournalState } from '@/lib/journal';
+export {
+  DEADLINE_TYPES,
+  DEFAULT_URGENCY,
+  MOSCOW_LEVELS,
+  SubtaskInputSchema,
+  TaskInputSchema,
+} from '@/lib/schema';
+
+/**
+ * -------- Eisenhower matrix ----------------------------------------
+ *
+ * Every task carries an explicit `urgent` and `important` flag; the
+ * quadrant is derived from the two and never stored:
+ *
+ *                  urgent        not urgent
+ *   important      Do            Schedule
+ *   not important  Delegate      Eliminate
+ *
+ * Category plays no part in the ranking.
+ * Ordering by quadrant is the `eisenhower` strategy in `@/lib/prioritization`.
+ */
+export type Quadrant = 'do' | 'schedule' | 'delegate' | 'eliminate';
+
+/** Quadrants in the order they should be worked through. */
+export const QUADRANT_ORDER: Quadrant[] = ['do', 'schedule', 'delegate', 'eliminate'];
 
-export type TaskCategory = 'personal' | 'professional';
+export const QUADRANTS: Record<Quadrant, { label: string; hint: string; urgent: boolean; important: boolean }> = {
+  do: { label: 'Do', hint: 'Urgent and important – do it first', urgent: true, important: true },
+  schedule: { label: 'Schedule', hint: 'Important, not urgent – plan time for it', urgent: false, important: true },
+  delegate: { label: 'Delegate', hint: 'Urgent, not important – hand it off if you can', urgent: true, important: false },
+  eliminate: { label: 'Eliminate', hint: 'Neither – consider dropping it', urgent: false, important: false },
+};
 
-export interface Task {
-  id: string;                          // uuid‑v4
-  text: string;                        // the raw task text
-  category: TaskCategory;              // personal | professional
-  priority: number;                    // 1‑based priority order
-  completed: boolean;                  // track completion in UI
-  createdAt: string;                   // ISO timestamp of capture
+export function quadrantOf(task: Pick<Task, 'urgent' | 'important'>): Quadrant {
+  if (task.important) return task.urgent ? 'do' : 'schedule';
+  return task.urgent ? 'delegate' : 'eliminate';
 }
 
-/** Entry representing a single day’s focus list + optional reflection. */
-export interface DailyEntry {
-  date: string;                        // new Date().toDateString()
-  tasks: Task[];
-  reflection?: string;
-  /** precise moment the entry was saved (ISO) */
-  timestamp: string;
+/* ------------------------------------------------------------------ *
+ *  Storage helpers – everything goes through the EntryRepository     *
+ *  (IndexedDB, localStorage or in‑memory; see `@/lib/repository`).   *
+ * ------------------------------------------------------------------ */
+
+export { LAST_COMPLETED_KEY, QUARANTINE_KEY } from '@/lib/metaKeys';
+
+/** Active repository, upgraded to the current schema before first use. */
+async function repository(): Promise<EntryRepository> {
+  const repo = getEntryRepository();
+  await ensureMigrated(repo);
+  return repo;
+}
+
+/** Validate and write one entry, stamping the current schema version. */
+async function putEntry(entry: DailyEntry): Promise<void> {
+  const valid = assertValidEntry({ ...entry, schemaVersion: SCHEMA_VERSION });
+  await (await repository()).putEntry(valid);
+  notifyDataChanged();
+}
+
+/* -------- Quarantine: records that fail validation on read ---------- */
+
+/** Records set aside because they failed validation (oldest first). */
+export async function getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+  try {
+    return JSON.parse((await (await repository()).getMeta(QUARANTINE_KEY)) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/** Forget every quarantined record. */
+export async function clearQuarantine(): Promise<void> {
+  await (await repository()).removeMeta(QUARANTINE_KEY);
+  notifyDataChanged();
+}
+
+async function quarantine(repo: EntryRepository, records: QuarantinedRecord[]): Promise<void> {
+  records.forEach(r => console.warn(`[task] Quarantined invalid ${r.kind}: ${r.reason}`, r.record));
+  const existing = await getQuarantinedRecords();
+  await repo.setMeta(QUARANTINE_KEY, JSON.stringify([...existing, ...records]));
+  notifyDataChanged();
 }
 
 /**
- * -------- Eisenhower-style priority helpers ------------------------
- *
- * We use a *very* lightweight heuristic:
- *   • Importance: professional = 2, personal = 1
- *   • Urgency:    newer tasks are more urgent
- * Score = importance + (1 / ageInHours)
+ * Return every stored DailyEntry (empty array if none).  Invalid records
+ * are moved to the quarantine and never handed to the UI.
  */
-function _importanceWeight(category: TaskCategory): number {
-  return category === 'professional' ? 2 : 1;
+export async function getDailyEntries(): Promise<DailyEntry[]> {
+  try {
+    const repo = await repository();
+    const { valid, rejected } = partitionEntries(await repo.getEntries());
+    if (rejected.length > 0) {
+      await quarantine(repo, rejected);
+      await repo.replaceEntries(valid);
+    }
+    return valid;
+  } catch (err) {
+    console.warn('[task] Could not read daily entries', err);
+    return [];
+  }
 }
 
-function _ageInHours(createdAt: string): number {
-  const ms = Date.now() - new Date(createdAt).getTime();
-  return Math.max(ms / (1000 * 60 * 60), 1); // clamp ≥ 1 hour
+/** Overwrite the whole history at once (backup restore, bulk edits). */
+export async function replaceDailyEntries(entries: DailyEntry[]): Promise<void> {
+  const dates = new Set(entries.map(e => e.date));
+  if (dates.size !== entries.length) {
+    throw new Error('[tasks] replaceDailyEntries: more than one entry for the same day');
+  }
+  const valid = entries.map(e => assertValidEntry({ ...e, schemaVersion: SCHEMA_VERSION }));
+  await (await repository()).replaceEntries(valid);
+  notifyDataChanged();
 }
 
-/** Return a descending‑sorted copy of tasks (highest score first). */
-export function sortTasksByEisenhower(tasks: Task[]): Task[] {
-  return [...tasks].sort((a, b) => {
-    const scoreA =
-      _importanceWeight(a.category) + 1 / _ageInHours(a.createdAt);
-    const scoreB =
-      _importanceWeight(b.category) + 1 / _ageInHours(b.createdAt);
-    return scoreB - scoreA;
-  });
+/** Raw access to the repository’s key/value store (settings, flags). */
+export async function getMetaValue(key: string): Promise<string | null> {
+  return (await repository()).getMeta(key);
 }
 
-/* ------------------------------------------------------------------ *
- *  Local‑storage helpers (encapsulated so we can swap storage later) *
- * ------------------------------------------------------------------ */
+export async function setMetaValue(key: string, value: string): Promise<void> {
+  await (await repository()).setMeta(key, value);
+  notifyDataChanged();
+}
+
+export async function removeMetaValue(key: string): Promise<void> {
+  await (await repository()).removeMeta(key);
+  notifyDataChanged();
+}
+
+/* -------- Undo / redo journal ------------------------------------- */
+
+let mutations: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run `task` after every earlier mutation has finished (like `exclusive`
+ * in `@/lib/sync/tracker`), so two edits that overlap in time – a voice
+ * tool during a form edit, rollover and recurring generation on load –
+ * never interleave their reads and writes or land in one undo step.
+ * `task` must not start another queued mutation: it would wait for itself.
+ */
+export function queueMutation<T>(task: () => Promise<T>): Promise<T> {
+  const run = mutations.catch(() => undefined).then(task);
+  mutations = run;
+  return run;
+}
+
+/** The persisted undo/redo stacks. */
+export async function getJournal(): Promise<JournalState> {
+  return parseJournal(await (await repository()).getMeta(JOURNAL_KEY));
+}
+
+async function saveJournal(journal: JournalState): Promise<void> {
+  await (await repository()).setMeta(JOURNAL_KEY, JSON.stringify(journal));
+  notifyDataChanged();
+}
 
-const ENTRIES_KEY = 'dailyEntries';
-const LAST_COMPLETED_KEY = 'lastCompleted';
+async function captureDay(date: string): Promise<DaySnapshot> {
+  const repo = await repository();
+  const entry = (await repo.getEntries()).find(e => e.date === date);
+  return snapshotOf(entry, await repo.getMeta(LAST_COMPLETED_KEY));
+}
+
+const changed = (change: DayChange) => JSON.stringify(change.before) !== JSON.stringify(change.after);
+
+/**
+ * Run `mutate` as one queued mutation and journal how it changed `date`
+ * (or each of several dates, undone as one step); see `journaled`.
+ */
+function recorded<T>(
+  kind: MutationKind,
+  date: string | string[],
+  describe: (result: T) => string,
+  mutate: () => Promise<T>,
+): Promise<T> {
+  return queueMutation(() => journaled(kind, date, describe, mutate));
+}
 
-/** Return every stored DailyEntry (empty array if none). */
-export function getDailyEntries(): DailyEntry[] {
+/**
+ * Run `mutate` and journal how it changed `date` (or each of several
+ * dates, undone as one step); mutations that changed nothing are not
+ * journaled.  When `mutate` throws, the days are put back as they were,
+ * so a mutation writing two days never stops halfway.  `mutate` builds on
+ * the unrecorded helpers (`putEntry`, `putTask`, `saveEntryContent`,
+ * `appendTasks`), never on a recorded one.  Call it from inside
+ * `queueMutation`.
+ */
+export async function journaled<T>(
+  kind: MutationKind,
+  date: string | string[],
+  describe: (result: T) => string,
+  mutate: () => Promise<T>,
+): Promise<T> {
+  const dates = Array.isArray(date) ? date : [date];
+  const before = await Promise.all(dates.map(captureDay));
+  const capture = async () =>
+    Promise.all(dates.map(async (d, idx): Promise<DayChange> => ({ date: d, before: before[idx], after: await captureDay(d) })));
+
+  let result: T;
   try {
-    return JSON.parse(localStorage.getItem(ENTRIES_KEY) || '[]');
-  } catch {
-    console.warn('[task] Could not parse localStorage dailyEntries');
-    return [];
+    result = await mutate();
+  } catch (err) {
+    try {
+      for (const change of (await capture()).filter(changed)) await applySnapshot(change.date, change.before);
+    } catch (rollbackErr) {
+      console.error('[tasks] Could not roll back a failed mutation', rollbackErr);
+    }
+    throw err;
+  }
+
+  const changes = (await capture()).filter(changed);
+  if (changes.length > 0) {
+    const [main, ...also] = changes;
+    const record: JournalRecord = {
+      id: uuidv4(),
+      kind,
+      label: describe(result),
+      ...main,
+      at: new Date().toISOString(),
+      ...(also.length ? { also } : {}),
+    };
+    await saveJournal(pushRecord(await getJournal(), record));
+  }
+  return result;
+}
+
+/** Put a day back the way `snap` describes; revisions and transcripts are left alone. */
+async function applySnapshot(date: string, snap: DaySnapshot): Promise<void> {
+  const repo = await repository();
+  const current = (await repo.getEntries()).find(e => e.date === date);
+
+  const transcripts = current?.transcripts;
+  if (current && current.timestamp !== snap.entry?.timestamp) {
+    await repo.deleteEntry(current.timestamp);
+  }
+  if (snap.entry) {
+    const revisions = current?.timestamp === snap.entry.timestamp ? current.revisions : undefined;
+    await putEntry({
+      ...snap.entry,
+      ...(revisions ? { revisions } : {}),
+      ...(transcripts ? { transcripts } : {}),
+    });
+  } else if (transcripts?.length) {
+    // Undoing the change that created the day keeps its voice sessions
+    await putEntry({ date, tasks: [], timestamp: current.timestamp, transcripts });
   }
+
+  if (snap.lastCompleted) await repo.setMeta(LAST_COMPLETED_KEY, snap.lastCompleted);
+  else await repo.removeMeta(LAST_COMPLETED_KEY);
+  notifyDataChanged();
+}
+
+/** Revert the most recent journaled mutation; resolves to it (or undefined). */
+export async function undo(): Promise<JournalRecord | undefined> {
+  return queueMutation(async () => {
+    const { record, state } = popUndo(await getJournal());
+    if (!record) return undefined;
+    for (const change of changesOf(record)) await applySnapshot(change.date, change.before);
+    await saveJournal(state);
+    return record;
+  });
+}
+
+/** Re‑apply the most recently undone mutation; resolves to it (or undefined). */
+export async function redo(): Promise<JournalRecord | undefined> {
+  return queueMutation(async () => {
+    const { record, state } = popRedo(await getJournal());
+    if (!record) return undefined;
+    for (const change of changesOf(record)) await applySnapshot(change.date, change.after);
+    await saveJournal(state);
+    return record;
+  });
+}
+
+/* -------- One record per day, with revisions ----------------------- */
+
+/** How many earlier versions of a day we keep around. */
+export const MAX_REVISIONS = 20;
+
+/** Look up the single stored entry for `date`. */
+export async function getEntryForDate(date: string): Promise<DailyEntry | undefined> {
+  return (await getDailyEntries()).find(e => e.date === date);
+}
+
+function snapshot(entry: DailyEntry): EntryRevision {
+  return {
+    savedAt: entry.updatedAt ?? entry.timestamp,
+    tasks: entry.tasks,
+    ...(entry.reflection ? { reflection: entry.reflection } : {}),
+  };
+}
+
+const sameContent = (a: { tasks: Task[]; reflection?: string }, b: { tasks: Task[]; reflection?: string }) =>
+  JSON.stringify([a.tasks, a.reflection ?? '']) === JSON.stringify([b.tasks, b.reflection ?? '']);
+
+/**
+ * Save a day’s plan.  The first save creates the day’s record; later saves
+ * update it in place (the incoming task list wins, an empty reflection
+ * keeps the stored one) and push the previous content onto `revisions`.
+ * Saving identical content twice is a no‑op apart from `lastCompleted`.
+ */
+export async function saveDailyEntry(entry: DailyEntry): Promise<void> {
+  return recorded('save', entry.date, () => 'Save day', () => saveEntryContent(entry));
 }
 
-/** Persist the full array of entries back to localStorage. */
-function setDailyEntries(entries: DailyEntry[]): void {
-  localStorage.setItem(ENTRIES_KEY, JSON.stringify(entries));
+async function saveEntryContent(entry: DailyEntry): Promise<void> {
+  const existing = await getEntryForDate(entry.date);
+
+  if (!existing) {
+    await putEntry(entry);
+  } else {
+    const next = {
+      tasks: entry.tasks,
+      reflection: entry.reflection || existing.reflection,
+    };
+    if (!sameContent(existing, next)) {
+      await putEntry({
+        ...existing,
+        ...next,
+        updatedAt: new Date().toISOString(),
+        revisions: [...(existing.revisions ?? []), snapshot(existing)].slice(-MAX_REVISIONS),
+      });
+    }
+  }
+
+  await setLastCompletedDate(entry.date);
 }
 
-/** Append a new daily entry. */
-export function saveDailyEntry(entry: DailyEntry): void {
-  const entries = getDailyEntries();
-  entries.push(entry);
-  setDailyEntries(entries);
-  setLastCompletedDate(entry.date);
+/**
+ * Make an earlier revision of `date` current again.  The content being
+ * replaced becomes the newest revision, so a restore can itself be undone.
+ */
+export async function restoreRevision(date: string, revisionIndex: number): Promise<DailyEntry> {
+  return recorded('restore', date, () => 'Restore earlier version', async () => {
+    const existing = await getEntryForDate(date);
+    const revision = existing?.revisions?.[revisionIndex];
+    if (!existing || !revision) {
+      throw new Error(`[tasks] restoreRevision: no revision ${revisionIndex} for ${date}`);
+    }
+
+    const restored: DailyEntry = {
+      ...existing,
+      tasks: revision.tasks,
+      reflection: revision.reflection,
+      updatedAt: new Date().toISOString(),
+      revisions: [...existing.revisions, snapshot(existing)].slice(-MAX_REVISIONS),
+    };
+    await putEntry(restored);
+    return restored;
+  });
 }
 
 /** Convenience: get date string when the checklist was last completed. */
-export function getLastCompletedDate(): string | null {
-  return localStorage.getItem(LAST_COMPLETED_KEY);
+export async function getLastCompletedDate(): Promise<string | null> {
+  return (await repository()).getMeta(LAST_COMPLETED_KEY);
 }
 
 /** Store last completed date (e.g., to gate daily reminders). */
-export function setLastCompletedDate(date: string): void {
-  localStorage.setItem(LAST_COMPLETED_KEY, date);
+export async function setLastCompletedDate(date: string): Promise<void> {
+  await setMetaValue(LAST_COMPLETED_KEY, date);
 }
 
 /** Back‑compat alias used by DailyTaskEntry.tsx */
 export const updateLastCompleted = setLastCompletedDate;
 
 /** Add or update a single Task for today; auto‑creates today’s entry. */
-export function upsertTodayTask(task: Task): void {
-  const today = new Date().toDateString();
-  const entries = getDailyEntries();
-  let todayEntry = entries.find(e => e.date === today);
-
-  if (!todayEntry) {
-    todayEntry = { date: today, tasks: [], timestamp: new Date().toISOString() };
-    entries.push(todayEntry);
-  }
+export async function upsertTodayTask(task: Task): Promise<void> {
+  const today = todayKey();
+  return recorded('edit', today, () => `Update “${task.text}”`, () => putTask(today, task));
+}
 
-  const existingIdx = todayEntry.tasks.findIndex(t => t.id === task.id);
+/** Unrecorded core of `upsertTodayTask`, for use inside a recorded mutation. */
+async function putTask(date: string, task: Task): Promise<void> {
+  const entry: DailyEntry =
+    (await getEntryForDate(date)) ??
+    { date, tasks: [], timestamp: new Date().toISOString() };
+
+  const existingIdx = entry.tasks.findIndex(t => t.id === task.id);
   if (existingIdx > -1) {
-    todayEntry.tasks[existingIdx] = task;
+    entry.tasks[existingIdx] = task;
   } else {
-    todayEntry.tasks.push(task);
+    entry.tasks.push(task);
   }
 
-  setDailyEntries(entries);
+  await putEntry(entry);
 }
 
 /** Retrieve tasks for today (empty array if none). */
-export function getTodayTasks(): Task[] {
-  const today = new Date().toDateString();
-  const entry = getDailyEntries().find(e => e.date === today);
+export async function getTodayTasks(): Promise<Task[]> {
+  const entry = await getEntryForDate(todayKey());
   return entry ? entry.tasks : [];
 }
 
 /** Back‑compat alias so legacy imports (`getTasksForToday`) continue to work. */
 export const getTasksForToday = getTodayTasks;
 
+/** Completely wipe the user’s stored data (used for debugging / resets). */
+export async function clearAllData(): Promise<void> {
+  await getEntryRepository().clear();
+  notifyDataChanged();
+}
+
 /* ------------------------------------------------------------------ *
  *  Public helpers used by UI components                              *
  * ------------------------------------------------------------------ */
@@ -139,73 +482,449 @@ export const getTasksForToday = getTodayTasks;
  * Create & persist a brand‑new task for today and return the saved object.
  * Accepts either:
  *   • addTask("Write report", "professional")
- *   • addTask({ text: "Write report", category: "professional" })
+ *   • addTask({ text: "Write report", category: "professional", urgent: true, important: true })
+ * The category (and the optional goal) may be given by id or by name;
+ * unknown ones are rejected.
+ * Urgency / importance left out fall back to `DEFAULT_URGENCY`.
  */
-export function addTask(
-  textOrObj: string | { text: string; category: TaskCategory },
+export async function addTask(
+  textOrObj: string | TaskInput,
   categoryArg?: TaskCategory,
-): Task {
+): Promise<Task> {
   // Normalise parameters so we always end up with `text` + `category`
-  const text =
-    typeof textOrObj === 'string' ? textOrObj.trim() : textOrObj.text.trim();
-
-  const category =
+  const input =
     typeof textOrObj === 'string'
-      ? categoryArg
-      : textOrObj.category;
+      ? { text: textOrObj, category: categoryArg }
+      : textOrObj;
 
-  if (!text) {
-    throw new Error('[tasks] addTask: task text is required');
+  const parsed = TaskInputSchema.safeParse({ ...input, ...(input.tags ? { tags: normalizeTags(input.tags) } : {}) });
+  if (!parsed.success) {
+    throw new Error(`[tasks] addTask: ${describeIssues(parsed.error)}`);
   }
-  if (category !== 'personal' && category !== 'professional') {
-    throw new Error(
-      `[tasks] addTask: category must be "personal" or "professional", received "${category}"`,
-    );
+  const { text, urgent, important, dueAt, deadlineType, tags, goal } = parsed.data as TaskInput;
+  const category = await resolveCategoryId((parsed.data as TaskInput).category);
+  const goalId = goal ? await resolveGoalId(goal) : undefined;
+
+  const today = todayKey();
+  return recorded('add', today, () => `Add “${text}”`, async () => {
+    const task: Task = {
+      id: uuidv4(),
+      text,
+      category,
+      // Numbered inside the mutation, after any edit queued ahead of it
+      priority: (await getTodayTasks()).length + 1,
+      completed: false,
+      createdAt: new Date().toISOString(),
+      urgent: urgent ?? DEFAULT_URGENCY.urgent,
+      important: important ?? DEFAULT_URGENCY.important,
+      ...(dueAt ? { dueAt, deadlineType: deadlineType ?? 'soft' } : {}),
+      ...(tags?.length ? { tags } : {}),
+      ...(goalId ? { goalId } : {}),
+    };
+    await putTask(today, task);
+    return task;
+  });
+}
+
+/** Remove one of today’s tasks and close the gap in priorities. */
+export async function removeTask(id: string, date: string = todayKey()): Promise<Task | undefined> {
+  return recorded('remove', date, removed => `Remove “${removed?.text}”`, async () => {
+    const entry = await getEntryForDate(date);
+    const removed = entry?.tasks.find(t => t.id === id);
+    if (!entry || !removed) return undefined;
+
+    const tasks = entry.tasks
+      .filter(t => t.id !== id)
+      .map((t, idx) => ({ ...t, priority: idx + 1 }));
+    await putEntry({ ...entry, tasks });
+    return removed;
+  });
+}
+
+/**
+ * Fields of a task that may be changed after it was created; `dueAt: null`
+ * clears the deadline and `goalId: null` unlinks the goal.
+ */
+export type TaskChanges = Partial<
+  Pick<Task, 'text' | 'category' | 'urgent' | 'important' | 'scoring' | 'deadlineType' | 'tags'>
+> & {
+  dueAt?: string | null;
+  goalId?: string | null;
+};
+
+/** Apply `changes` to one task of `date`; resolves to the updated task. */
+export async function editTask(
+  id: string,
+  changes: TaskChanges,
+  date: string = todayKey(),
+): Promise<Task | undefined> {
+  return recorded('edit', date, edited => `Edit “${edited?.text}”`, async () => {
+    const entry = await getEntryForDate(date);
+    const current = entry?.tasks.find(t => t.id === id);
+    if (!entry || !current) return undefined;
+
+    const dueAt = changes.dueAt === null ? undefined : changes.dueAt ?? current.dueAt;
+    const parsed = TaskInputSchema.safeParse({
+      text: changes.text ?? current.text,
+      // A task may keep an archived category; a new one has to be active
+      category: changes.category ? await resolveCategoryId(changes.category) : current.category,
+      urgent: changes.urgent ?? current.urgent,
+      important: changes.important ?? current.important,
+      dueAt,
+      deadlineType: dueAt ? changes.deadlineType ?? current.deadlineType ?? 'soft' : undefined,
+      tags: changes.tags ? normalizeTags(changes.tags) : current.tags,
+    });
+    if (!parsed.success) {
+      throw new Error(`[tasks] editTask: ${describeIssues(parsed.error)}`);
+    }
+    const edited: Task = { ...current, ...(parsed.data as TaskInput) };
+    if (!edited.dueAt) {
+      delete edited.dueAt;
+      delete edited.deadlineType;
+    }
+    if (!edited.tags?.length) delete edited.tags;
+    // Like categories, a task may keep a goal that has since been archived
+    if (changes.goalId === null) delete edited.goalId;
+    else if (changes.goalId && changes.goalId !== current.goalId) edited.goalId = await resolveGoalId(changes.goalId);
+
+    if (changes.scoring) {
+      const scoring = TaskScoringSchema.safeParse(changes.scoring);
+      if (!scoring.success) {
+        throw new Error(`[tasks] editTask: ${describeIssues(scoring.error)}`);
+      }
+      edited.scoring = scoring.data as TaskScoring;
+    }
+    await putEntry({ ...entry, tasks: entry.tasks.map(t => (t.id === id ? edited : t)) });
+    return edited;
+  });
+}
+
+/** Move one task of `date` to position `toIndex` (0‑based) and renumber priorities. */
+export async function reorderTask(
+  id: string,
+  toIndex: number,
+  date: string = todayKey(),
+): Promise<Task[]> {
+  return recorded('reorder', date, () => 'Reorder tasks', async () => {
+    const entry = await getEntryForDate(date);
+    const from = entry?.tasks.findIndex(t => t.id === id) ?? -1;
+    if (!entry || from < 0) return entry?.tasks ?? [];
+
+    const tasks = [...entry.tasks];
+    const [moved] = tasks.splice(from, 1);
+    tasks.splice(Math.max(0, Math.min(toIndex, tasks.length)), 0, moved);
+    const renumbered = tasks.map((t, idx) => ({ ...t, priority: idx + 1 }));
+    await putEntry({ ...entry, tasks: renumbered });
+    return renumbered;
+  });
+}
+
+/** `task` with `completed` set; `completedAt` records when it was first ticked off and goes when reopened. */
+function withCompletion(task: Task, completed: boolean): Task {
+  const updated: Task = { ...task, completed };
+  if (!completed) delete updated.completedAt;
+  else if (!task.completed || !task.completedAt) updated.completedAt = new Date().toISOString();
+  return updated;
+}
+
+/** Tick a task of `date` off (or back on), stamping `completedAt`. */
+export async function setTaskCompleted(
+  id: string,
+  completed: boolean,
+  date: string = todayKey(),
+): Promise<Task | undefined> {
+  const verb = completed ? 'Complete' : 'Reopen';
+  return recorded('complete', date, task => `${verb} “${task?.text}”`, async () => {
+    const entry = await getEntryForDate(date);
+    const current = entry?.tasks.find(t => t.id === id);
+    if (!entry || !current) return undefined;
+
+    const updated = withCompletion(current, completed);
+    await putEntry({ ...entry, tasks: entry.tasks.map(t => (t.id === id ? updated : t)) });
+    return updated;
+  });
+}
+
+/**
+ * The task a spoken or typed name refers to (see `matchTask` in
+ * `@/lib/taskMatch`); `undefined` when nothing – or more than one – fits.
+ */
+export function findTaskByName(tasks: Task[], name: string): Task | undefined {
+  const match = matchTask(tasks, name);
+  return match.kind === 'found' ? match.task : undefined;
+}
+
+/* -------- Subtasks ----------------------------------------------- */
+
+export const MAX_SUBTASKS = 20;
+
+/** Steps done out of steps total (both 0 for a task without steps). */
+export function subtaskProgress(task: Pick<Task, 'subtasks'>): { done: number; total: number } {
+  const subtasks = task.subtasks ?? [];
+  return { done: subtasks.filter(s => s.completed).length, total: subtasks.length };
+}
+
+/**
+ * Change the steps of one task of `date`.  With `derive`, a task that has
+ * steps is completed exactly when all of them are; ticking the task itself
+ * off (`setTaskCompleted`) overrides that until a step changes again.
+ */
+async function updateSubtasks<T>(
+  taskId: string,
+  date: string,
+  describe: (task: Task) => string,
+  change: (subtasks: Subtask[], task: Task) => { subtasks: Subtask[]; result: T; derive: boolean },
+): Promise<T | undefined> {
+  const { result } = await recorded('edit', date, ({ task }) => (task ? describe(task) : ''), async (): Promise<{
+    task?: Task;
+    result?: T;
+  }> => {
+    const entry = await getEntryForDate(date);
+    const current = entry?.tasks.find(t => t.id === taskId);
+    if (!entry || !current) return {};
+
+    const { subtasks, result, derive } = change(current.subtasks ?? [], current);
+    let updated: Task = { ...current, subtasks };
+    if (subtasks.length === 0) delete updated.subtasks;
+    else if (derive) updated = withCompletion(updated, subtasks.every(s => s.completed));
+
+    await putEntry({ ...entry, tasks: entry.tasks.map(t => (t.id === taskId ? updated : t)) });
+    return { task: updated, result };
+  });
+  return result;
+}
+
+/** Append a step to a task of `date`; resolves to the new step. */
+export async function addSubtask(
+  taskId: string,
+  text: string,
+  date: string = todayKey(),
+): Promise<Subtask | undefined> {
+  const parsed = SubtaskSchema.safeParse({ id: uuidv4(), text, completed: false });
+  if (!parsed.success) {
+    throw new Error(`[tasks] addSubtask: ${describeIssues(parsed.error)}`);
   }
+  const subtask = parsed.data as Subtask;
+  return updateSubtasks(taskId, date, task => `Add step to “${task.text}”`, subtasks => {
+    if (subtasks.length >= MAX_SUBTASKS) {
+      throw new Error(`[tasks] addSubtask: at most ${MAX_SUBTASKS} steps per task`);
+    }
+    return { subtasks: [...subtasks, subtask], result: subtask, derive: true };
+  });
+}
 
-  const task: Task = {
-    id: uuidv4(),
-    text,
-    category,
-    priority: getTodayTasks().length + 1,
-    completed: false,
-    createdAt: new Date().toISOString(),
-  };
+/** Tick one step off (or back on); the task’s own completion follows. */
+export async function setSubtaskCompleted(
+  taskId: string,
+  subtaskId: string,
+  completed: boolean,
+  date: string = todayKey(),
+): Promise<Subtask | undefined> {
+  const verb = completed ? 'Complete' : 'Reopen';
+  return updateSubtasks(taskId, date, task => `${verb} a step of “${task.text}”`, subtasks => {
+    const target = subtasks.find(s => s.id === subtaskId);
+    const updated = target && { ...target, completed };
+    return { subtasks: subtasks.map(s => (s.id === subtaskId ? updated : s)), result: updated, derive: !!target };
+  });
+}
+
+/** Remove one step of a task of `date`. */
+export async function removeSubtask(
+  taskId: string,
+  subtaskId: string,
+  date: string = todayKey(),
+): Promise<Subtask | undefined> {
+  return updateSubtasks(taskId, date, task => `Remove a step of “${task.text}”`, subtasks => {
+    const removed = subtasks.find(s => s.id === subtaskId);
+    return { subtasks: subtasks.filter(s => s.id !== subtaskId), result: removed, derive: !!removed };
+  });
+}
 
-  upsertTodayTask(task);
-  return task;
+/** Move one step to position `toIndex` (0‑based) within its task. */
+export async function moveSubtask(
+  taskId: string,
+  subtaskId: string,
+  toIndex: number,
+  date: string = todayKey(),
+): Promise<Subtask[] | undefined> {
+  return updateSubtasks(taskId, date, task => `Reorder steps of “${task.text}”`, subtasks => {
+    const from = subtasks.findIndex(s => s.id === subtaskId);
+    if (from < 0) return { subtasks, result: subtasks, derive: false };
+    const next = [...subtasks];
+    const [moved] = next.splice(from, 1);
+    next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, moved);
+    return { subtasks: next, result: next, derive: false };
+  });
 }
 
 /**
  * Finalise today’s entry (e.g. after voice capture) and optionally attach
  * a daily reflection.  Returns the saved DailyEntry for convenience.
  */
-export function finalizeEntry(reflection?: string): DailyEntry {
-  // Re‑order today’s tasks by Eisenhower score and refresh priorities
-  const sorted = sortTasksByEisenhower(getTodayTasks());
-  sorted.forEach((t, idx) => (t.priority = idx + 1));
+export async function finalizeEntry(reflection?: string): Promise<DailyEntry> {
+  return recorded('finalize', todayKey(), () => 'Finalize day', async () => {
+    // Re‑order today’s tasks with the chosen strategy and refresh priorities
+    const ranked = rankTasks(await getTodayTasks(), await getPrioritizationSettings());
+    const sorted = ranked.map(({ task, rank }) => ({ ...task, priority: rank }));
 
-  const entry: DailyEntry = {
-    date: new Date().toDateString(),
-    tasks: sorted,
-    reflection,
-    timestamp: new Date().toISOString(),
-  };
+    const entry: DailyEntry = {
+      date: todayKey(),
+      tasks: sorted,
+      reflection,
+      timestamp: new Date().toISOString(),
+    };
+
+    await saveEntryContent(entry);
+    // The stored day keeps an earlier reflection when none was passed
+    return (await getEntryForDate(entry.date)) ?? entry;
+  });
+}
+
+/**
+ * Record `date`’s reflection without locking the day in (voice and typed
+ * capture note it first and finalize later).  Creates the day if needed.
+ */
+export async function setDayReflection(reflection: string, date: string = todayKey()): Promise<DailyEntry> {
+  return recorded('edit', date, () => 'Note reflection', async () => {
+    const entry: DailyEntry =
+      (await getEntryForDate(date)) ??
+      { date, tasks: [], timestamp: new Date().toISOString() };
+    const next = { ...entry, reflection: reflection.trim() || undefined };
+    await putEntry(next);
+    return next;
+  });
+}
+
+/* -------- Voice transcripts ---------------------------------------- */
+
+/**
+ * Save a voice session’s transcript on `date`’s entry, replacing the copy
+ * saved earlier in the same session (matched by id).  A day without a
+ * record yet gets an empty one, so a session that added nothing is still
+ * kept.  Recorded like every other write, so it queues behind the tool
+ * calls of the same session; snapshots leave transcripts out, so undo and
+ * redo never rewind one – only creating the day shows up in the journal.
+ */
+export async function saveTranscript(transcript: Transcript, date: string = todayKey()): Promise<void> {
+  return recorded('save', date, () => 'Save voice session', async () => {
+    const entry: DailyEntry =
+      (await getEntryForDate(date)) ??
+      { date, tasks: [], timestamp: new Date().toISOString() };
+    const others = (entry.transcripts ?? []).filter(t => t.id !== transcript.id);
+    await putEntry({
+      ...entry,
+      transcripts: [...others, transcript].sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+    });
+  });
+}
+
+/* -------- Carry‑over between days --------------------------------- */
+
+/** Carried over this many times (or more), a task counts as chronic. */
+export const CHRONIC_CARRY_COUNT = 3;
+
+export const isChronic = (task: Pick<Task, 'carryCount'>) => (task.carryCount ?? 0) >= CHRONIC_CARRY_COUNT;
 
-  saveDailyEntry(entry);
-  return entry;
+/** Unfinished tasks of an earlier day still waiting for a decision. */
+export interface PendingRollover {
+  date: string;
+  tasks: Task[];
+}
+
+export type RolloverDecision = { id: string; action: 'carry' } | { id: string; action: 'drop'; reason: string };
+
+/**
+ * Unfinished tasks of the most recent day before `today` that have been
+ * neither carried over nor dropped; `null` when there is nothing to decide.
+ */
+export async function getPendingRollover(today: string = todayKey()): Promise<PendingRollover | null> {
+  const previous = (await getDailyEntries())
+    .filter(e => e.date < today)
+    .sort((a, b) => b.date.localeCompare(a.date))[0];
+  const tasks = previous?.tasks.filter(t => !t.completed && !t.rolledOver) ?? [];
+  return tasks.length > 0 ? { date: previous.date, tasks } : null;
+}
+
+/**
+ * Apply the user’s rollover decisions for `fromDate`.  Carried tasks are
+ * copied onto today – new id, same `createdAt`, `carryCount` + 1 – and
+ * marked `carried` on the earlier day; dropped ones are marked `dropped`
+ * with the reason.  Resolves to the copies added to today.
+ *
+ * Both days change in one journaled mutation: one undo step reverts
+ * both, and a failed write puts both back rather than leave tasks copied
+ * but still open (and offered again).
+ */
+export async function resolveRollover(
+  fromDate: string,
+  decisions: RolloverDecision[],
+  today: string = todayKey(),
+): Promise<Task[]> {
+  if (fromDate >= today) {
+    throw new Error('[tasks] resolveRollover: only an earlier day can be rolled over');
+  }
+  if (decisions.some(d => d.action === 'drop' && !d.reason.trim())) {
+    throw new Error('[tasks] resolveRollover: dropping a task needs a reason');
+  }
+
+  const describe = (copies: Task[]) =>
+    copies.length > 0 ? `Carry ${copies.length} task${copies.length === 1 ? '' : 's'} over` : 'Sort out loose ends';
+  return recorded('rollover', [today, fromDate], describe, async () => {
+    const source = await getEntryForDate(fromDate);
+    if (!source) throw new Error(`[tasks] resolveRollover: no entry for ${fromDate}`);
+
+    const byId = new Map(decisions.map(d => [d.id, d]));
+    const carried: Task[] = [];
+    const marked = source.tasks.map(task => {
+      const decision = byId.get(task.id);
+      if (!decision || task.completed || task.rolledOver) return task;
+      if (decision.action === 'drop') {
+        return { ...task, rolledOver: 'dropped' as RolloverOutcome, dropReason: decision.reason.trim() };
+      }
+      carried.push(task);
+      return { ...task, rolledOver: 'carried' as RolloverOutcome };
+    });
+
+    const target: DailyEntry =
+      (await getEntryForDate(today)) ?? { date: today, tasks: [], timestamp: new Date().toISOString() };
+    // A recurring task already generated for today replaces yesterday’s instance
+    const recurring = new Set(target.tasks.map(t => t.recurrenceId).filter(Boolean));
+    const copies: Task[] = carried.filter(t => !recurring.has(t.recurrenceId)).map((task, idx) => ({
+      ...task,
+      id: uuidv4(),
+      priority: target.tasks.length + idx + 1,
+      carryCount: (task.carryCount ?? 0) + 1,
+      carriedFrom: fromDate,
+    }));
+
+    // Source day first: once its tasks are marked they are never offered twice
+    await putEntry({ ...source, tasks: marked });
+    if (copies.length > 0) await putEntry({ ...target, tasks: [...target.tasks, ...copies] });
+    return copies;
+  });
 }
 
-/** Quick aggregate counts for dashboards. */
-export function getTaskCounts(date: string = new Date().toDateString()): {
+/**
+ * Append ready‑made tasks to `date` (creating the day if needed), numbered
+ * after the tasks already planned.  Not journaled by itself – wrap it in
+ * `journaled`, inside `queueMutation`.
+ */
+export async function appendTasks(date: string, tasks: Task[]): Promise<Task[]> {
+  if (tasks.length === 0) return [];
+  const entry: DailyEntry =
+    (await getEntryForDate(date)) ?? { date, tasks: [], timestamp: new Date().toISOString() };
+  const added = tasks.map((task, idx) => ({ ...task, priority: entry.tasks.length + idx + 1 }));
+  await putEntry({ ...entry, tasks: [...entry.tasks, ...added] });
+  return added;
+}
+
+/** Quick aggregate counts for dashboards; `byCategory` is keyed by category id. */
+export async function getTaskCounts(date: string = todayKey()): Promise<{
   total: number;
-  personal: number;
-  professional: number;
-} {
-  const entry = getDailyEntries().find(e => e.date === date);
-  return {
-    total: entry?.tasks.length ?? 0,
-    personal: entry?.tasks.filter(t => t.category === 'personal').length ?? 0,
-    professional: entry?.tasks.filter(t => t.category === 'professional').length ?? 0,
-  };
+  byCategory: Record<string, number>;
+}> {
+  const tasks = (await getEntryForDate(date))?.tasks ?? [];
+  const byCategory: Record<string, number> = {};
+  for (const task of tasks) byCategory[task.category] = (byCategory[task.category] ?? 0) + 1;
+  return { total: tasks.length, byCategory };
 }
\ No newline at end of file
@@ -0,0 +1,44 @@
+/**
+ * The live provider: an ElevenLabs Conversational AI agent, through
+ * `@11labs/react`.  Needs network access and a microphone.
+ */
+
+import { useConversation } from '@11labs/react';
+import type { VoiceProvider, VoiceSession, VoiceSessionOptions } from './types';
+
+// Production agent ID for the Daily Focus app
+export const DEFAULT_AGENT_ID = 'agent_01jxtpkc2rfyea485w67v3dhrc';
+
+/** `VITE_ELEVENLABS_AGENT_ID` points development builds at another agent. */
+const agentId = () => import.meta.env.VITE_ELEVENLABS_AGENT_ID || DEFAULT_AGENT_ID;
+
+function useElevenLabsSession(options: VoiceSessionOptions): VoiceSession {
+  const conversation = useConversation({
+    onConnect: () => options.onConnect?.(),
+    onDisconnect: () => options.onDisconnect?.(),
+    onError: message => options.onError?.(message),
+    onMessage: ({ message, source }) => options.onMessage?.({ source: source === 'ai' ? 'agent' : 'user', text: message }),
+    clientTools: options.clientTools,
+  });
+
+  return {
+    status: conversation.status,
+    isSpeaking: conversation.isSpeaking,
+    // The agent fills in the template’s {{placeholders}} from `dynamicVariables`
+    start: async ({ template, variables }) => {
+      await conversation.startSession({
+        agentId: agentId(),
+        overrides: { agent: { prompt: { prompt: template } } },
+        dynamicVariables: variables,
+      });
+    },
+    end: () => conversation.endSession(),
+  };
+}
+
+export const elevenLabsProvider: VoiceProvider = {
+  id: 'elevenlabs',
+  name: 'ElevenLabs',
+  needsMicrophone: true,
+  useSession: useElevenLabsSession,
+};
@@ -0,0 +1,64 @@
+/**
+ * Voice provider selection.
+ *
+ *   • `./types`      – the provider contract `VoiceAgent` talks to
+ *   • `./elevenLabs` – the live ElevenLabs agent (network + microphone)
+ *   • `./scripted`   – offline replay of a JSON conversation script
+ *
+ * The live agent is the default.  `VITE_VOICE_PROVIDER=scripted` switches
+ * a build to the scripted stand‑in, and `?voice=scripted` (or
+ * `?voice=elevenlabs`) overrides either for one page load.  The choice is
+ * read once, so a mounted `VoiceAgent` never swaps providers mid‑session.
+ */
+
+import { elevenLabsProvider } from './elevenLabs';
+import { MORNING_PLANNING_SCRIPT, createScriptedProvider } from './scripted';
+import type { VoiceProvider, VoiceProviderId } from './types';
+
+export type {
+  ClientTool,
+  VoiceMessage,
+  VoicePrompt,
+  VoiceProvider,
+  VoiceProviderId,
+  VoiceSession,
+  VoiceSessionOptions,
+  VoiceStatus,
+} from './types';
+export { DEFAULT_AGENT_ID } from './elevenLabs';
+export {
+  ConversationScriptSchema,
+  MORNING_PLANNING_SCRIPT,
+  createScriptedProvider,
+  parseScript,
+  playScript,
+  type ConversationScript,
+  type PlaybackOptions,
+  type ScriptListener,
+  type ScriptStep,
+} from './scripted';
+
+const PROVIDERS: Record<VoiceProviderId, VoiceProvider> = {
+  elevenlabs: elevenLabsProvider,
+  scripted: createScriptedProvider(MORNING_PLANNING_SCRIPT),
+};
+
+const isProviderId = (id: unknown): id is VoiceProviderId => typeof id === 'string' && id in PROVIDERS;
+
+function chooseProvider(): VoiceProvider {
+  const fromUrl = typeof location !== 'undefined' ? new URLSearchParams(location.search).get('voice') : null;
+  if (isProviderId(fromUrl)) return PROVIDERS[fromUrl];
+  const fromEnv = import.meta.env.VITE_VOICE_PROVIDER;
+  if (fromEnv && !isProviderId(fromEnv)) {
+    console.warn(`[voice] Unknown VITE_VOICE_PROVIDER “${fromEnv}” – using ElevenLabs`);
+  }
+  return isProviderId(fromEnv) ? PROVIDERS[fromEnv] : elevenLabsProvider;
+}
+
+let chosen: VoiceProvider | null = null;
+
+/** The provider for this page load. */
+export function getVoiceProvider(): VoiceProvider {
+  chosen ??= chooseProvider();
+  return chosen;
+}
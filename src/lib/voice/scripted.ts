@@ -0,0 +1,193 @@
+/**
+ * An offline stand‑in for the live agent: replays a JSON conversation
+ * script, firing the same status changes, `isSpeaking` flips, messages and
+ * client tool calls a real session would.  No network, no microphone – the
+ * whole capture‑to‑finalize flow can be worked on (and exercised in tests
+ * through `playScript`) without a paid agent.
+ *
+ * A script is a list of steps, played in order:
+ *
+ *   { "say": "Morning! What's first?" }          the agent speaks
+ *   { "user": "Add a task: go to the gym" }      the user speaks
+ *   { "tool": "addTask", "parameters": { … } }   the agent calls a client tool
+ *   { "wait": 500 }                              a pause, in ms
+ *
+ * When the steps run out the session disconnects, like a call hanging up.
+ * The session prompt is ignored – the script already knows what to say.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { z } from 'zod';
+import morningPlanning from './scripts/morningPlanning.json';
+import type { ClientTool, VoiceMessage, VoiceProvider, VoiceSession, VoiceSessionOptions, VoiceStatus } from './types';
+
+const ScriptStepSchema = z.union([
+  z.object({
+    say: z.string().trim().min(1),
+    /** how long the agent speaks; defaults to a pace based on the length */
+    ms: z.number().nonnegative().optional(),
+  }).strict(),
+  z.object({ user: z.string().trim().min(1) }).strict(),
+  z.object({ tool: z.string().trim().min(1), parameters: z.record(z.unknown()).default({}) }).strict(),
+  z.object({ wait: z.number().nonnegative() }).strict(),
+]);
+
+export const ConversationScriptSchema = z.object({
+  name: z.string().trim().min(1),
+  steps: z.array(ScriptStepSchema).min(1),
+});
+
+export type ScriptStep = z.infer<typeof ScriptStepSchema>;
+export type ConversationScript = z.infer<typeof ConversationScriptSchema>;
+
+/** Pretend handshake, so “connecting” is visible. */
+const CONNECT_MS = 400;
+
+/** Pause after each message, as if the other side were thinking. */
+const TURN_GAP_MS = 600;
+
+const speakingMs = (text: string) => Math.min(4_000, 400 + text.length * 45);
+
+export interface ScriptListener {
+  onStatusChange(status: VoiceStatus): void;
+  onSpeakingChange(speaking: boolean): void;
+  onMessage?(message: VoiceMessage): void;
+  /** Run a client tool and return what the agent would hear back. */
+  callTool(name: string, parameters: Record<string, unknown>): Promise<string | void> | string | void;
+}
+
+export interface PlaybackOptions {
+  /** Stops playback where it is; no further events fire. */
+  signal?: AbortSignal;
+  /** Multiplies every pause – `0` plays the script instantly. */
+  pace?: number;
+}
+
+/** Parse an untrusted script, e.g. one loaded from a file. */
+export function parseScript(raw: unknown): ConversationScript {
+  const parsed = ConversationScriptSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`[voice] Invalid conversation script at ${issue.path.join('.') || 'root'}: ${issue.message}`);
+  }
+  return parsed.data as ConversationScript;
+}
+
+/** Play `script` from connect to disconnect. */
+export async function playScript(
+  script: ConversationScript,
+  listener: ScriptListener,
+  { signal, pace = 1 }: PlaybackOptions = {},
+): Promise<void> {
+  const pause = (ms: number) =>
+    new Promise<void>(resolve => {
+      if (ms * pace <= 0 || signal?.aborted) return resolve();
+      const timer = setTimeout(resolve, ms * pace);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve();
+      }, { once: true });
+    });
+
+  listener.onStatusChange('connecting');
+  await pause(CONNECT_MS);
+  if (signal?.aborted) return;
+  listener.onStatusChange('connected');
+
+  for (const step of script.steps) {
+    if ('say' in step) {
+      listener.onSpeakingChange(true);
+      await pause(step.ms ?? speakingMs(step.say));
+      if (signal?.aborted) return;
+      listener.onSpeakingChange(false);
+      listener.onMessage?.({ source: 'agent', text: step.say });
+      await pause(TURN_GAP_MS);
+    } else if ('user' in step) {
+      listener.onMessage?.({ source: 'user', text: step.user });
+      await pause(TURN_GAP_MS);
+    } else if ('tool' in step) {
+      try {
+        await listener.callTool(step.tool, step.parameters);
+      } catch (err) {
+        // A real agent hears the error and carries on; so does the script
+        console.error(`[voice] ${step.tool} failed`, err);
+      }
+    } else if ('wait' in step) {
+      await pause(step.wait);
+    }
+    if (signal?.aborted) return;
+  }
+
+  listener.onStatusChange('disconnecting');
+  listener.onStatusChange('disconnected');
+}
+
+function useScriptedSession(script: ConversationScript, pace: number, options: VoiceSessionOptions): VoiceSession {
+  const [status, setStatus] = useState<VoiceStatus>('disconnected');
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  // Tools close over component state – always call the latest ones
+  const latest = useRef(options);
+  latest.current = options;
+  const playback = useRef<AbortController | null>(null);
+
+  const callTool = (name: string, parameters: Record<string, unknown>) => {
+    const tool: ClientTool | undefined = latest.current.clientTools[name];
+    if (!tool) throw new Error(`[voice] The script calls an unknown client tool “${name}”`);
+    return tool(parameters);
+  };
+
+  const start = useCallback(
+    () =>
+      new Promise<void>(resolve => {
+        playback.current?.abort();
+        const controller = new AbortController();
+        playback.current = controller;
+        playScript(
+          script,
+          {
+            onStatusChange: next => {
+              setStatus(next);
+              if (next === 'connected') {
+                latest.current.onConnect?.();
+                resolve();
+              }
+              if (next === 'disconnected') latest.current.onDisconnect?.();
+            },
+            onSpeakingChange: setIsSpeaking,
+            onMessage: message => latest.current.onMessage?.(message),
+            callTool,
+          },
+          { signal: controller.signal, pace },
+        ).finally(() => {
+          if (playback.current === controller) playback.current = null;
+          resolve();
+        });
+      }),
+    [script, pace],
+  );
+
+  const end = useCallback(async () => {
+    const controller = playback.current;
+    if (!controller) return;
+    playback.current = null;
+    controller.abort();
+    setIsSpeaking(false);
+    setStatus('disconnected');
+    latest.current.onDisconnect?.();
+  }, []);
+
+  return { status, isSpeaking, start, end };
+}
+
+/** A provider that replays `script` instead of talking to a live agent. */
+export function createScriptedProvider(script: ConversationScript, { pace = 1 }: Pick<PlaybackOptions, 'pace'> = {}): VoiceProvider {
+  return {
+    id: 'scripted',
+    name: `Scripted: ${script.name}`,
+    needsMicrophone: false,
+    useSession: options => useScriptedSession(script, pace, options),
+  };
+}
+
+/** Plans a day end to end: three tasks, a step, a reorder, a reflection, finalize. */
+export const MORNING_PLANNING_SCRIPT = parseScript(morningPlanning);
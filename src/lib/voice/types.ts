@@ -0,0 +1,52 @@
+/**
+ * Contract shared by every voice backend.
+ *
+ * A provider is a React hook: `VoiceAgent` calls `provider.useSession()`
+ * once per mount with its client tools and callbacks, and gets back the
+ * live status plus `start` / `end`.  Which provider is used is fixed for
+ * the lifetime of the page (see `./index.ts`), so the hook order never
+ * changes between renders.
+ */
+
+export type VoiceProviderId = 'elevenlabs' | 'scripted';
+
+export type VoiceStatus = 'connecting' | 'connected' | 'disconnecting' | 'disconnected';
+
+/** A function the agent can call; its return value is what the agent hears back. */
+export type ClientTool = (parameters: unknown) => Promise<string | void> | string | void;
+
+export interface VoiceMessage {
+  source: 'user' | 'agent';
+  text: string;
+}
+
+/** The system prompt for one session: a template and the values for its `{{placeholders}}`. */
+export interface VoicePrompt {
+  template: string;
+  variables: Record<string, string | number>;
+}
+
+export interface VoiceSessionOptions {
+  clientTools: Record<string, ClientTool>;
+  onConnect?: () => void;
+  onDisconnect?: () => void;
+  onError?: (message: string) => void;
+  /** Every finished user or agent utterance. */
+  onMessage?: (message: VoiceMessage) => void;
+}
+
+export interface VoiceSession {
+  status: VoiceStatus;
+  isSpeaking: boolean;
+  /** Resolves once the session is connected; rejects if it can’t be. */
+  start(prompt: VoicePrompt): Promise<void>;
+  end(): Promise<void>;
+}
+
+export interface VoiceProvider {
+  id: VoiceProviderId;
+  name: string;
+  /** false for providers that never open the microphone */
+  needsMicrophone: boolean;
+  useSession(options: VoiceSessionOptions): VoiceSession;
+}
@@ -1,22 +1,63 @@
-import { useState, useEffect } from 'react';
 import { VoiceTaskEntry } from '@/components/VoiceTaskEntry';
 import { ProgressDashboard } from '@/components/ProgressDashboard';
 import { TaskHistory } from '@/components/TaskHistory';
+import { DataBackup } from '@/components/DataBackup';
+import { EncryptionSettings } from '@/components/EncryptionSettings';
+import { LockScreen } from '@/components/LockScreen';
+import { ProfileSwitcher } from '@/components/ProfileSwitcher';
+import { MatrixBoard } from '@/components/MatrixBoard';
+import { RolloverDialog } from '@/components/RolloverDialog';
+import { SyncIndicator } from '@/components/SyncIndicator';
+import { SyncSettings } from '@/components/SyncSettings';
+import { PrioritizationSettings } from '@/components/PrioritizationSettings';
+import { RecurringTasks } from '@/components/RecurringTasks';
+import { CategorySettings } from '@/components/CategorySettings';
+import { GoalSettings } from '@/components/GoalSettings';
+import { VoiceSettings } from '@/components/VoiceSettings';
+import { TodayProgress } from '@/components/TodayProgress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { CheckCircle2, Target, TrendingUp } from 'lucide-react';
+import { CheckCircle2, LayoutGrid, Target, TrendingUp } from 'lucide-react';
 import { useMobile } from '@/hooks/useMobile';
+import {
+  useLastCompleted,
+  useLiveTaskData,
+  useProfiles,
+  useRecurringGeneration,
+  useStreak,
+} from '@/hooks/useTaskData';
+import { useUndoShortcuts } from '@/hooks/useJournal';
+import { useAutoLock, useEncryption } from '@/hooks/useEncryption';
+import { useAutoSync } from '@/hooks/useSync';
+import { todayKey } from '@/lib/dates';
 
 const Index = () => {
-  const [completedToday, setCompletedToday] = useState(false);
-  const [streak, setStreak] = useState(3); // Mock data for demo
+  // Consecutive planned days in the active profile
+  const streak = useStreak();
   const { isMobile, isIOS } = useMobile();
 
-  useEffect(() => {
-    // Check if user has already completed today's prioritization
-    const today = new Date().toDateString();
-    const lastCompleted = localStorage.getItem('lastCompleted');
-    setCompletedToday(lastCompleted === today);
-  }, []);
+  // Refresh every task view whenever data changes (this tab or another)
+  useLiveTaskData();
+
+  // Ctrl/⌘+Z and Ctrl/⌘+Shift+Z step through the undo journal
+  useUndoShortcuts();
+
+  // Has the user already completed today's prioritization?
+  const { data: lastCompleted } = useLastCompleted();
+  const completedToday = lastCompleted === todayKey();
+
+  // Encrypted storage stays behind the lock screen until unlocked
+  const { data: encryption, isLoading: encryptionLoading } = useEncryption();
+  const { data: profiles } = useProfiles();
+  useAutoLock();
+  useAutoSync();
+
+  // Today’s instances of recurring tasks join the plan by themselves
+  useRecurringGeneration();
+
+  if (encryptionLoading) return null;
+  if (encryption?.status === 'locked') {
+    return <LockScreen key={profiles?.activeId} kind={encryption.settings?.kind ?? 'passphrase'} />;
+  }
 
   return (
     <div className={`min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 ${isMobile ? 'pb-safe' : ''}`}>
@@ -33,7 +74,11 @@ const Index = () => {
                 <p className="text-sm text-gray-600">Build better habits, one day at a time</p>
               </div>
             </div>
-            <div className="text-right">
+            <div className="text-right flex flex-col items-end gap-1">
+              <div className="flex items-center gap-1">
+                <SyncIndicator />
+                <ProfileSwitcher />
+              </div>
               <div className="flex items-center gap-2 text-orange-600">
                 <div className="w-2 h-2 bg-orange-400 rounded-full animate-pulse"></div>
                 <span className="text-sm font-medium">{streak} day streak</span>
@@ -46,11 +91,15 @@ const Index = () => {
       {/* Main Content */}
       <div className={`max-w-md mx-auto px-4 py-6 ${isMobile ? 'px-safe' : ''}`}>
         <Tabs defaultValue="today" className="w-full">
-          <TabsList className="grid w-full grid-cols-3 mb-6">
+          <TabsList className="grid w-full grid-cols-4 mb-6">
             <TabsTrigger value="today" className="flex items-center gap-2">
               <CheckCircle2 className="w-4 h-4" />
               Today
             </TabsTrigger>
+            <TabsTrigger value="matrix" className="flex items-center gap-2">
+              <LayoutGrid className="w-4 h-4" />
+              Matrix
+            </TabsTrigger>
             <TabsTrigger value="progress" className="flex items-center gap-2">
               <TrendingUp className="w-4 h-4" />
               Progress
@@ -62,32 +111,32 @@ const Index = () => {
           </TabsList>
 
           <TabsContent value="today" className="space-y-6">
+            <RolloverDialog />
             {!completedToday ? (
-              <VoiceTaskEntry onComplete={() => setCompletedToday(true)} />
+              <VoiceTaskEntry />
             ) : (
-              <div className="text-center py-12">
-                <div className="w-20 h-20 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
-                  <CheckCircle2 className="w-10 h-10 text-green-600" />
-                </div>
-                <h2 className="text-2xl font-bold text-gray-900 mb-2">Great job!</h2>
-                <p className="text-gray-600 mb-4">
-                  You've set your priorities for today. Check back tomorrow for your next reflection.
-                </p>
-                <div className="bg-gradient-to-r from-green-50 to-blue-50 rounded-lg p-4">
-                  <p className="text-sm text-gray-700">
-                    💡 <strong>Tip:</strong> Review your tasks throughout the day and celebrate each completion!
-                  </p>
-                </div>
-              </div>
+              <TodayProgress />
             )}
           </TabsContent>
 
+          <TabsContent value="matrix">
+            <MatrixBoard />
+          </TabsContent>
+
           <TabsContent value="progress">
             <ProgressDashboard streak={streak} />
           </TabsContent>
 
-          <TabsContent value="history">
+          <TabsContent value="history" className="space-y-6">
             <TaskHistory />
+            <PrioritizationSettings />
+            <RecurringTasks />
+            <GoalSettings />
+            <CategorySettings />
+            <VoiceSettings />
+            <DataBackup />
+            <EncryptionSettings />
+            <SyncSettings />
           </TabsContent>
         </Tabs>
       </div>
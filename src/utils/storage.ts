@@ -1,87 +1,47 @@
 // src/utils/storage.ts
-// Centralised helpers for persisting the user’s Daily Entry data in
-// localStorage.  All other modules (VoiceAgent, DailyTaskEntry, dashboard
-// widgets, etc.) should call these helpers instead of touching
-// localStorage directly so we keep the storage shape + keys consistent
-// across the app.
-
-import type { Task } from '@/types/task';
-
-/** Single day’s entry – tasks plus optional reflection. */
-export interface DailyEntry {
-  /** Human‑readable date string produced by `new Date().toDateString()` */
-  date: string;
-  /** Ordered list of the user’s tasks for the day. */
-  tasks: Task[];
-  /** Free‑text reflection captured at the end of the day (optional). */
-  reflection?: string;
-  /** ISO timestamp – when the entry was saved. */
-  timestamp: string;
-}
-
-const ENTRIES_KEY = 'dailyEntries';
-const LAST_COMPLETED_KEY = 'lastCompleted';
+// Dashboard‑oriented helpers for the user’s Daily Entry data.  Persistence
+// itself lives in `@/lib/tasks` (which delegates to the active
+// EntryRepository), so this module only re‑exports those helpers under the
+// names older components use and adds a few aggregate views on top.
+
+import { parseDateKey, toDateKey, todayKey } from '@/lib/dates';
+import {
+  clearAllData,
+  getDailyEntries,
+  getLastCompletedDate,
+  saveDailyEntry,
+  updateLastCompleted,
+} from '@/lib/tasks';
+import type { DailyEntry } from '@/lib/tasks';
+
+export type { DailyEntry };
+export { getDailyEntries, saveDailyEntry, updateLastCompleted };
 
 /* =========================================================================
  * Public API
  * ========================================================================= */
 
-/**
- * Persist a new daily entry.  Multiple entries for the same calendar day are
- * allowed (use‑case: the user adds additional tasks later in the day).
- */
-export function saveDailyEntry(entry: DailyEntry): void {
-  const existing = getDailyEntries();
-  existing.push(entry);
-  localStorage.setItem(ENTRIES_KEY, JSON.stringify(existing));
-
-  // Remember the last day on which the checklist was completed
-  localStorage.setItem(LAST_COMPLETED_KEY, entry.date);
-}
-
-/**
- * Overwrite the “last completed” date (used by the streak widget).
- *
- * @param date – Human‑readable date string produced by `new Date().toDateString()`
- */
-export function updateLastCompleted(date: string): void {
-  localStorage.setItem(LAST_COMPLETED_KEY, date);
-}
-
-/** Retrieve every entry we have stored (oldest → newest). */
-export function getDailyEntries(): DailyEntry[] {
-  try {
-    const raw = localStorage.getItem(ENTRIES_KEY);
-    return raw ? (JSON.parse(raw) as DailyEntry[]) : [];
-  } catch {
-    // Corrupted data – wipe the key and start fresh.
-    localStorage.removeItem(ENTRIES_KEY);
-    return [];
-  }
-}
-
 /**
  * Wrapper used by components that want a resilient read.
- * Returns an empty array instead of throwing even if localStorage
+ * Resolves to an empty array instead of rejecting even if storage
  * is unavailable (e.g. in private‑mode) or the data is corrupted.
  */
-export function safeLoadDailyEntries(): DailyEntry[] {
+export async function safeLoadDailyEntries(): Promise<DailyEntry[]> {
   try {
-    return getDailyEntries();
+    return await getDailyEntries();
   } catch {
     return [];
   }
 }
 
 /** Date string for the most recent day the user completed their list. */
-export function getLastCompleted(): string | null {
-  return localStorage.getItem(LAST_COMPLETED_KEY);
+export function getLastCompleted(): Promise<string | null> {
+  return getLastCompletedDate();
 }
 
 /** Completely wipe the user’s stored data (used for debugging / resets). */
-export function clearStorage(): void {
-  localStorage.removeItem(ENTRIES_KEY);
-  localStorage.removeItem(LAST_COMPLETED_KEY);
+export function clearStorage(): Promise<void> {
+  return clearAllData();
 }
 
 /**
@@ -94,24 +54,25 @@ export function clearStorage(): void {
  * `quadrant`, etc.) simply update the counters below – the rest of the app
  * can stay unchanged.
  */
-export function getTaskCounts() {
-  const entries = getDailyEntries();
+export async function getTaskCounts() {
+  return countTasks(await getDailyEntries());
+}
 
+/** Synchronous core of `getTaskCounts` for callers that already hold the entries. */
+export function countTasks(entries: DailyEntry[]) {
   let total = 0;
   let completed = 0;
-  let personal = 0;
-  let professional = 0;
+  const byCategory: Record<string, number> = {};
 
   for (const { tasks } of entries) {
     for (const task of tasks) {
       total += 1;
 
-      // Count by (optional) completion flag – undefined defaults to pending.
-      if ((task as any).completed) completed += 1;
+      // Count by (optional) completion flag – undefined defaults to pending.
+      if (task.completed) completed += 1;
 
-      // Count by category.
-      if (task.category === 'personal') personal += 1;
-      else if (task.category === 'professional') professional += 1;
+      // Count by category id.
+      byCategory[task.category] = (byCategory[task.category] ?? 0) + 1;
     }
   }
 
@@ -119,7 +80,47 @@ export function getTaskCounts() {
     total,
     completed,
     pending: total - completed,
-    personal,
-    professional,
+    byCategory,
+  };
+}
+
+/** How much of one day’s plan got done. */
+export interface DayCompletion {
+  date: string;
+  done: number;
+  total: number;
+  /** done / total, 0–1; `null` for a day without tasks */
+  rate: number | null;
+}
+
+export function dayCompletion(entry: DailyEntry | undefined, date: string = entry?.date): DayCompletion {
+  const tasks = entry?.tasks ?? [];
+  const done = tasks.filter(t => t.completed).length;
+  return { date, done, total: tasks.length, rate: tasks.length ? done / tasks.length : null };
+}
+
+/**
+ * Completion over the `days` days up to `today` (oldest first, days
+ * without an entry included) plus totals.  A perfect day is a planned day
+ * with every task done.
+ */
+export function completionStats(entries: DailyEntry[], days = 7, today: string = todayKey()) {
+  const byDate = new Map(entries.map(e => [e.date, e]));
+  const start = parseDateKey(today);
+  const daily = Array.from({ length: days }, (_, i) => {
+    const day = new Date(start);
+    day.setDate(start.getDate() - (days - 1 - i));
+    const date = toDateKey(day);
+    return dayCompletion(byDate.get(date), date);
+  });
+
+  const done = daily.reduce((sum, d) => sum + d.done, 0);
+  const total = daily.reduce((sum, d) => sum + d.total, 0);
+  return {
+    daily,
+    done,
+    total,
+    rate: total ? done / total : null,
+    perfectDays: daily.filter(d => d.total > 0 && d.done === d.total).length,
   };
 }
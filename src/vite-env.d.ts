@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `elevenlabs` (default) or `scripted` – see `src/lib/voice` */
+  readonly VITE_VOICE_PROVIDER?: string;
+  /** Overrides the production ElevenLabs agent */
+  readonly VITE_ELEVENLABS_AGENT_ID?: string;
+}
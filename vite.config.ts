@@ -1,4 +1,5 @@
 
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -27,5 +28,8 @@ export default defineConfig(({ mode }) => ({
   },
   optimizeDeps: {
     exclude: ['lovable-tagger']
-  }
+  },
+  test: {
+    include: ['src/**/*.test.ts'],
+  },
 }));